@@ -14,7 +14,10 @@ import cncRoutes from "./routes/cnc";
 import shippingRoutes from "./routes/shipping";
 import userRoutes from "./routes/users"; // Import user routes
 import invoiceRoutes from "./routes/invoiceRoutes";
-import { requireAuth } from "./middleware/clerkAuth";
+import reportRoutes from "./routes/reports";
+import { requireAuth, clerkMiddleware } from "./middleware/clerkAuth";
+import { getPackingCacheStats } from "./services/packing-cache";
+import { getPackingPoolStats } from "./services/packing-pool";
 
 const app = express();
 
@@ -45,15 +48,21 @@ app.use("/api/ai", requireAuth(), aiRoutes);
 
 // Mount API routes
 app.use("/api/cnc", cncRoutes);
-app.use("/api/shipping", shippingRoutes);
+app.use("/api/shipping", clerkMiddleware(), shippingRoutes); // Public, but reads the signed-in user so sessions are stored per user
 app.use("/api/users", requireAuth(), userRoutes); // Add user routes, protected by requireAuth
 app.use("/api/invoice", requireAuth(), invoiceRoutes);
+app.use("/api/reports", requireAuth(), reportRoutes); // Admin analytics, each report checks for the master admin
 
 // Health check endpoint for deployment and monitoring
-// Returns 200 OK if the server is running
+// Returns 200 OK if the server is running, with the packing cache's hit and miss counts and the worker pool's load
 app.get("/api/health", (req, res) => {
 	console.log(`[HealthCheck] /api/health called`);
-	res.status(200).json({ status: "ok", message: "API is healthy" });
+	res.status(200).json({
+		status: "ok",
+		message: "API is healthy",
+		packingCache: getPackingCacheStats(),
+		packingPool: getPackingPoolStats(),
+	});
 });
 
 // WhoAmI endpoint: returns the authenticated user's ID (and optionally more info)
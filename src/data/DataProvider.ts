@@ -97,6 +97,21 @@ export interface DataProviderOptions {
 	 * Useful for shared resources vs. private user data.
 	 */
 	isPublic?: boolean;
+
+	/**
+	 * Fields to leave out of (0) or keep in (1) the documents returned by getDocuments.
+	 */
+	projection?: Record<string, 0 | 1>;
+
+	/**
+	 * Sort order for getDocuments: 1 ascending, -1 descending.
+	 */
+	sort?: Record<string, 1 | -1>;
+
+	/**
+	 * Most documents getDocuments returns.
+	 */
+	limit?: number;
 }
 
 /**
@@ -6,6 +6,8 @@
  */
 
 import ShippingItem from "../types/ShippingItem";
+import ShippingBox from "../types/ShippingBox";
+import KitDefinition from "../types/KitDefinition";
 import { DatabaseResponse, MongoDocument } from "../types/mongodb";
 import {
 	DataProvider,
@@ -139,6 +141,160 @@ export const DataService = {
 		},
 	},
 
+	/**
+	 * Box Catalogue API
+	 * Specialized methods for ShippingBox operations.
+	 * The "Boxes" collection replaces the old hard-coded box list so warehouse
+	 * staff can add or retire carton sizes without a code deploy.
+	 */
+	boxes: {
+		/**
+		 * Get all active (non-deleted) boxes in the catalogue
+		 */
+		getAvailable: async (): Promise<DatabaseResponse<ShippingBox[]>> => {
+			return dataProvider.getDocuments<ShippingBox>("Boxes", {
+				deletedAt: null,
+			});
+		},
+
+		/**
+		 * Add a new box to the catalogue
+		 */
+		add: async (
+			box: Omit<ShippingBox, "_id" | "createdAt" | "updatedAt" | "deletedAt">
+		): Promise<DatabaseResponse<ShippingBox>> => {
+			return dataProvider.createDocument<ShippingBox>("Boxes", box);
+		},
+
+		/**
+		 * Update an existing box in the catalogue
+		 */
+		update: async (
+			box: ShippingBox
+		): Promise<DatabaseResponse<ShippingBox>> => {
+			if (!box._id) {
+				return {
+					success: false,
+					error: "Update failed: ShippingBox _id is missing.",
+					status: 400,
+					message: "Cannot update box without a valid _id.",
+				};
+			}
+			const { _id, createdAt, updatedAt, deletedAt, ...updateData } = box;
+			return dataProvider.updateDocument<ShippingBox>(
+				"Boxes",
+				_id.toString(),
+				updateData
+			);
+		},
+
+		/**
+		 * Retire a box from the catalogue (soft delete)
+		 */
+		delete: async (id: string): Promise<DatabaseResponse<ShippingBox>> => {
+			return dataProvider.deleteDocument<ShippingBox>("Boxes", id);
+		},
+
+		/**
+		 * Seed the catalogue with default boxes.
+		 * Only runs when the collection has never held any boxes (retired boxes
+		 * count), so a deliberately emptied catalogue is not repopulated.
+		 */
+		seedDefaults: async (
+			defaults: ShippingBox[]
+		): Promise<DatabaseResponse<ShippingBox[]>> => {
+			const existing = await dataProvider.getAllDocuments<ShippingBox>("Boxes");
+			if (!existing.success) {
+				return { ...existing, data: [] };
+			}
+			if (existing.data && existing.data.length > 0) {
+				return {
+					success: true,
+					data: [],
+					status: 200,
+					message: "Box catalogue already seeded.",
+				};
+			}
+
+			console.log(
+				`[DataService] Seeding Boxes collection with ${defaults.length} default boxes.`
+			);
+			const seeded: ShippingBox[] = [];
+			for (const box of defaults) {
+				// Let MongoDB assign real ObjectIds so the boxes can be updated later
+				const { _id, createdAt, updatedAt, deletedAt, ...boxData } = box;
+				const response = await dataProvider.createDocument<ShippingBox>(
+					"Boxes",
+					boxData
+				);
+				if (!response.success || !response.data) {
+					return { ...response, data: seeded };
+				}
+				seeded.push(response.data);
+			}
+			return {
+				success: true,
+				data: seeded,
+				status: 201,
+				message: "Box catalogue seeded successfully.",
+			};
+		},
+	},
+
+	/**
+	 * Kit Definitions API
+	 * Specialized methods for KitDefinition operations.
+	 * The "Kits" collection maps a kit's parent SKU to its component items.
+	 */
+	kits: {
+		/**
+		 * Get all active (non-deleted) kit definitions
+		 */
+		getAvailable: async (): Promise<DatabaseResponse<KitDefinition[]>> => {
+			return dataProvider.getDocuments<KitDefinition>("Kits", {
+				deletedAt: null,
+			});
+		},
+
+		/**
+		 * Add a new kit definition
+		 */
+		add: async (
+			kit: Omit<KitDefinition, "_id" | "createdAt" | "updatedAt" | "deletedAt">
+		): Promise<DatabaseResponse<KitDefinition>> => {
+			return dataProvider.createDocument<KitDefinition>("Kits", kit);
+		},
+
+		/**
+		 * Update an existing kit definition
+		 */
+		update: async (
+			kit: KitDefinition
+		): Promise<DatabaseResponse<KitDefinition>> => {
+			if (!kit._id) {
+				return {
+					success: false,
+					error: "Update failed: KitDefinition _id is missing.",
+					status: 400,
+					message: "Cannot update kit without a valid _id.",
+				};
+			}
+			const { _id, createdAt, updatedAt, deletedAt, ...updateData } = kit;
+			return dataProvider.updateDocument<KitDefinition>(
+				"Kits",
+				_id.toString(),
+				updateData
+			);
+		},
+
+		/**
+		 * Delete a kit definition (soft delete)
+		 */
+		delete: async (id: string): Promise<DatabaseResponse<KitDefinition>> => {
+			return dataProvider.deleteDocument<KitDefinition>("Kits", id);
+		},
+	},
+
 	/**
 	 * User-specific data API
 	 * Use these methods for data that should be associated with a specific user
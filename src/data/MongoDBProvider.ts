@@ -145,7 +145,14 @@ export class MongoDBProvider implements DataProvider {
 		try {
 			const collectionName = this.getCollectionName(collection, options);
 			const coll = await getCollection(collectionName);
-			const documents = await coll.find(filter).toArray();
+			const cursor = coll.find(filter, { projection: options?.projection });
+			if (options?.sort) {
+				cursor.sort(options.sort);
+			}
+			if (options?.limit !== undefined) {
+				cursor.limit(options.limit);
+			}
+			const documents = await cursor.toArray();
 
 			return {
 				success: true,
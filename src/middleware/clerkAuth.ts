@@ -98,4 +98,4 @@ export const optionalAuth = async (
 	}
 };
 
-export { requireAuth, getAuth } from "@clerk/express";
+export { requireAuth, getAuth, clerkMiddleware } from "@clerk/express";
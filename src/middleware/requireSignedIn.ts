@@ -0,0 +1,31 @@
+/**
+ * Signed-In User Middleware
+ * Updated: 19/10/2026
+ * Author: Deej Potter
+ * Description: Rejects requests without a signed-in Clerk user with a 401. Used on public routers
+ * mounted behind clerkMiddleware(), where only some routes need a user.
+ */
+
+import { AuthenticatedRequest } from "../types/express";
+
+/**
+ * Use on routes that must not fall back to anonymous access.
+ */
+export const requireSignedIn: import("express").RequestHandler = (
+	req,
+	res,
+	next
+) => {
+	// Cast to AuthenticatedRequest to access Clerk fields
+	const { auth } = req as AuthenticatedRequest;
+
+	if (!auth?.userId) {
+		console.warn(
+			`[SignedIn] Rejected unauthenticated ${req.method} ${req.originalUrl}`
+		);
+		res.status(401).json({ error: "Unauthorized. Sign in to continue." });
+		return;
+	}
+
+	next();
+};
@@ -0,0 +1,168 @@
+/**
+ * Report Routes
+ * Updated: 19/10/2026
+ * Author: Deej Potter
+ * Description: Admin-only analytics over stored packing data. Mounted behind requireAuth,
+ * and every report also needs the master admin role.
+ */
+
+import express, { RequestHandler } from "express";
+import { requireMasterAdmin } from "../middleware/requireMasterAdmin";
+import {
+	buildBoxRecommendationReport,
+	DEFAULT_BOX_PROPOSALS,
+	DEFAULT_REPORT_SESSION_LIMIT,
+	MAX_BOX_PROPOSALS,
+	MAX_REPORT_SESSION_LIMIT,
+} from "../services/box-recommendations";
+import { PACKING_STRATEGIES } from "../services/box-shipping-calculations";
+import { ANONYMOUS_SESSION_USER } from "../services/packing-sessions";
+import { PackingStrategyName } from "../types/box-shipping-types";
+
+const router = express.Router();
+
+// Log all report requests
+router.use((req, res, next) => {
+	console.log(
+		`[Reports] ${req.method} ${req.originalUrl} by userId: ${req.auth?.userId}`
+	);
+	next();
+});
+
+/**
+ * Read an optional whole-number query parameter between min and max.
+ * Returns the fallback when absent, or null if the value is invalid.
+ */
+function readWholeNumberQuery(
+	value: unknown,
+	min: number,
+	max: number,
+	fallback: number
+): number | null {
+	if (value === undefined) {
+		return fallback;
+	}
+	const number = Number(value);
+	return Number.isInteger(number) && number >= min && number <= max
+		? number
+		: null;
+}
+
+/**
+ * @route GET /api/reports/box-recommendations
+ * @description Replay stored packing sessions against the box catalogue and propose new box sizes.
+ * @access Master admin
+ * @swagger
+ * /api/reports/box-recommendations:
+ *   get:
+ *     summary: Report box usage and propose new box sizes from stored packing sessions
+ *     tags: [Reports]
+ *     parameters:
+ *       - name: userIds
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Comma-separated users whose sessions are replayed. Defaults to anonymous sessions and the caller's own.
+ *       - name: objective
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [volume, cost]
+ *           default: volume
+ *         description: What the proposed boxes should reduce. Sessions are replayed with the matching packing strategy.
+ *       - name: proposals
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 10
+ *           default: 3
+ *         description: Most new box sizes to propose.
+ *       - name: limit
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 2000
+ *           default: 500
+ *         description: Most recent sessions to replay.
+ *     responses:
+ *       200:
+ *         description: Fill ratios, box usage, the most wasteful shipments and the proposed box sizes.
+ *       400:
+ *         description: Invalid objective, proposals or limit.
+ *       401:
+ *         description: Not signed in.
+ *       403:
+ *         description: Not a master admin.
+ *       500:
+ *         description: Internal server error.
+ */
+const getBoxRecommendations: RequestHandler = async (req, res, next) => {
+	try {
+		const objective = (req.query.objective ?? "volume") as PackingStrategyName;
+		if (!PACKING_STRATEGIES.includes(objective)) {
+			res.status(400).json({
+				success: false,
+				error: "Invalid objective",
+				message: `objective must be one of: ${PACKING_STRATEGIES.join(", ")}.`,
+			});
+			return;
+		}
+		const proposals = readWholeNumberQuery(
+			req.query.proposals,
+			0,
+			MAX_BOX_PROPOSALS,
+			DEFAULT_BOX_PROPOSALS
+		);
+		if (proposals === null) {
+			res.status(400).json({
+				success: false,
+				error: "Invalid proposals",
+				message: `proposals must be a whole number from 0 to ${MAX_BOX_PROPOSALS}.`,
+			});
+			return;
+		}
+		const sessionLimit = readWholeNumberQuery(
+			req.query.limit,
+			1,
+			MAX_REPORT_SESSION_LIMIT,
+			DEFAULT_REPORT_SESSION_LIMIT
+		);
+		if (sessionLimit === null) {
+			res.status(400).json({
+				success: false,
+				error: "Invalid limit",
+				message: `limit must be a whole number of sessions from 1 to ${MAX_REPORT_SESSION_LIMIT}.`,
+			});
+			return;
+		}
+		const userIds =
+			typeof req.query.userIds === "string"
+				? req.query.userIds
+						.split(",")
+						.map((userId) => userId.trim())
+						.filter(Boolean)
+				: [ANONYMOUS_SESSION_USER, req.auth?.userId].filter(
+						(userId): userId is string => Boolean(userId)
+				  );
+
+		const report = await buildBoxRecommendationReport({
+			userIds: Array.from(new Set(userIds)),
+			objective,
+			proposals,
+			sessionLimit,
+		});
+		res.status(200).json({ success: true, status: 200, data: report });
+	} catch (error) {
+		next(error);
+	}
+};
+
+router.get("/box-recommendations", requireMasterAdmin, getBoxRecommendations);
+
+export default router;
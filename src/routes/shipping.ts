@@ -1,6 +1,6 @@
 /**
  * Shipping API Routes
- * Updated: 08/08/2025
+ * Updated: 19/10/2026
  * Author: Deej Potter
  * Description: This file defines the Express routes for shipping-related functionalities, such as item management and box calculations.
  */
@@ -17,13 +17,68 @@ import { DataService } from "../data/DataService";
 import ShippingItem from "../types/ShippingItem";
 import { DatabaseResponse } from "../types/mongodb";
 import {
-	findBestBox,
-	packItemsIntoMultipleBoxes,
-	standardBoxes as availableBoxes,
+	getActiveBoxes,
+	PACKING_STRATEGIES,
+	PACKING_ALGORITHMS,
+	PACKING_COMPARE_METRICS,
+	OUT_OF_STOCK_POLICIES,
 } from "../services/box-shipping-calculations";
-import { MultiBoxPackingResult } from "../types/box-shipping-types";
+import {
+	MultiBoxPackingResult,
+	PackingItem,
+	PackingItemValidationError,
+	BundlingOptions,
+	PackingLayout,
+	PackingOptions,
+	BatchPackingResult,
+} from "../types/box-shipping-types";
 import ShippingBox from "../types/ShippingBox";
 import { processInvoiceFileModular } from "../services/invoiceService";
+import {
+	validatePackingItems,
+	validatePackingOrders,
+} from "../utils/validatePackingItems";
+import { validatePackingLayoutRequest } from "../utils/validatePackingLayout";
+import { verifyPackingLayouts } from "../services/packing-validator";
+import { PACKAGING_TYPES } from "../utils/boxDimensions";
+import { isCalendarDate } from "../utils/dispatchDates";
+import { renderPackingDiagrams } from "../services/packing-diagrams";
+import {
+	findBestBoxOffThread,
+	packItemsOffThread,
+	packOrderBatchOffThread,
+} from "../services/packing-pool";
+import {
+	PACKING_EXPORT_FORMATS,
+	renderPackingSlipPdf,
+	renderPickListCsv,
+} from "../services/packing-export";
+import {
+	expandKits,
+	getActiveKits,
+	getSkuKey,
+	isKitSku,
+	KitExpansionResult,
+} from "../services/kit-expansion";
+import KitDefinition from "../types/KitDefinition";
+import { PackingSession } from "../types/PackingSession";
+import {
+	ANONYMOUS_SESSION_USER,
+	DEFAULT_SESSION_PAGE_SIZE,
+	MAX_SESSION_PAGE_SIZE,
+	getPackingSession,
+	listPackingSessions,
+	recordPackingSession,
+	rerunPackingSession,
+	confirmPackingSession,
+} from "../services/packing-sessions";
+import { requireSignedIn } from "../middleware/requireSignedIn";
+import { requireMasterAdmin } from "../middleware/requireMasterAdmin";
+import {
+	BOX_STOCK_MOVEMENT_TYPES,
+	getLowStockBoxes,
+	recordBoxStockMovement,
+} from "../services/box-stock";
 
 const router = Router();
 
@@ -83,10 +138,43 @@ const upload = multer({
  *         weight:
  *           type: number
  *           description: Weight of the item in grams.
+ *         allowedOrientations:
+ *           type: array
+ *           description: Which of the item's own axes may point up when packed. Omit to allow all rotations.
+ *           items:
+ *             type: string
+ *             enum: [length, width, height]
+ *         thisSideUp:
+ *           type: boolean
+ *           description: The item's height must stay vertical.
+ *         fragile:
+ *           type: boolean
+ *           description: Nothing may be packed on top of the item.
+ *         maxLoadOnTop:
+ *           type: number
+ *           description: Maximum weight in grams that may rest on top of the item.
+ *         hazardClass:
+ *           type: string
+ *           enum: [lithium-battery, flammable-liquid, flammable-gas, oxidiser, corrosive]
+ *           description: Dangerous-goods class. Lithium batteries and flammable liquids travel in their own cartons; every class labels the carton it is packed in.
+ *         segregationTags:
+ *           type: array
+ *           description: Tags other items can refer to in incompatibleWith.
+ *           items:
+ *             type: string
+ *         incompatibleWith:
+ *           type: array
+ *           description: Tags or hazard classes this item may not share a box with. An item listing one of its own tags ships one unit per box.
+ *           items:
+ *             type: string
  *         quantity:
  *           type: number
- *           description: Number of units of this item.
+ *           description: Number of units of this item. Only used in packing requests and results, never stored. In results it is the number of units packed (or unfit) for that SKU.
  *           default: 1
+ *         availableOn:
+ *           type: string
+ *           format: date
+ *           description: Date the line is available to ship (YYYY-MM-DD), e.g. when a backorder arrives. Only used in packing requests. pack-multiple and pack-batch ship later lines in their own dispatch wave.
  *       required:
  *         - name
  *         - length
@@ -113,7 +201,38 @@ const upload = multer({
  *           description: Internal height of the box in millimeters.
  *         maxWeight:
  *           type: number
- *           description: Maximum weight capacity of the box in grams.
+ *           description: Maximum gross weight of the box in grams, including its tare weight.
+ *         type:
+ *           type: string
+ *           enum: [box, satchel, tube]
+ *           default: box
+ *           description: Kind of packaging. A satchel's length, width and height are the largest rigid block it holds; thinner contents may run further as long as their width or length plus height stays within the satchel's width or length plus height. A tube takes contents whose cross-section fits inside its bore (the smaller of width and height).
+ *         tareWeight:
+ *           type: number
+ *           description: Weight of the empty box in grams (optional, defaults to 0).
+ *         outerLength:
+ *           type: number
+ *           description: Outer length in millimeters (optional, derived from wallThickness).
+ *         outerWidth:
+ *           type: number
+ *           description: Outer width in millimeters (optional, derived from wallThickness).
+ *         outerHeight:
+ *           type: number
+ *           description: Outer height in millimeters (optional, derived from wallThickness).
+ *         wallThickness:
+ *           type: number
+ *           description: Wall thickness in millimeters (optional, defaults to 0).
+ *         padding:
+ *           type: number
+ *           description: Clearance kept free on every inner side, in millimeters (optional, defaults to 0).
+ *         stockOnHand:
+ *           type: integer
+ *           readOnly: true
+ *           description: Cartons on hand (optional). Stock is not tracked when omitted. Ignored by the box create and update routes; set it through POST /api/shipping/boxes/{id}/stock.
+ *         lowStockThreshold:
+ *           type: integer
+ *           readOnly: true
+ *           description: Stock level at or below which the box is listed as low on stock (optional, defaults to 10). Ignored by the box create and update routes; set it through POST /api/shipping/boxes/{id}/stock.
  *       required:
  *         - _id
  *         - name
@@ -121,9 +240,299 @@ const upload = multer({
  *         - width
  *         - height
  *         - maxWeight
+ *     ItemPlacement:
+ *       type: object
+ *       description: Where a single packed unit sits in its box, in loading order.
+ *       properties:
+ *         loadOrder:
+ *           type: number
+ *           description: Position in the loading sequence, starting at 1.
+ *         item:
+ *           $ref: '#/components/schemas/ShippingItem'
+ *         position:
+ *           type: object
+ *           description: Bottom-left-back corner of the unit in millimeters (x across the width, y up the height, z along the length).
+ *           properties:
+ *             x:
+ *               type: number
+ *             y:
+ *               type: number
+ *             z:
+ *               type: number
+ *         rotation:
+ *           type: number
+ *           description: Index (0-5) of the orientation used.
+ *         dimensions:
+ *           type: object
+ *           description: Dimensions of the unit after rotation, in millimeters.
+ *           properties:
+ *             width:
+ *               type: number
+ *             height:
+ *               type: number
+ *             depth:
+ *               type: number
+ *     PackingValidationError:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *         error:
+ *           type: string
+ *         message:
+ *           type: string
+ *         errors:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               index:
+ *                 type: number
+ *                 description: Index of the item in the request array (-1 if the whole body is invalid).
+ *               sku:
+ *                 type: string
+ *               orderId:
+ *                 type: string
+ *                 description: Only present for pack-batch.
+ *               field:
+ *                 type: string
+ *               message:
+ *                 type: string
+ *     PackingBundle:
+ *       type: object
+ *       description: A strapped bundle of identical long items, packed as one unit.
+ *       properties:
+ *         bundleId:
+ *           type: string
+ *         sku:
+ *           type: string
+ *         name:
+ *           type: string
+ *         quantity:
+ *           type: number
+ *         length:
+ *           type: number
+ *         width:
+ *           type: number
+ *         height:
+ *           type: number
+ *         weight:
+ *           type: number
+ *     KitDefinition:
+ *       type: object
+ *       description: A kit SKU and the items it stands for. Kit lines in packing requests are expanded before packing.
+ *       properties:
+ *         _id:
+ *           type: string
+ *         sku:
+ *           type: string
+ *           description: Parent SKU of the kit, matched case-insensitively.
+ *         name:
+ *           type: string
+ *         components:
+ *           type: array
+ *           description: Item SKUs from the item catalogue, or other kits, per kit.
+ *           items:
+ *             type: object
+ *             properties:
+ *               sku:
+ *                 type: string
+ *               quantity:
+ *                 type: integer
+ *         carton:
+ *           type: object
+ *           description: Set when the kit ships as one pre-packed carton, which is then packed instead of the components.
+ *           properties:
+ *             length:
+ *               type: number
+ *             width:
+ *               type: number
+ *             height:
+ *               type: number
+ *             weight:
+ *               type: number
+ *               description: Weight of the packed carton in grams.
+ *       required:
+ *         - sku
+ *         - name
+ *         - components
+ *     KitExpansion:
+ *       type: object
+ *       description: A kit line from the request and what it was packed as.
+ *       properties:
+ *         index:
+ *           type: number
+ *           description: Index of the kit line in the request array.
+ *         sku:
+ *           type: string
+ *         name:
+ *           type: string
+ *         quantity:
+ *           type: number
+ *         shippedAs:
+ *           type: string
+ *           enum: [carton, components]
+ *         components:
+ *           type: array
+ *           description: Component units for the whole line, nested kits expanded. Empty for a carton.
+ *           items:
+ *             type: object
+ *             properties:
+ *               sku:
+ *                 type: string
+ *               quantity:
+ *                 type: number
+ *     PalletDefinition:
+ *       type: object
+ *       properties:
+ *         name:
+ *           type: string
+ *         length:
+ *           type: number
+ *         width:
+ *           type: number
+ *         deckHeight:
+ *           type: number
+ *         maxStackHeight:
+ *           type: number
+ *           description: Highest the loaded pallet may stand in millimeters, deck included.
+ *         maxWeight:
+ *           type: number
+ *           description: Gross weight limit in grams, pallet included.
+ *         tareWeight:
+ *           type: number
+ *     BoxSelection:
+ *       type: object
+ *       description: Why a box was chosen for a shipment.
+ *       properties:
+ *         preferenceScore:
+ *           type: number
+ *           description: Lower is better.
+ *         runnersUp:
+ *           type: array
+ *           description: Up to three other boxes that could hold the same contents.
+ *           items:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               preferenceScore:
+ *                 type: number
+ *         singleBoxShortcut:
+ *           type: boolean
+ *         summary:
+ *           type: string
+ *     UnfitItem:
+ *       allOf:
+ *         - $ref: '#/components/schemas/ShippingItem'
+ *         - type: object
+ *           properties:
+ *             reason:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   enum: [EXCEEDS_MAX_WEIGHT, LONGEST_SIDE_TOO_LONG, NO_ORIENTATION_FITS, NO_PLACEMENT_FOUND, TIME_BUDGET_EXCEEDED]
+ *                 value:
+ *                   type: number
+ *                   nullable: true
+ *                 limit:
+ *                   type: number
+ *                   nullable: true
+ *                 message:
+ *                   type: string
+ *     BoxDimensions:
+ *       type: object
+ *       description: Outside measurements of a box in millimeters.
+ *       properties:
+ *         length:
+ *           type: number
+ *         width:
+ *           type: number
+ *         height:
+ *           type: number
+ *     ShipmentWeights:
+ *       type: object
+ *       properties:
+ *         actualWeightKg:
+ *           type: number
+ *           description: Items plus box tare.
+ *         cubicWeightKg:
+ *           type: number
+ *         chargeableWeightKg:
+ *           type: number
+ *           description: The greater of actual and cubic weight.
+ *         fillRatio:
+ *           type: number
+ *           description: Packed item volume over box volume (0 to 1).
+ *     ShipmentPrice:
+ *       type: object
+ *       description: Only present for strategy=cost. Null when no configured service can carry the box.
+ *       nullable: true
+ *       properties:
+ *         carrier:
+ *           type: string
+ *         service:
+ *           type: string
+ *         deadWeightKg:
+ *           type: number
+ *         cubicWeightKg:
+ *           type: number
+ *         chargeableWeightKg:
+ *           type: number
+ *         satchelFlatRate:
+ *           type: boolean
+ *         freight:
+ *           type: number
+ *         packaging:
+ *           type: number
+ *         total:
+ *           type: number
+ *         currency:
+ *           type: string
+ *     PackingDiagrams:
+ *       type: object
+ *       description: SVG drawings of a packed box. Units are coloured and labelled by SKU.
+ *       properties:
+ *         layers:
+ *           type: array
+ *           description: Top view of each layer, lowest first.
+ *           items:
+ *             type: object
+ *             properties:
+ *               baseHeight:
+ *                 type: number
+ *                 description: Height of the layer's base in millimeters.
+ *               svg:
+ *                 type: string
+ *         isometric:
+ *           type: string
+ *           description: Isometric view of the whole box, as SVG.
+ *     DispatchWave:
+ *       type: object
+ *       description: The boxes and pallets that ship on one date.
+ *       properties:
+ *         dispatchDate:
+ *           type: string
+ *           format: date
+ *         shipmentCount:
+ *           type: number
+ *         palletCount:
+ *           type: number
+ *         price:
+ *           type: number
+ *           description: Price of the wave's boxes on the carrier rate table. Pallets are not priced.
+ *         algorithm:
+ *           type: string
+ *         constraintImpact:
+ *           type: object
+ *           description: Only present when constraints forced extra boxes or unfit units in this wave.
  *     BestBoxResponse:
  *       type: object
  *       properties:
+ *         sessionId:
+ *           type: string
+ *           description: ID of the stored packing session. Absent if the caller is not signed in or the session could not be stored.
  *         success:
  *           type: boolean
  *         box:
@@ -136,9 +545,38 @@ const upload = multer({
  *           type: array
  *           items:
  *             $ref: '#/components/schemas/ShippingItem'
+ *         placements:
+ *           type: array
+ *           description: Only present when includePlacements=true.
+ *           items:
+ *             $ref: '#/components/schemas/ItemPlacement'
+ *         bundles:
+ *           type: array
+ *           description: Bundles packed into the box, only present when it holds any.
+ *           items:
+ *             $ref: '#/components/schemas/PackingBundle'
+ *         selection:
+ *           $ref: '#/components/schemas/BoxSelection'
+ *         outerDimensions:
+ *           $ref: '#/components/schemas/BoxDimensions'
+ *         weights:
+ *           $ref: '#/components/schemas/ShipmentWeights'
+ *         diagrams:
+ *           $ref: '#/components/schemas/PackingDiagrams'
+ *         kits:
+ *           type: array
+ *           description: Kits expanded before packing, only present when the request held any.
+ *           items:
+ *             $ref: '#/components/schemas/KitExpansion'
+ *         timedOut:
+ *           type: boolean
+ *           description: Only present when the time budget ran out before a box holding everything was found. No box is chosen.
  *     MultiBoxPackingResult:
  *       type: object
  *       properties:
+ *         sessionId:
+ *           type: string
+ *           description: ID of the stored packing session. Absent if the caller is not signed in or the session could not be stored.
  *         success:
  *           type: boolean
  *         shipments:
@@ -152,129 +590,2235 @@ const upload = multer({
  *                 type: array
  *                 items:
  *                   $ref: '#/components/schemas/ShippingItem'
+ *               placements:
+ *                 type: array
+ *                 description: Only present when includePlacements=true.
+ *                 items:
+ *                   $ref: '#/components/schemas/ItemPlacement'
+ *               bundles:
+ *                 type: array
+ *                 description: Bundles packed into this box, only present when it holds any.
+ *                 items:
+ *                   $ref: '#/components/schemas/PackingBundle'
+ *               selection:
+ *                 $ref: '#/components/schemas/BoxSelection'
+ *               outerDimensions:
+ *                 $ref: '#/components/schemas/BoxDimensions'
+ *               weights:
+ *                 $ref: '#/components/schemas/ShipmentWeights'
+ *               price:
+ *                 $ref: '#/components/schemas/ShipmentPrice'
+ *               diagrams:
+ *                 $ref: '#/components/schemas/PackingDiagrams'
+ *               labels:
+ *                 type: array
+ *                 description: Dangerous-goods labels the box needs, only present when it holds dangerous goods.
+ *                 items:
+ *                   type: string
+ *               dispatchDate:
+ *                 type: string
+ *                 format: date
+ *                 description: Date the box ships, only present when the order is split into dispatch waves.
+ *         algorithm:
+ *           type: string
+ *           enum: [extreme-point, layer, best-fit-decreasing]
+ *           description: The algorithm that produced the shipments.
+ *         compareBy:
+ *           type: string
+ *           enum: [boxes, cost, fill]
+ *           description: Only present in compare mode.
+ *         comparison:
+ *           type: array
+ *           description: Every algorithm's result, only present in compare mode.
+ *           items:
+ *             type: object
+ *             properties:
+ *               algorithm:
+ *                 type: string
+ *               boxCount:
+ *                 type: number
+ *               unfitUnits:
+ *                 type: number
+ *               totalPrice:
+ *                 type: number
+ *                 nullable: true
+ *               fillRatio:
+ *                 type: number
+ *         totals:
+ *           description: Weights summed over all shipments. fillRatio is total item volume over total box volume.
+ *           allOf:
+ *             - $ref: '#/components/schemas/ShipmentWeights'
+ *             - type: object
+ *               properties:
+ *                 cubicFactor:
+ *                   type: number
+ *                 shipmentCount:
+ *                   type: number
+ *         strategy:
+ *           type: string
+ *           enum: [volume, cost]
+ *         totalPrice:
+ *           type: number
+ *           description: Only present for strategy=cost. Sum of the priced shipments.
+ *         currency:
+ *           type: string
+ *           description: Only present for strategy=cost.
+ *         freight:
+ *           type: object
+ *           description: Only present when freight=true and some items needed pallets.
+ *           properties:
+ *             palletCount:
+ *               type: number
+ *             grossWeight:
+ *               type: number
+ *               description: Combined gross weight of all pallets in grams.
+ *             shipments:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   type:
+ *                     type: string
+ *                     enum: [pallet]
+ *                   pallet:
+ *                     $ref: '#/components/schemas/PalletDefinition'
+ *                   packedItems:
+ *                     type: array
+ *                     items:
+ *                       $ref: '#/components/schemas/ShippingItem'
+ *                   stackedHeight:
+ *                     type: number
+ *                     description: Height of the loaded pallet in millimeters, deck included.
+ *                   grossWeight:
+ *                     type: number
+ *                     description: Weight of the loaded pallet in grams, pallet included.
  *         unfitItems:
  *           type: array
  *           items:
+ *             $ref: '#/components/schemas/UnfitItem'
+ *         timedOut:
+ *           type: boolean
+ *           description: Only present when the time budget ran out. The result is the best found so far, and units the packer had no time to place are unfit with TIME_BUDGET_EXCEEDED.
+ *         kits:
+ *           type: array
+ *           description: Kits expanded before packing, only present when the request held any.
+ *           items:
+ *             $ref: '#/components/schemas/KitExpansion'
+ *         dispatch:
+ *           type: object
+ *           description: Only present when the lines become available on more than one date. Each wave is packed separately; prices are for boxes on the carrier rate table, whatever the strategy.
+ *           properties:
+ *             waves:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/DispatchWave'
+ *             splitPrice:
+ *               type: number
+ *               description: Total price of the boxes across every wave.
+ *             together:
+ *               $ref: '#/components/schemas/DispatchWave'
+ *             extraCost:
+ *               type: number
+ *               description: splitPrice less the price of shipping everything together on the last wave's date. Only present with together.
+ *             currency:
+ *               type: string
+ *             unpricedShipments:
+ *               type: number
+ *               description: Boxes no carrier service can carry, left out of the prices.
+ *         constraintImpact:
+ *           type: object
+ *           description: Only present when orientation or stacking constraints forced extra boxes or unfit units.
+ *           properties:
+ *             extraBoxes:
+ *               type: number
+ *             extraUnfitUnits:
+ *               type: number
+ *             constrainedSkus:
+ *               type: array
+ *               items:
+ *                 type: string
+ *             message:
+ *               type: string
+ *         itemSummary:
+ *           type: array
+ *           description: Requested, packed and unfit unit counts per SKU.
+ *           items:
+ *             type: object
+ *             properties:
+ *               sku:
+ *                 type: string
+ *               name:
+ *                 type: string
+ *               requested:
+ *                 type: number
+ *               packed:
+ *                 type: number
+ *               unfit:
+ *                 type: number
+ *     PackingSessionSummary:
+ *       type: object
+ *       properties:
+ *         boxCount:
+ *           type: number
+ *         boxNames:
+ *           type: array
+ *           items:
+ *             type: string
+ *         unfitUnits:
+ *           type: number
+ *         success:
+ *           type: boolean
+ *     PackingSession:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         kind:
+ *           type: string
+ *           enum: [best-box, multi-box, batch]
+ *         items:
+ *           type: array
+ *           description: Submitted items, for best-box and multi-box sessions.
+ *           items:
  *             $ref: '#/components/schemas/ShippingItem'
+ *         orders:
+ *           type: object
+ *           description: Submitted orders keyed by order ID, for batch sessions.
+ *         options:
+ *           type: object
+ *           description: The packing options the run used.
+ *         strategy:
+ *           type: string
+ *           enum: [volume, cost]
+ *         result:
+ *           type: object
+ *           description: The stored result. Left out of session lists.
+ *         summary:
+ *           $ref: '#/components/schemas/PackingSessionSummary'
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *           description: When the run happened.
+ *         confirmedAt:
+ *           type: string
+ *           format: date-time
+ *           description: When the run was confirmed as packed and its boxes taken out of stock.
+ *     BoxStockUsage:
+ *       type: object
+ *       properties:
+ *         boxId:
+ *           type: string
+ *         name:
+ *           type: string
+ *         count:
+ *           type: number
+ *           description: Cartons of this box the session used.
+ *         stockOnHand:
+ *           type: number
+ *           description: Stock after the cartons were taken out. Omitted when the box's stock isn't tracked.
+ *     LayoutVerificationResult:
+ *       type: object
+ *       properties:
+ *         valid:
+ *           type: boolean
+ *         violations:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 enum: [OUT_OF_BOUNDS, OVERLAP, OVERWEIGHT, UNSUPPORTED]
+ *               shipmentIndex:
+ *                 type: number
+ *               placementIndex:
+ *                 type: number
+ *                 nullable: true
+ *                 description: The offending placement, or null for box-level problems such as OVERWEIGHT.
+ *               otherPlacementIndex:
+ *                 type: number
+ *                 description: Only present for OVERLAP.
+ *               message:
+ *                 type: string
  */
 
 /**
- * Processes an uploaded invoice file (PDF or TXT) to extract shipping items.
- * This single endpoint handles file parsing, text extraction, and AI-based item processing.
- * @param {Express.Multer.File} req.file - The uploaded invoice file.
+ * Processes an uploaded invoice file (PDF or TXT) to extract shipping items.
+ * This single endpoint handles file parsing, text extraction, and AI-based item processing.
+ * @param {Express.Multer.File} req.file - The uploaded invoice file.
+ */
+const processInvoice: RequestHandler = async (req, res, next) => {
+	try {
+		if (!req.file) {
+			res.status(400).json({
+				success: false,
+				message: "No file uploaded. Please upload an invoice file.",
+			});
+			return;
+		}
+
+		const { buffer, mimetype, originalname } = req.file;
+
+		// Use the modular invoice service to process the file
+		// This function handles: text extraction, personal data removal, item parsing,
+		// DB lookups, AI estimation, and adding new items to DB as needed
+		const processedItems = await processInvoiceFileModular(
+			buffer,
+			mimetype,
+			originalname
+		);
+
+		// Convert the processed items to the format expected by the frontend
+		// Note: processInvoiceFileModular already handles DB integration and preserves quantities
+		const finalShippingItems = processedItems.map((item, index) => ({
+			_id: `temp_invoice_${item.sku}_${index}`, // Temporary ID for frontend using index instead of timestamp
+			name: item.name,
+			sku: item.sku,
+			length: item.length,
+			width: item.width,
+			height: item.height,
+			weight: item.weight * 1000, // Convert kg back to grams for frontend consistency
+			quantity: item.quantity,
+		}));
+
+		// Debug: Log what we're sending to the frontend
+		console.log(
+			"[Backend] Sending to frontend:",
+			JSON.stringify(finalShippingItems, null, 2)
+		);
+
+		res.status(200).json({
+			success: true,
+			data: finalShippingItems,
+			message: `Successfully processed invoice and extracted ${finalShippingItems.length} items.`,
+		});
+	} catch (error) {
+		console.error("Error processing invoice file:", error);
+		res.status(500).json({
+			success: false,
+			data: [],
+			message:
+				error instanceof Error
+					? error.message
+					: "An unexpected error occurred during invoice processing.",
+		});
+	}
+};
+
+const getShippingItems: RequestHandler = async (req, res, next) => {
+	try {
+		const response: DatabaseResponse<ShippingItem[]> =
+			await DataService.shippingItems.getAvailable();
+		if (response.success) {
+			res.status(response.status || 200).json(response);
+		} else {
+			res.status(response.status || 500).json(response);
+		}
+	} catch (error) {
+		next(error);
+	}
+};
+
+const getAvailableBoxes: RequestHandler = async (req, res, next) => {
+	try {
+		// getActiveBoxes seeds an empty catalogue and falls back to the default boxes
+		// if the database is unreachable, so this always returns a usable list.
+		const boxes = await getActiveBoxes();
+		res.status(200).json({
+			success: true,
+			data: boxes,
+			status: 200,
+			message: "Boxes retrieved successfully",
+		});
+	} catch (error) {
+		next(error);
+	}
+};
+
+// Optional box fields that must be non-negative numbers when present
+const OPTIONAL_BOX_FIELDS = [
+	"tareWeight",
+	"outerLength",
+	"outerWidth",
+	"outerHeight",
+	"wallThickness",
+	"padding",
+] as const;
+
+/**
+ * Validates the dimension and weight fields of a box payload.
+ * Returns a list of problems, empty if the box is valid.
+ */
+function validateBoxData(boxData: any): string[] {
+	const problems: string[] = [];
+	if (typeof boxData?.name !== "string" || !boxData.name.trim()) {
+		problems.push("name must be a non-empty string");
+	}
+	for (const field of ["length", "width", "height", "maxWeight"]) {
+		const value = boxData?.[field];
+		if (typeof value !== "number" || !isFinite(value) || value <= 0) {
+			problems.push(`${field} must be a positive number`);
+		}
+	}
+	for (const field of OPTIONAL_BOX_FIELDS) {
+		const value = boxData?.[field];
+		if (
+			value !== undefined &&
+			(typeof value !== "number" || !isFinite(value) || value < 0)
+		) {
+			problems.push(`${field} must be a non-negative number`);
+		}
+	}
+	if (boxData?.type !== undefined && !PACKAGING_TYPES.includes(boxData.type)) {
+		problems.push(`type must be one of: ${PACKAGING_TYPES.join(", ")}`);
+	}
+	if (problems.length > 0) {
+		return problems;
+	}
+
+	// Outer dimensions can't be smaller than the inside, and padding must leave room to pack
+	for (const [outer, inner] of [
+		["outerLength", "length"],
+		["outerWidth", "width"],
+		["outerHeight", "height"],
+	]) {
+		if (boxData[outer] !== undefined && boxData[outer] < boxData[inner]) {
+			problems.push(`${outer} must not be smaller than ${inner}`);
+		}
+	}
+	if (
+		boxData.padding !== undefined &&
+		2 * boxData.padding >=
+			Math.min(boxData.length, boxData.width, boxData.height)
+	) {
+		problems.push("padding must leave usable space inside the box");
+	}
+	return problems;
+}
+
+/**
+ * Picks the catalogue fields out of a validated box payload.
+ * Optional fields are only included when they were sent. Stock fields are never taken from here:
+ * they only change through POST /boxes/:id/stock, which is limited to master admins.
+ */
+function getBoxFields(
+	boxData: any
+): Omit<ShippingBox, "_id" | "createdAt" | "updatedAt" | "deletedAt"> {
+	const { name, length, width, height, maxWeight } = boxData;
+	const box: Omit<
+		ShippingBox,
+		"_id" | "createdAt" | "updatedAt" | "deletedAt"
+	> = { name, length, width, height, maxWeight };
+	for (const field of OPTIONAL_BOX_FIELDS) {
+		if (boxData[field] !== undefined) {
+			box[field] = boxData[field];
+		}
+	}
+	if (boxData.type !== undefined) {
+		box.type = boxData.type;
+	}
+	return box;
+}
+
+/**
+ * @route POST /api/shipping/boxes
+ * @description Add a new box to the catalogue.
+ * @access Public
+ * @swagger
+ * /api/shipping/boxes:
+ *   post:
+ *     summary: Add a new box to the catalogue
+ *     tags: [Shipping]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               length:
+ *                 type: number
+ *                 description: Internal length of the box in millimeters.
+ *               width:
+ *                 type: number
+ *                 description: Internal width of the box in millimeters.
+ *               height:
+ *                 type: number
+ *                 description: Internal height of the box in millimeters.
+ *               maxWeight:
+ *                 type: number
+ *                 description: Maximum weight capacity of the box in grams.
+ *               tareWeight:
+ *                 type: number
+ *                 description: Weight of the empty box in grams (optional, defaults to 0).
+ *               outerLength:
+ *                 type: number
+ *                 description: Outer length in millimeters (optional, derived from wallThickness).
+ *               outerWidth:
+ *                 type: number
+ *                 description: Outer width in millimeters (optional, derived from wallThickness).
+ *               outerHeight:
+ *                 type: number
+ *                 description: Outer height in millimeters (optional, derived from wallThickness).
+ *               wallThickness:
+ *                 type: number
+ *                 description: Wall thickness in millimeters (optional, defaults to 0).
+ *               padding:
+ *                 type: number
+ *                 description: Clearance kept free on every inner side, in millimeters (optional, defaults to 0).
+ *             required:
+ *               - name
+ *               - length
+ *               - width
+ *               - height
+ *               - maxWeight
+ *     responses:
+ *       201:
+ *         description: Successfully created the box.
+ *       400:
+ *         description: Bad request (invalid box data).
+ *       500:
+ *         description: Internal server error.
+ */
+const addBox: RequestHandler = async (req, res, next) => {
+	try {
+		const problems = validateBoxData(req.body);
+		if (problems.length > 0) {
+			res.status(400).json({
+				success: false,
+				error: "Invalid box data",
+				message: problems.join("; "),
+			});
+			return;
+		}
+
+		const boxFields = getBoxFields(req.body);
+		const response: DatabaseResponse<ShippingBox> = await DataService.boxes.add(
+			boxFields
+		);
+
+		if (response.success) {
+			console.log(`[Shipping] Box added: ${boxFields.name}`);
+			res.status(201).json(response);
+		} else {
+			res.status(response.status || 500).json(response);
+		}
+	} catch (error) {
+		next(error);
+	}
+};
+
+/**
+ * @route PUT /api/shipping/boxes/:id
+ * @description Update an existing box in the catalogue.
+ * @access Public
+ * @swagger
+ * /api/shipping/boxes/{id}:
+ *   put:
+ *     summary: Update an existing box in the catalogue
+ *     tags: [Shipping]
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the box to update
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ShippingBox'
+ *     responses:
+ *       200:
+ *         description: Successfully updated the box.
+ *       400:
+ *         description: Bad request (invalid box data).
+ *       404:
+ *         description: Box not found.
+ *       500:
+ *         description: Internal server error.
+ */
+const updateBox: RequestHandler = async (req, res, next) => {
+	try {
+		const { id } = req.params;
+		const problems = validateBoxData(req.body);
+		if (problems.length > 0) {
+			res.status(400).json({
+				success: false,
+				error: "Invalid box data",
+				message: problems.join("; "),
+			});
+			return;
+		}
+
+		const response: DatabaseResponse<ShippingBox> =
+			await DataService.boxes.update({
+				_id: id,
+				...getBoxFields(req.body),
+			});
+
+		if (response.success) {
+			console.log(`[Shipping] Box updated: ${id}`);
+			res.status(response.status || 200).json(response);
+		} else {
+			res.status(response.status || 500).json(response);
+		}
+	} catch (error) {
+		next(error);
+	}
+};
+
+/**
+ * @route DELETE /api/shipping/boxes/:id
+ * @description Retire a box from the catalogue (soft delete).
+ * @access Public
+ * @swagger
+ * /api/shipping/boxes/{id}:
+ *   delete:
+ *     summary: Retire a box from the catalogue (soft delete)
+ *     tags: [Shipping]
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the box to retire
+ *     responses:
+ *       200:
+ *         description: Successfully retired the box.
+ *       404:
+ *         description: Box not found.
+ *       500:
+ *         description: Internal server error.
+ */
+const deleteBox: RequestHandler = async (req, res, next) => {
+	try {
+		const { id } = req.params;
+		const response: DatabaseResponse<ShippingBox> =
+			await DataService.boxes.delete(id);
+
+		if (response.success) {
+			console.log(`[Shipping] Box retired: ${id}`);
+			res.status(response.status || 200).json(response);
+		} else {
+			res.status(response.status || 500).json(response);
+		}
+	} catch (error) {
+		next(error);
+	}
+};
+
+/**
+ * @route POST /api/shipping/boxes/:id/stock
+ * @description Record a receipt, usage or stocktake against a box's stock.
+ * @access Master admin
+ * @swagger
+ * /api/shipping/boxes/{id}/stock:
+ *   post:
+ *     summary: Record a stock movement for a box
+ *     tags: [Shipping]
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the box
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [receipt, usage, count]
+ *                 description: "receipt" adds cartons, "usage" takes them out (never below zero), "count" sets the stock from a stocktake.
+ *               quantity:
+ *                 type: integer
+ *                 minimum: 0
+ *               lowStockThreshold:
+ *                 type: integer
+ *                 minimum: 0
+ *                 description: Stock level at or below which the box is listed as low on stock (optional, defaults to 10).
+ *             required:
+ *               - type
+ *               - quantity
+ *     responses:
+ *       200:
+ *         description: The box with its new stock.
+ *       400:
+ *         description: Invalid movement type, quantity or lowStockThreshold.
+ *       401:
+ *         description: Not signed in.
+ *       403:
+ *         description: Not a master admin.
+ *       404:
+ *         description: Box not found.
+ *       500:
+ *         description: Internal server error.
+ */
+const recordBoxStock: RequestHandler = async (req, res, next) => {
+	try {
+		const { type, quantity, lowStockThreshold } = req.body ?? {};
+		if (!BOX_STOCK_MOVEMENT_TYPES.includes(type)) {
+			res.status(400).json({
+				success: false,
+				error: "Invalid stock movement",
+				message: `type must be one of: ${BOX_STOCK_MOVEMENT_TYPES.join(", ")}.`,
+			});
+			return;
+		}
+		if (!Number.isInteger(quantity) || quantity < 0) {
+			res.status(400).json({
+				success: false,
+				error: "Invalid stock movement",
+				message: "quantity must be a whole number of cartons, 0 or more.",
+			});
+			return;
+		}
+		if (
+			lowStockThreshold !== undefined &&
+			(!Number.isInteger(lowStockThreshold) || lowStockThreshold < 0)
+		) {
+			res.status(400).json({
+				success: false,
+				error: "Invalid stock movement",
+				message:
+					"lowStockThreshold must be a whole number of cartons, 0 or more.",
+			});
+			return;
+		}
+
+		const response = await recordBoxStockMovement(req.params.id, {
+			type,
+			quantity,
+			lowStockThreshold,
+		});
+		res
+			.status(response.status || (response.success ? 200 : 500))
+			.json(response);
+	} catch (error) {
+		next(error);
+	}
+};
+
+const getLowStock: RequestHandler = async (req, res, next) => {
+	try {
+		const boxes = await getLowStockBoxes();
+		res.status(200).json({
+			success: true,
+			data: boxes,
+			status: 200,
+			message: `${boxes.length} box(es) low on stock`,
+		});
+	} catch (error) {
+		next(error);
+	}
+};
+
+const getKits: RequestHandler = async (req, res, next) => {
+	try {
+		const response: DatabaseResponse<KitDefinition[]> =
+			await DataService.kits.getAvailable();
+		if (response.success) {
+			res.status(response.status || 200).json(response);
+		} else {
+			res.status(response.status || 500).json(response);
+		}
+	} catch (error) {
+		next(error);
+	}
+};
+
+/**
+ * Validates a kit definition payload.
+ * Returns a list of problems, empty if the kit is valid.
+ */
+function validateKitData(kitData: any): string[] {
+	const problems: string[] = [];
+	for (const field of ["sku", "name"]) {
+		if (typeof kitData?.[field] !== "string" || !kitData[field].trim()) {
+			problems.push(`${field} must be a non-empty string`);
+		}
+	}
+	if (!Array.isArray(kitData?.components) || kitData.components.length === 0) {
+		problems.push("components must be a non-empty array");
+	} else {
+		kitData.components.forEach((component: any, index: number) => {
+			if (typeof component?.sku !== "string" || !component.sku.trim()) {
+				problems.push(`components[${index}].sku must be a non-empty string`);
+			} else if (
+				typeof kitData.sku === "string" &&
+				getSkuKey(component.sku) === getSkuKey(kitData.sku)
+			) {
+				problems.push(`components[${index}] must not be the kit itself`);
+			}
+			if (
+				typeof component?.quantity !== "number" ||
+				!Number.isInteger(component.quantity) ||
+				component.quantity < 1
+			) {
+				problems.push(
+					`components[${index}].quantity must be a positive whole number`
+				);
+			}
+		});
+	}
+	if (kitData?.carton !== undefined) {
+		for (const field of ["length", "width", "height", "weight"]) {
+			const value = kitData.carton?.[field];
+			if (typeof value !== "number" || !isFinite(value) || value <= 0) {
+				problems.push(`carton.${field} must be a positive number`);
+			}
+		}
+	}
+	return problems;
+}
+
+/**
+ * Picks the stored fields out of a validated kit payload.
+ */
+function getKitFields(
+	kitData: any
+): Omit<KitDefinition, "_id" | "createdAt" | "updatedAt" | "deletedAt"> {
+	const kit: Omit<
+		KitDefinition,
+		"_id" | "createdAt" | "updatedAt" | "deletedAt"
+	> = {
+		sku: kitData.sku.trim(),
+		name: kitData.name,
+		components: kitData.components.map((component: any) => ({
+			sku: component.sku.trim(),
+			quantity: component.quantity,
+		})),
+	};
+	if (kitData.carton !== undefined) {
+		const { length, width, height, weight } = kitData.carton;
+		kit.carton = { length, width, height, weight };
+	}
+	return kit;
+}
+
+/**
+ * Validates a kit payload and checks no other active kit uses its SKU.
+ * Sends a 400 or 409 and returns null if the kit can't be stored.
+ */
+async function readKitFields(
+	res: Response,
+	kitData: any,
+	id?: string
+): Promise<Omit<
+	KitDefinition,
+	"_id" | "createdAt" | "updatedAt" | "deletedAt"
+> | null> {
+	const problems = validateKitData(kitData);
+	if (problems.length > 0) {
+		res.status(400).json({
+			success: false,
+			error: "Invalid kit data",
+			message: problems.join("; "),
+		});
+		return null;
+	}
+	const kit = getKitFields(kitData);
+	const duplicate = (await getActiveKits()).find(
+		(other) =>
+			getSkuKey(other.sku) === getSkuKey(kit.sku) &&
+			other._id?.toString() !== id
+	);
+	if (duplicate) {
+		res.status(409).json({
+			success: false,
+			error: "Duplicate kit SKU",
+			message: `Kit ${duplicate.sku} is already defined.`,
+		});
+		return null;
+	}
+	return kit;
+}
+
+/**
+ * @route POST /api/shipping/kits
+ * @description Add a kit definition.
+ * @access Public
+ * @swagger
+ * /api/shipping/kits:
+ *   post:
+ *     summary: Add a kit definition
+ *     tags: [Shipping]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/KitDefinition'
+ *     responses:
+ *       201:
+ *         description: Successfully created the kit.
+ *       400:
+ *         description: Bad request (invalid kit data).
+ *       409:
+ *         description: Another kit already uses the SKU.
+ *       500:
+ *         description: Internal server error.
+ */
+const addKit: RequestHandler = async (req, res, next) => {
+	try {
+		const kitFields = await readKitFields(res, req.body);
+		if (!kitFields) {
+			return;
+		}
+		const response: DatabaseResponse<KitDefinition> =
+			await DataService.kits.add(kitFields);
+
+		if (response.success) {
+			console.log(`[Shipping] Kit added: ${kitFields.sku}`);
+			res.status(201).json(response);
+		} else {
+			res.status(response.status || 500).json(response);
+		}
+	} catch (error) {
+		next(error);
+	}
+};
+
+/**
+ * @route PUT /api/shipping/kits/:id
+ * @description Update a kit definition.
+ * @access Public
+ * @swagger
+ * /api/shipping/kits/{id}:
+ *   put:
+ *     summary: Update a kit definition
+ *     tags: [Shipping]
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the kit to update
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/KitDefinition'
+ *     responses:
+ *       200:
+ *         description: Successfully updated the kit.
+ *       400:
+ *         description: Bad request (invalid kit data).
+ *       404:
+ *         description: Kit not found.
+ *       409:
+ *         description: Another kit already uses the SKU.
+ *       500:
+ *         description: Internal server error.
+ */
+const updateKit: RequestHandler = async (req, res, next) => {
+	try {
+		const { id } = req.params;
+		const kitFields = await readKitFields(res, req.body, id);
+		if (!kitFields) {
+			return;
+		}
+		const response: DatabaseResponse<KitDefinition> =
+			await DataService.kits.update({ _id: id, ...kitFields });
+
+		if (response.success) {
+			console.log(`[Shipping] Kit updated: ${id}`);
+			res.status(response.status || 200).json(response);
+		} else {
+			res.status(response.status || 500).json(response);
+		}
+	} catch (error) {
+		next(error);
+	}
+};
+
+/**
+ * @route DELETE /api/shipping/kits/:id
+ * @description Remove a kit definition (soft delete).
+ * @access Public
+ * @swagger
+ * /api/shipping/kits/{id}:
+ *   delete:
+ *     summary: Remove a kit definition (soft delete)
+ *     tags: [Shipping]
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the kit to remove
+ *     responses:
+ *       200:
+ *         description: Successfully removed the kit.
+ *       404:
+ *         description: Kit not found.
+ *       500:
+ *         description: Internal server error.
+ */
+const deleteKit: RequestHandler = async (req, res, next) => {
+	try {
+		const { id } = req.params;
+		const response: DatabaseResponse<KitDefinition> =
+			await DataService.kits.delete(id);
+
+		if (response.success) {
+			console.log(`[Shipping] Kit removed: ${id}`);
+			res.status(response.status || 200).json(response);
+		} else {
+			res.status(response.status || 500).json(response);
+		}
+	} catch (error) {
+		next(error);
+	}
+};
+
+/**
+ * Sends a 400 response listing every invalid item in a packing request.
+ */
+function sendValidationErrors(
+	res: Response,
+	errors: PackingItemValidationError[]
+): void {
+	res.status(400).json({
+		success: false,
+		error: "Invalid items",
+		message: `${errors.length} validation error(s) in the submitted items.`,
+		errors,
+	});
+}
+
+/**
+ * Validates the items of a packing request and expands any kit lines.
+ * Sends a 400 and returns null if an item is invalid or a kit can't be expanded.
+ */
+async function readPackingItems(
+	res: Response,
+	items: unknown
+): Promise<KitExpansionResult | null> {
+	const kits = await getActiveKits();
+	const errors = validatePackingItems(items, (sku) => isKitSku(sku, kits));
+	if (errors.length > 0) {
+		sendValidationErrors(res, errors);
+		return null;
+	}
+	const expansion = await expandKits(items as PackingItem[], kits);
+	if (expansion.errors.length > 0) {
+		sendValidationErrors(res, expansion.errors);
+		return null;
+	}
+	return expansion;
+}
+
+/**
+ * Validates the orders of a batch packing request and expands any kit lines in each order.
+ * Sends a 400 and returns null if an item is invalid or a kit can't be expanded.
+ */
+async function readPackingOrders(
+	res: Response,
+	orders: unknown
+): Promise<Record<string, KitExpansionResult> | null> {
+	const kits = await getActiveKits();
+	const errors = validatePackingOrders(orders, (sku) => isKitSku(sku, kits));
+	if (errors.length > 0) {
+		sendValidationErrors(res, errors);
+		return null;
+	}
+	const expansions: Record<string, KitExpansionResult> = {};
+	for (const [orderId, items] of Object.entries(
+		orders as Record<string, PackingItem[]>
+	)) {
+		expansions[orderId] = await expandKits(items, kits);
+		errors.push(
+			...expansions[orderId].errors.map((error) => ({ orderId, ...error }))
+		);
+	}
+	if (errors.length > 0) {
+		sendValidationErrors(res, errors);
+		return null;
+	}
+	return expansions;
+}
+
+/**
+ * Reads an optional query parameter that must be one of a fixed set of values.
+ * Returns the fallback when absent. Sends a 400 and returns null if the value is not allowed.
+ */
+function readEnumQuery<T extends string>(
+	res: Response,
+	name: string,
+	value: unknown,
+	allowed: readonly T[],
+	fallback: T
+): T | null {
+	if (value === undefined) {
+		return fallback;
+	}
+	if (!allowed.includes(value as T)) {
+		res.status(400).json({
+			success: false,
+			error: `Invalid ${name}`,
+			message: `${name} must be one of: ${allowed.join(", ")}.`,
+		});
+		return null;
+	}
+	return value as T;
+}
+
+/**
+ * Reads an optional query parameter that must be a positive number.
+ * Returns undefined when absent. Sends a 400 and returns null if the value is invalid.
+ */
+function readPositiveNumberQuery(
+	res: Response,
+	name: string,
+	value: unknown,
+	unit: string
+): number | undefined | null {
+	if (value === undefined) {
+		return undefined;
+	}
+	const parsed = Number(value);
+	if (!(parsed > 0) || !isFinite(parsed)) {
+		res.status(400).json({
+			success: false,
+			error: `Invalid ${name}`,
+			message: `${name} must be a positive number (${unit}).`,
+		});
+		return null;
+	}
+	return parsed;
+}
+
+/**
+ * Reads the bundling query parameters shared by the packing endpoints.
+ * bundling=false packs every unit separately; the bundle* parameters override the default limits.
+ * Sends a 400 and returns null if a limit is invalid.
+ */
+function readBundlingQuery(
+	res: Response,
+	query: Request["query"]
+): BundlingOptions | false | null {
+	if (query.bundling === "false") {
+		return false;
+	}
+	const minLength = readPositiveNumberQuery(
+		res,
+		"bundleMinLength",
+		query.bundleMinLength,
+		"millimeters"
+	);
+	if (minLength === null) return null;
+	const maxItemsPerBundle = readPositiveNumberQuery(
+		res,
+		"bundleMaxItems",
+		query.bundleMaxItems,
+		"units"
+	);
+	if (maxItemsPerBundle === null) return null;
+	const maxBundleWeight = readPositiveNumberQuery(
+		res,
+		"bundleMaxWeight",
+		query.bundleMaxWeight,
+		"grams"
+	);
+	if (maxBundleWeight === null) return null;
+
+	const bundling: BundlingOptions = {};
+	if (minLength !== undefined) bundling.minLength = minLength;
+	if (maxItemsPerBundle !== undefined)
+		bundling.maxItemsPerBundle = Math.floor(maxItemsPerBundle);
+	if (maxBundleWeight !== undefined) bundling.maxBundleWeight = maxBundleWeight;
+	return bundling;
+}
+
+// Response formats of the packing endpoints. "svg" adds layer and isometric diagrams.
+const PACKING_RESPONSE_FORMATS = ["json", "svg"] as const;
+
+/**
+ * Reads the query parameters shared by pack-multiple and pack-batch.
+ * Sends a 400 and returns null if any of them is invalid.
+ */
+function readMultiPackingQuery(
+	res: Response,
+	query: Request["query"]
+): PackingOptions | null {
+	const strategy = readEnumQuery(
+		res,
+		"strategy",
+		query.strategy,
+		PACKING_STRATEGIES,
+		"volume"
+	);
+	const algorithm =
+		strategy &&
+		readEnumQuery(
+			res,
+			"algorithm",
+			query.algorithm,
+			[...PACKING_ALGORITHMS, "compare" as const],
+			"extreme-point"
+		);
+	const compareBy =
+		algorithm &&
+		readEnumQuery(
+			res,
+			"compareBy",
+			query.compareBy,
+			PACKING_COMPARE_METRICS,
+			"boxes"
+		);
+	if (!strategy || !algorithm || !compareBy) {
+		return null;
+	}
+	const cubicFactor = readPositiveNumberQuery(
+		res,
+		"cubicFactor",
+		query.cubicFactor,
+		"kg per cubic metre"
+	);
+	const timeBudgetMs =
+		cubicFactor === null
+			? null
+			: readPositiveNumberQuery(
+					res,
+					"timeBudgetMs",
+					query.timeBudgetMs,
+					"milliseconds"
+			  );
+	const bundling = timeBudgetMs === null ? null : readBundlingQuery(res, query);
+	const outOfStock =
+		bundling === null
+			? null
+			: readEnumQuery(
+					res,
+					"outOfStock",
+					query.outOfStock,
+					OUT_OF_STOCK_POLICIES,
+					"penalise"
+			  );
+	if (
+		cubicFactor === null ||
+		timeBudgetMs === null ||
+		bundling === null ||
+		!outOfStock
+	) {
+		return null;
+	}
+	if (query.dispatchDate !== undefined && !isCalendarDate(query.dispatchDate)) {
+		res.status(400).json({
+			success: false,
+			error: "Invalid dispatchDate",
+			message: "dispatchDate must be a date in YYYY-MM-DD form.",
+		});
+		return null;
+	}
+	return {
+		includePlacements: query.includePlacements === "true",
+		strategy,
+		algorithm,
+		compareBy,
+		cubicFactor,
+		bundling,
+		freight: query.freight === "true",
+		timeBudgetMs,
+		outOfStock,
+		dispatchDate: query.dispatchDate,
+	};
+}
+
+/**
+ * Gets the user a packing session belongs to.
+ * The shipping routes are public, so runs without a signed-in user are stored as anonymous.
+ */
+function getSessionUserId(req: Request): string {
+	return req.auth?.userId || ANONYMOUS_SESSION_USER;
+}
+
+/**
+ * Gets the session ID to send back for a stored run. Anonymous sessions are left out:
+ * the session routes need a signed-in user, so the caller could never open them.
+ * They are only kept as input for the box recommendation report.
+ */
+function getReturnedSessionId(
+	req: Request,
+	session: DatabaseResponse<PackingSession>
+): PackingSession["_id"] {
+	return getSessionUserId(req) === ANONYMOUS_SESSION_USER
+		? undefined
+		: session.data?._id;
+}
+
+/**
+ * @route POST /api/shipping/calculate-box
+ * @description Find the single best box for a set of items.
+ * @access Public
+ * @swagger
+ * /api/shipping/calculate-box:
+ *   post:
+ *     summary: Find the single best box for a set of items
+ *     tags: [Shipping]
+ *     parameters:
+ *       - name: format
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [json, svg]
+ *           default: json
+ *         description: "svg" adds diagrams (a top view per layer and an isometric view) to each packed box, and implies includePlacements=true.
+ *       - name: includePlacements
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: boolean
+ *         description: Return the position, rotation and loading order of every packed unit.
+ *       - name: cubicFactor
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: number
+ *         description: Cubic conversion factor in kg per cubic metre for the reported weights. Defaults to the rate table's factor (250).
+ *       - name: bundling
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: boolean
+ *           default: true
+ *         description: Set to false to pack identical long items one by one instead of in strapped bundles.
+ *       - name: bundleMinLength
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: number
+ *         description: Shortest item (mm) that is bundled. Defaults to 1000.
+ *       - name: bundleMaxItems
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: integer
+ *         description: Most units in one bundle. Defaults to 10.
+ *       - name: bundleMaxWeight
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: number
+ *         description: Heaviest bundle (g). Defaults to 20000.
+ *       - name: outOfStock
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [penalise, skip]
+ *           default: penalise
+ *         description: How boxes with no stock are treated. "penalise" only uses them when nothing in stock fits; "skip" never uses them.
+ *       - name: timeBudgetMs
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: number
+ *         description: Milliseconds the search may take before it gives up with timedOut. Defaults to PACKING_TIME_BUDGET_MS (10000).
+ *     requestBody:
+ *       required: true
+ *       description: Items to pack. A line whose SKU is a kit only needs sku and quantity; it is packed as the kit's components or pre-packed carton.
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: array
+ *             items:
+ *               $ref: '#/components/schemas/ShippingItem'
+ *     responses:
+ *       200:
+ *         description: The best box, or success false with the unfit items if no single box fits.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BestBoxResponse'
+ *       400:
+ *         description: Invalid items, a kit that can't be expanded, or an invalid cubicFactor, bundle limit or time budget.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PackingValidationError'
+ *       500:
+ *         description: Internal server error.
+ */
+const calculateBestBoxHandler: RequestHandler = async (req, res, next) => {
+	try {
+		const expansion = await readPackingItems(res, req.body);
+		if (!expansion) {
+			return;
+		}
+		const cubicFactor = readPositiveNumberQuery(
+			res,
+			"cubicFactor",
+			req.query.cubicFactor,
+			"kg per cubic metre"
+		);
+		const timeBudgetMs =
+			cubicFactor === null
+				? null
+				: readPositiveNumberQuery(
+						res,
+						"timeBudgetMs",
+						req.query.timeBudgetMs,
+						"milliseconds"
+				  );
+		const bundling =
+			timeBudgetMs === null ? null : readBundlingQuery(res, req.query);
+		if (cubicFactor === null || timeBudgetMs === null || bundling === null) {
+			return;
+		}
+		const format = readEnumQuery(
+			res,
+			"format",
+			req.query.format,
+			PACKING_RESPONSE_FORMATS,
+			"json"
+		);
+		const outOfStock =
+			format &&
+			readEnumQuery(
+				res,
+				"outOfStock",
+				req.query.outOfStock,
+				OUT_OF_STOCK_POLICIES,
+				"penalise"
+			);
+		if (!format || !outOfStock) {
+			return;
+		}
+		const itemsToPack = expansion.items;
+		const options: PackingOptions = {
+			// Diagrams are drawn from the placements
+			includePlacements:
+				req.query.includePlacements === "true" || format === "svg",
+			cubicFactor,
+			bundling,
+			timeBudgetMs,
+			outOfStock,
+		};
+		const result = await findBestBoxOffThread(itemsToPack, options);
+		if (expansion.kits.length > 0) {
+			result.kits = expansion.kits;
+		}
+		const session = await recordPackingSession(getSessionUserId(req), {
+			kind: "best-box",
+			items: itemsToPack,
+			options,
+			strategy: "volume",
+			result,
+		});
+		if (format === "svg" && result.box && result.placements) {
+			result.diagrams = renderPackingDiagrams(result.box, result.placements);
+		}
+		res
+			.status(200)
+			.json({ ...result, sessionId: getReturnedSessionId(req, session) });
+	} catch (error) {
+		next(error);
+	}
+};
+
+/**
+ * @route POST /api/shipping/pack-multiple
+ * @description Pack a set of items into as few boxes as needed.
+ * @access Public
+ * @swagger
+ * /api/shipping/pack-multiple:
+ *   post:
+ *     summary: Pack a set of items into multiple boxes
+ *     tags: [Shipping]
+ *     parameters:
+ *       - name: format
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [json, svg]
+ *           default: json
+ *         description: "svg" adds diagrams (a top view per layer and an isometric view) to each packed box, and implies includePlacements=true.
+ *       - name: includePlacements
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: boolean
+ *         description: Return the position, rotation and loading order of every packed unit.
+ *       - name: cubicFactor
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: number
+ *         description: Cubic conversion factor in kg per cubic metre for the reported weights. Defaults to the rate table's factor (250).
+ *       - name: bundling
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: boolean
+ *           default: true
+ *         description: Set to false to pack identical long items one by one instead of in strapped bundles.
+ *       - name: bundleMinLength
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: number
+ *         description: Shortest item (mm) that is bundled. Defaults to 1000.
+ *       - name: bundleMaxItems
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: integer
+ *         description: Most units in one bundle. Defaults to 10.
+ *       - name: bundleMaxWeight
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: number
+ *         description: Heaviest bundle (g). Defaults to 20000.
+ *       - name: outOfStock
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [penalise, skip]
+ *           default: penalise
+ *         description: How boxes with no stock are treated. "penalise" only uses them when nothing in stock fits; "skip" never uses them.
+ *       - name: dispatchDate
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Date the first dispatch wave ships (YYYY-MM-DD, defaults to today in UTC). Lines with a later availableOn ship in a wave on that date.
+ *       - name: strategy
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [volume, cost]
+ *           default: volume
+ *         description: "volume" uses as few boxes as possible; "cost" picks the cheapest shipments from the local carrier rate table.
+ *       - name: freight
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Load items that no box can take onto pallets, returned in freight.
+ *       - name: algorithm
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [extreme-point, layer, best-fit-decreasing, compare]
+ *           default: extreme-point
+ *         description: The packing algorithm. "compare" runs every algorithm and returns the best result.
+ *       - name: compareBy
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [boxes, cost, fill]
+ *           default: boxes
+ *         description: How compare mode ranks results. Fewer unfit units always wins first.
+ *       - name: timeBudgetMs
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: number
+ *         description: Milliseconds packing may take before the best result so far is returned with timedOut. Defaults to PACKING_TIME_BUDGET_MS (10000).
+ *     requestBody:
+ *       required: true
+ *       description: Items to pack. A line whose SKU is a kit only needs sku and quantity; it is packed as the kit's components or pre-packed carton.
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: array
+ *             items:
+ *               $ref: '#/components/schemas/ShippingItem'
+ *     responses:
+ *       200:
+ *         description: The packing result. success is false if some items could not be packed.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MultiBoxPackingResult'
+ *       400:
+ *         description: Invalid items, a kit that can't be expanded, or an invalid strategy, algorithm, compareBy, cubicFactor or bundle limit.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PackingValidationError'
+ *       500:
+ *         description: Internal server error.
+ */
+const packMultipleBoxesHandler: RequestHandler = async (req, res, next) => {
+	try {
+		const options = readMultiPackingQuery(res, req.query);
+		const format =
+			options &&
+			readEnumQuery(
+				res,
+				"format",
+				req.query.format,
+				PACKING_RESPONSE_FORMATS,
+				"json"
+			);
+		if (!options || !format) {
+			return;
+		}
+		if (format === "svg") {
+			options.includePlacements = true; // Diagrams are drawn from the placements
+		}
+		const expansion = await readPackingItems(res, req.body);
+		if (!expansion) {
+			return;
+		}
+		const itemsToPack = expansion.items;
+		const result: MultiBoxPackingResult = await packItemsOffThread(
+			itemsToPack,
+			options
+		);
+		if (expansion.kits.length > 0) {
+			result.kits = expansion.kits;
+		}
+		const session = await recordPackingSession(getSessionUserId(req), {
+			kind: "multi-box",
+			items: itemsToPack,
+			options,
+			strategy: result.strategy ?? "volume",
+			result,
+		});
+		if (format === "svg") {
+			for (const shipment of result.shipments) {
+				shipment.diagrams = renderPackingDiagrams(
+					shipment.box,
+					shipment.placements ?? []
+				);
+			}
+		}
+		res
+			.status(200)
+			.json({ ...result, sessionId: getReturnedSessionId(req, session) });
+	} catch (error) {
+		next(error);
+	}
+};
+
+/**
+ * @route POST /api/shipping/pack-batch
+ * @description Pack many orders independently in one call.
+ * @access Public
+ * @swagger
+ * /api/shipping/pack-batch:
+ *   post:
+ *     summary: Pack many orders at once
+ *     description: Packs each order independently with the same query parameters as pack-multiple (bundling included), and totals the boxes needed by type for the carton pick list.
+ *     tags: [Shipping]
+ *     parameters:
+ *       - name: includePlacements
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: boolean
+ *       - name: strategy
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [volume, cost]
+ *           default: volume
+ *       - name: algorithm
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [extreme-point, layer, best-fit-decreasing, compare]
+ *           default: extreme-point
+ *       - name: compareBy
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [boxes, cost, fill]
+ *           default: boxes
+ *       - name: cubicFactor
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: number
+ *       - name: freight
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *       - name: timeBudgetMs
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: number
+ *         description: Milliseconds each order may take to pack. Defaults to PACKING_TIME_BUDGET_MS (10000).
+ *       - name: outOfStock
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [penalise, skip]
+ *           default: penalise
+ *         description: How boxes with no stock are treated. "penalise" only uses them when nothing in stock fits; "skip" never uses them.
+ *       - name: dispatchDate
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Date the first dispatch wave ships (YYYY-MM-DD, defaults to today in UTC). Lines with a later availableOn ship in a wave on that date.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [orders]
+ *             properties:
+ *               orders:
+ *                 type: object
+ *                 description: Item arrays keyed by order ID. Kit lines are expanded as for pack-multiple.
+ *                 additionalProperties:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ShippingItem'
+ *     responses:
+ *       200:
+ *         description: Each order's result and the boxes needed by type. success is false if any order has unfit items.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 orders:
+ *                   type: object
+ *                   additionalProperties:
+ *                     $ref: '#/components/schemas/MultiBoxPackingResult'
+ *                 sessionId:
+ *                   type: string
+ *                   description: ID of the stored packing session. Absent if the caller is not signed in or the session could not be stored.
+ *                 timedOut:
+ *                   type: boolean
+ *                   description: Only present when some order's time budget ran out.
+ *                 boxesByType:
+ *                   type: array
+ *                   description: The carton pick list, most used box first.
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       boxId:
+ *                         type: string
+ *                       name:
+ *                         type: string
+ *                       count:
+ *                         type: number
+ *                 totals:
+ *                   type: object
+ *                   properties:
+ *                     orderCount:
+ *                       type: number
+ *                     boxCount:
+ *                       type: number
+ *                     palletCount:
+ *                       type: number
+ *                     incompleteOrderIds:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *       400:
+ *         description: Invalid orders or query parameters. Item errors carry the orderId they belong to.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PackingValidationError'
+ *       500:
+ *         description: Internal server error.
+ */
+const packBatchHandler: RequestHandler = async (req, res, next) => {
+	try {
+		const options = readMultiPackingQuery(res, req.query);
+		if (!options) {
+			return;
+		}
+		const expansions = await readPackingOrders(res, req.body?.orders);
+		if (!expansions) {
+			return;
+		}
+		const orders: Record<string, PackingItem[]> = {};
+		for (const [orderId, expansion] of Object.entries(expansions)) {
+			orders[orderId] = expansion.items;
+		}
+		const result: BatchPackingResult = await packOrderBatchOffThread(
+			orders,
+			options
+		);
+		for (const [orderId, expansion] of Object.entries(expansions)) {
+			if (expansion.kits.length > 0) {
+				result.orders[orderId].kits = expansion.kits;
+			}
+		}
+		const session = await recordPackingSession(getSessionUserId(req), {
+			kind: "batch",
+			orders,
+			options,
+			strategy: options.strategy ?? "volume",
+			result,
+		});
+		res
+			.status(200)
+			.json({ ...result, sessionId: getReturnedSessionId(req, session) });
+	} catch (error) {
+		next(error);
+	}
+};
+
+/**
+ * @route POST /api/shipping/verify-packing
+ * @description Check that a packing layout is physically possible.
+ * @access Public
+ * @swagger
+ * /api/shipping/verify-packing:
+ *   post:
+ *     summary: Verify a packing layout
+ *     description: Checks every placement for containment in the box's usable space, overlaps, the box weight limit and support from below. A pack-multiple result requested with includePlacements=true can be posted back unchanged.
+ *     tags: [Shipping]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [shipments]
+ *             properties:
+ *               shipments:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     box:
+ *                       $ref: '#/components/schemas/ShippingBox'
+ *                     placements:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/ItemPlacement'
+ *               minSupportRatio:
+ *                 type: number
+ *                 minimum: 0
+ *                 maximum: 1
+ *                 default: 0.5
+ *                 description: Share of each unit's base that must rest on the floor or on units below.
+ *     responses:
+ *       200:
+ *         description: The verification report. valid is false if any violation was found.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LayoutVerificationResult'
+ *       400:
+ *         description: The layout is malformed.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PackingValidationError'
+ *       500:
+ *         description: Internal server error.
+ */
+const verifyPackingHandler: RequestHandler = async (req, res, next) => {
+	try {
+		const errors = validatePackingLayoutRequest(req.body);
+		if (errors.length > 0) {
+			res.status(400).json({
+				success: false,
+				error: "Invalid layout",
+				message: `${errors.length} validation error(s) in the submitted layout.`,
+				errors,
+			});
+			return;
+		}
+		const layouts: PackingLayout[] = req.body.shipments;
+		const result = verifyPackingLayouts(layouts, {
+			minSupportRatio: req.body.minSupportRatio,
+		});
+		if (!result.valid) {
+			console.log(
+				`[Shipping] Layout verification found ${result.violations.length} violation(s).`
+			);
+		}
+		res.status(200).json(result);
+	} catch (error) {
+		next(error);
+	}
+};
+
+/**
+ * Validates a packing result posted for export.
+ * Only the fields the slip and pick list read are checked.
+ * @returns A list of problems, empty if the result can be exported.
+ */
+function validateExportBody(body: any): string[] {
+	if (
+		typeof body !== "object" ||
+		body === null ||
+		!Array.isArray(body.shipments)
+	) {
+		return ["Request body must be a packing result with a shipments array."];
+	}
+	const errors: string[] = [];
+	body.shipments.forEach((shipment: any, index: number) => {
+		if (typeof shipment?.box?.name !== "string") {
+			errors.push(`shipments[${index}].box.name must be a string.`);
+		}
+		if (!Array.isArray(shipment?.packedItems)) {
+			errors.push(`shipments[${index}].packedItems must be an array.`);
+		}
+		if (
+			typeof shipment?.weights !== "object" ||
+			typeof shipment?.outerDimensions !== "object"
+		) {
+			errors.push(
+				`shipments[${index}] must include weights and outerDimensions.`
+			);
+		}
+	});
+	if (body.unfitItems !== undefined && !Array.isArray(body.unfitItems)) {
+		errors.push("unfitItems must be an array.");
+	}
+	return errors;
+}
+
+/**
+ * @route POST /api/shipping/export
+ * @description Render a packing result as a PDF packing slip or a CSV pick list.
+ * @access Public
+ * @swagger
+ * /api/shipping/export:
+ *   post:
+ *     summary: Export a packing result
+ *     description: Renders a pack-multiple result as a printable PDF packing slip (one page per box) or a CSV pick list (one row per SKU per box). Each box shows its contents, SKU quantities, weights and load order. Request the packing with includePlacements=true to get load orders.
+ *     tags: [Shipping]
+ *     parameters:
+ *       - name: format
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [pdf, csv]
+ *           default: pdf
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/MultiBoxPackingResult'
+ *     responses:
+ *       200:
+ *         description: The packing slip or pick list, sent as an attachment.
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Invalid format or packing result.
+ *       500:
+ *         description: Internal server error.
  */
-const processInvoice: RequestHandler = async (req, res, next) => {
+const exportPackingHandler: RequestHandler = async (req, res, next) => {
 	try {
-		if (!req.file) {
+		const format = readEnumQuery(
+			res,
+			"format",
+			req.query.format,
+			PACKING_EXPORT_FORMATS,
+			"pdf"
+		);
+		if (!format) {
+			return;
+		}
+		const errors = validateExportBody(req.body);
+		if (errors.length > 0) {
 			res.status(400).json({
 				success: false,
-				message: "No file uploaded. Please upload an invoice file.",
+				error: "Invalid packing result",
+				message: errors.join(" "),
 			});
 			return;
 		}
-
-		const { buffer, mimetype, originalname } = req.file;
-
-		// Use the modular invoice service to process the file
-		// This function handles: text extraction, personal data removal, item parsing,
-		// DB lookups, AI estimation, and adding new items to DB as needed
-		const processedItems = await processInvoiceFileModular(
-			buffer,
-			mimetype,
-			originalname
-		);
-
-		// Convert the processed items to the format expected by the frontend
-		// Note: processInvoiceFileModular already handles DB integration and preserves quantities
-		const finalShippingItems = processedItems.map((item, index) => ({
-			_id: `temp_invoice_${item.sku}_${index}`, // Temporary ID for frontend using index instead of timestamp
-			name: item.name,
-			sku: item.sku,
-			length: item.length,
-			width: item.width,
-			height: item.height,
-			weight: item.weight * 1000, // Convert kg back to grams for frontend consistency
-			quantity: item.quantity,
-		}));
-
-		// Debug: Log what we're sending to the frontend
+		const result: MultiBoxPackingResult = {
+			...req.body,
+			unfitItems: req.body.unfitItems ?? [],
+		};
 		console.log(
-			"[Backend] Sending to frontend:",
-			JSON.stringify(finalShippingItems, null, 2)
+			`[Shipping] Exporting ${result.shipments.length} shipment(s) as ${format}.`
 		);
-
-		res.status(200).json({
-			success: true,
-			data: finalShippingItems,
-			message: `Successfully processed invoice and extracted ${finalShippingItems.length} items.`,
-		});
-	} catch (error) {
-		console.error("Error processing invoice file:", error);
-		res.status(500).json({
-			success: false,
-			data: [],
-			message:
-				error instanceof Error
-					? error.message
-					: "An unexpected error occurred during invoice processing.",
-		});
-	}
-};
-
-const getShippingItems: RequestHandler = async (req, res, next) => {
-	try {
-		const response: DatabaseResponse<ShippingItem[]> =
-			await DataService.shippingItems.getAvailable();
-		if (response.success) {
-			res.status(response.status || 200).json(response);
-		} else {
-			res.status(response.status || 500).json(response);
+		if (format === "csv") {
+			res
+				.status(200)
+				.type("text/csv")
+				.attachment("pick-list.csv")
+				.send(renderPickListCsv(result));
+			return;
 		}
+		res
+			.status(200)
+			.type("application/pdf")
+			.attachment("packing-slip.pdf")
+			.send(renderPackingSlipPdf(result));
 	} catch (error) {
 		next(error);
 	}
 };
 
-const getAvailableBoxes: RequestHandler = (req, res, next) => {
+/**
+ * @route GET /api/shipping/sessions
+ * @description List the signed-in user's stored packing sessions, newest first.
+ * @access Private
+ * @swagger
+ * /api/shipping/sessions:
+ *   get:
+ *     summary: List stored packing sessions
+ *     description: Every calculate-box, pack-multiple and pack-batch run is stored as a session for the signed-in user (or anonymous). Only the caller's own sessions are listed, and anonymous sessions are never listed. Results are left out of the list; fetch a session by ID for its full result.
+ *     tags: [Shipping]
+ *     parameters:
+ *       - name: limit
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 200
+ *           default: 50
+ *         description: Most sessions to return.
+ *       - name: before
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only list sessions created before this time. Pass the createdAt of the last session on a page to get the next page.
+ *     responses:
+ *       200:
+ *         description: The sessions, newest first.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/PackingSession'
+ *       400:
+ *         description: Invalid limit or before.
+ *       401:
+ *         description: Not signed in.
+ *       500:
+ *         description: Internal server error.
+ */
+const getPackingSessions: RequestHandler = async (req, res, next) => {
 	try {
-		res.status(200).json(availableBoxes);
+		const limit =
+			req.query.limit === undefined
+				? DEFAULT_SESSION_PAGE_SIZE
+				: Number(req.query.limit);
+		if (
+			!Number.isInteger(limit) ||
+			limit < 1 ||
+			limit > MAX_SESSION_PAGE_SIZE
+		) {
+			res.status(400).json({
+				success: false,
+				error: "Invalid limit",
+				message: `limit must be a whole number from 1 to ${MAX_SESSION_PAGE_SIZE}.`,
+			});
+			return;
+		}
+		const before =
+			req.query.before === undefined
+				? undefined
+				: new Date(String(req.query.before));
+		if (before && isNaN(before.getTime())) {
+			res.status(400).json({
+				success: false,
+				error: "Invalid before",
+				message:
+					"before must be a date and time, such as a session's createdAt.",
+			});
+			return;
+		}
+		const response = await listPackingSessions(getSessionUserId(req), {
+			limit,
+			before,
+		});
+		res.status(response.success ? 200 : response.status || 500).json(response);
 	} catch (error) {
 		next(error);
 	}
 };
 
-const calculateBestBoxHandler: RequestHandler = (req, res, next) => {
+/**
+ * @route GET /api/shipping/sessions/:id
+ * @description Reopen one of the signed-in user's packing sessions, optionally re-running it against the current catalogue.
+ * @access Private
+ * @swagger
+ * /api/shipping/sessions/{id}:
+ *   get:
+ *     summary: Get a stored packing session
+ *     tags: [Shipping]
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - name: rerun
+ *         in: query
+ *         required: false
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Re-pack the stored items with the stored options against the current box catalogue and compare the results. The re-run packs on the worker pool within the stored time budget, or PACKING_TIME_BUDGET_MS, and is not stored.
+ *     responses:
+ *       200:
+ *         description: The session, plus rerun and comparison when rerun=true.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/PackingSession'
+ *                 rerun:
+ *                   type: object
+ *                   description: The fresh result, in the same shape as the stored one.
+ *                 comparison:
+ *                   type: object
+ *                   properties:
+ *                     original:
+ *                       $ref: '#/components/schemas/PackingSessionSummary'
+ *                     rerun:
+ *                       $ref: '#/components/schemas/PackingSessionSummary'
+ *                     changed:
+ *                       type: boolean
+ *                       description: True if the re-run picked different boxes or left a different number of units unfit.
+ *                     timedOut:
+ *                       type: boolean
+ *                       description: Only present when the re-run's time budget ran out, so its figures are only the best found in time.
+ *       400:
+ *         description: The ID is not a valid session ID.
+ *       401:
+ *         description: Not signed in.
+ *       404:
+ *         description: No session with this ID belonging to the caller.
+ *       500:
+ *         description: Internal server error.
+ */
+const getPackingSessionById: RequestHandler = async (req, res, next) => {
 	try {
-		const itemsToPack: ShippingItem[] = req.body;
-		if (!Array.isArray(itemsToPack) || itemsToPack.length === 0) {
-			res.status(400).json({
-				success: false,
-				message: "Request body must be a non-empty array of ShippingItem.",
-			});
+		const response = await getPackingSession(
+			getSessionUserId(req),
+			req.params.id
+		);
+		if (!response.success || !response.data) {
+			res.status(response.status || 500).json(response);
 			return;
 		}
-		// TODO: Add more detailed validation for each item in itemsToPack
-		const result = findBestBox(itemsToPack);
-		res.status(200).json(result);
+		if (req.query.rerun !== "true") {
+			res.status(200).json(response);
+			return;
+		}
+		const { result, comparison } = await rerunPackingSession(response.data);
+		res.status(200).json({ ...response, rerun: result, comparison });
 	} catch (error) {
 		next(error);
 	}
 };
 
-const packMultipleBoxesHandler: RequestHandler = (req, res, next) => {
+/**
+ * @route POST /api/shipping/sessions/:id/confirm
+ * @description Confirm one of the signed-in user's packing sessions was packed, taking the boxes it used out of stock.
+ * @access Private
+ * @swagger
+ * /api/shipping/sessions/{id}/confirm:
+ *   post:
+ *     summary: Confirm a packing session and take its boxes out of stock
+ *     tags: [Shipping]
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The confirmed session and the boxes taken out of stock.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     session:
+ *                       $ref: '#/components/schemas/PackingSession'
+ *                     boxesUsed:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/BoxStockUsage'
+ *       400:
+ *         description: The ID is not a valid session ID.
+ *       401:
+ *         description: Not signed in.
+ *       404:
+ *         description: No session with this ID belonging to the caller.
+ *       409:
+ *         description: The session has already been confirmed.
+ *       500:
+ *         description: Internal server error.
+ */
+const confirmPackingSessionHandler: RequestHandler = async (req, res, next) => {
 	try {
-		const itemsToPack: ShippingItem[] = req.body;
-		if (!Array.isArray(itemsToPack) || itemsToPack.length === 0) {
-			res.status(400).json({
-				success: false,
-				message: "Request body must be a non-empty array of ShippingItem.",
-			});
+		const userId = getSessionUserId(req);
+		const response = await getPackingSession(userId, req.params.id);
+		if (!response.success || !response.data) {
+			res.status(response.status || 500).json(response);
 			return;
 		}
-		// TODO: Add more detailed validation for each item in itemsToPack
-		const result: MultiBoxPackingResult =
-			packItemsIntoMultipleBoxes(itemsToPack);
-		res.status(200).json(result);
+		const confirmation = await confirmPackingSession(userId, response.data);
+		res
+			.status(confirmation.status || (confirmation.success ? 200 : 500))
+			.json(confirmation);
 	} catch (error) {
 		next(error);
 	}
@@ -546,22 +3090,83 @@ router.get("/items", getShippingItems);
  * @swagger
  * /api/shipping/boxes:
  *   get:
- *     summary: Get all available standard shipping boxes
+ *     summary: Get all active boxes in the catalogue
  *     tags: [Shipping]
  *     responses:
  *       200:
- *         description: A list of standard shipping boxes.
+ *         description: A list of active shipping boxes.
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 $ref: '#/components/schemas/ShippingBox'
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ShippingBox'
+ *                 message:
+ *                   type: string
  *       500:
  *         description: Internal server error.
  */
 router.get("/boxes", getAvailableBoxes);
 
+/**
+ * @swagger
+ * /api/shipping/boxes/low-stock:
+ *   get:
+ *     summary: Get the boxes at or below their low-stock threshold
+ *     tags: [Shipping]
+ *     responses:
+ *       200:
+ *         description: Boxes whose stock is tracked and at or below their lowStockThreshold, lowest stock first.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ShippingBox'
+ *                 message:
+ *                   type: string
+ *       500:
+ *         description: Internal server error.
+ */
+router.get("/boxes/low-stock", getLowStock);
+
+/**
+ * @swagger
+ * /api/shipping/kits:
+ *   get:
+ *     summary: Get all kit definitions
+ *     tags: [Shipping]
+ *     responses:
+ *       200:
+ *         description: A list of kit definitions.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/KitDefinition'
+ *                 message:
+ *                   type: string
+ *       500:
+ *         description: Internal server error.
+ */
+router.get("/kits", getKits);
+
 /**
  * @swagger
  * /api/shipping/process-invoice:
@@ -609,6 +3214,41 @@ router.post("/items", addShippingItem);
 router.put("/items/:id", updateShippingItem);
 router.delete("/items/:id", deleteShippingItem);
 
+/**
+ * Route endpoints for the box catalogue
+ */
+router.post("/boxes", addBox);
+router.put("/boxes/:id", updateBox);
+router.delete("/boxes/:id", deleteBox);
+router.post("/boxes/:id/stock", requireMasterAdmin, recordBoxStock);
+
+/**
+ * Route endpoints for kit definitions
+ */
+router.post("/kits", addKit);
+router.put("/kits/:id", updateKit);
+router.delete("/kits/:id", deleteKit);
+
+/**
+ * Route endpoints for box calculations
+ */
+router.post("/calculate-box", calculateBestBoxHandler);
+router.post("/pack-multiple", packMultipleBoxesHandler);
+router.post("/pack-batch", packBatchHandler);
+router.post("/verify-packing", verifyPackingHandler);
+router.post("/export", exportPackingHandler);
+
+/**
+ * Route endpoints for stored packing sessions
+ */
+router.get("/sessions", requireSignedIn, getPackingSessions);
+router.get("/sessions/:id", requireSignedIn, getPackingSessionById);
+router.post(
+	"/sessions/:id/confirm",
+	requireSignedIn,
+	confirmPackingSessionHandler
+);
+
 // Log all incoming shipping requests
 router.use((req, res, next) => {
 	console.log(`[Shipping] ${req.method} ${req.originalUrl}`);
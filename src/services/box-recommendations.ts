@@ -0,0 +1,534 @@
+/**
+ * Box Recommendations
+ * Updated: 19/10/2026
+ * Author: Deej Potter
+ * Description: Replays stored packing sessions against the current box catalogue to show how full
+ * boxes run, which boxes get used and where space is wasted, then proposes new box sizes that would
+ * have saved the most volume or cost. A proposal is sized to the packed contents of a wasteful
+ * shipment, and is credited with every replayed shipment whose packed layout it could hold as is.
+ * Proposals are picked one at a time, each counting only what the earlier picks didn't already save.
+ */
+
+import ShippingBox from "../types/ShippingBox";
+import {
+	BoxDimensions,
+	MultiBoxPackingResult,
+	PackingItem,
+	PackingShipment,
+	PackingStrategyName,
+} from "../types/box-shipping-types";
+import {
+	BoxProposal,
+	BoxRecommendationReport,
+	BoxUsageStats,
+	FillRatioSummary,
+	WastedSpaceEntry,
+} from "../types/BoxRecommendationReport";
+import { PackingSession } from "../types/PackingSession";
+import { getActiveBoxes, roundFigure } from "./box-shipping-calculations";
+import { listPackingSessions } from "./packing-sessions";
+import { packItemsOffThread } from "./packing-pool";
+import { getRateTable, priceShipment } from "./shipping-rates";
+import { getUsableDimensions } from "../utils/boxDimensions";
+
+/**
+ * Number of box sizes proposed when the request doesn't say.
+ */
+export const DEFAULT_BOX_PROPOSALS = 3;
+
+/**
+ * Most box sizes one report will propose.
+ */
+export const MAX_BOX_PROPOSALS = 10;
+
+/**
+ * Most recent sessions replayed when the request doesn't say.
+ */
+export const DEFAULT_REPORT_SESSION_LIMIT = 500;
+
+/**
+ * Most sessions one report will replay. Every session is re-packed within one request,
+ * so this bounds how long a report holds the packing pool.
+ */
+export const MAX_REPORT_SESSION_LIMIT = 2000;
+
+/** Shipments listed under largestWaste. */
+const LARGEST_WASTE_ENTRIES = 10;
+
+/** Proposed dimensions are rounded up to this many millimeters. */
+const PROPOSAL_ROUNDING_MM = 10;
+
+/** Most candidate sizes scored, taken from the most wasteful shipments first. */
+const MAX_PROPOSAL_CANDIDATES = 50;
+
+/** Cubic millimeters in a litre. */
+const CUBIC_MM_PER_LITRE = 1_000_000;
+
+/**
+ * Options for buildBoxRecommendationReport.
+ */
+export interface BoxRecommendationOptions {
+	/** Users whose stored sessions are replayed. */
+	userIds: string[];
+	/** What proposals should reduce. Defaults to "volume". */
+	objective?: PackingStrategyName;
+	/** Box sizes to propose, 0 to MAX_BOX_PROPOSALS. Defaults to DEFAULT_BOX_PROPOSALS. */
+	proposals?: number;
+	/** Most recent sessions to replay, 1 to MAX_REPORT_SESSION_LIMIT. Defaults to DEFAULT_REPORT_SESSION_LIMIT. */
+	sessionLimit?: number;
+}
+
+/**
+ * A shipment from the replay, with what a proposal needs to know to take it over.
+ */
+interface ReplayedShipment {
+	sessionId: string;
+	orderId?: string;
+	box: ShippingBox;
+	fillRatio: number;
+	wastedLitres: number;
+	/** Inner size the packed layout needs, including the box's padding. */
+	required: BoxDimensions;
+	/** True if an item's orientation or stacking rules stop the layout being turned on its side. */
+	upright: boolean;
+	/** Weight of the contents in grams. */
+	contentsWeight: number;
+	/** Shipping cost in the replay, or null when not priced. */
+	cost: number | null;
+}
+
+/**
+ * Volume of a box or layout in litres.
+ */
+function getVolumeLitres(dimensions: BoxDimensions): number {
+	return (
+		(dimensions.length * dimensions.width * dimensions.height) /
+		CUBIC_MM_PER_LITRE
+	);
+}
+
+/**
+ * Sort dimensions longest first without changing the original list.
+ */
+function sortDescending(values: number[]): number[] {
+	return [...values].sort((a, b) => b - a);
+}
+
+/**
+ * Load the most recent sessions of every user, newest first.
+ * A user whose sessions can't be loaded is logged and skipped.
+ */
+async function loadSessions(
+	userIds: string[],
+	limit: number
+): Promise<Omit<PackingSession, "result">[]> {
+	const sessions: Omit<PackingSession, "result">[] = [];
+	for (const userId of userIds) {
+		const response = await listPackingSessions(userId, { limit });
+		if (!response.success) {
+			console.warn(
+				`[BoxReport] Failed to load packing sessions for ${userId}: ${response.message}`
+			);
+			continue;
+		}
+		sessions.push(...(response.data ?? []));
+	}
+	return sessions
+		.sort(
+			(a, b) =>
+				new Date(b.createdAt ?? 0).getTime() -
+				new Date(a.createdAt ?? 0).getTime()
+		)
+		.slice(0, limit);
+}
+
+/**
+ * Split a session into the item lists it packed, with the order ID for batch sessions.
+ */
+function getSessionOrders(
+	session: Omit<PackingSession, "result">
+): [string | undefined, PackingItem[]][] {
+	if (session.kind === "batch") {
+		return Object.entries(session.orders ?? {});
+	}
+	return [[undefined, session.items ?? []]];
+}
+
+/**
+ * Work out the inner size a shipment's packed layout needs: the extent of its
+ * placements plus the box's padding. Without placements the whole usable space is assumed.
+ */
+function getRequiredDimensions(shipment: PackingShipment): BoxDimensions {
+	const clearance = 2 * (shipment.box.padding || 0);
+	if (!shipment.placements || shipment.placements.length === 0) {
+		const usable = getUsableDimensions(shipment.box);
+		return {
+			length: usable.length + clearance,
+			width: usable.width + clearance,
+			height: usable.height + clearance,
+		};
+	}
+	// Placements measure x across the width, y up the height and z along the length
+	const extent = { length: 0, width: 0, height: 0 };
+	for (const { position, dimensions } of shipment.placements) {
+		extent.length = Math.max(extent.length, position.z + dimensions.depth);
+		extent.width = Math.max(extent.width, position.x + dimensions.width);
+		extent.height = Math.max(extent.height, position.y + dimensions.height);
+	}
+	return {
+		length: extent.length + clearance,
+		width: extent.width + clearance,
+		height: extent.height + clearance,
+	};
+}
+
+/**
+ * Reduce a replayed shipment to the figures the report and the proposals need.
+ */
+function describeShipment(
+	sessionId: string,
+	orderId: string | undefined,
+	shipment: PackingShipment
+): ReplayedShipment {
+	const usableLitres = getVolumeLitres(getUsableDimensions(shipment.box));
+	const fillRatio = shipment.weights.fillRatio;
+	return {
+		sessionId,
+		orderId,
+		box: shipment.box,
+		fillRatio,
+		wastedLitres: usableLitres * (1 - fillRatio),
+		required: getRequiredDimensions(shipment),
+		upright: shipment.packedItems.some(
+			(item) =>
+				item.allowedOrientations ||
+				item.thisSideUp ||
+				item.fragile ||
+				item.maxLoadOnTop !== undefined
+		),
+		contentsWeight: shipment.packedItems.reduce(
+			(sum, item) => sum + item.weight * (item.quantity || 1),
+			0
+		),
+		cost: shipment.price?.total ?? null,
+	};
+}
+
+/**
+ * Summarise fill ratios as an average, a median and quarter bands.
+ */
+function summariseFillRatios(ratios: number[]): FillRatioSummary {
+	const sorted = [...ratios].sort((a, b) => a - b);
+	const middle = Math.floor(sorted.length / 2);
+	const median =
+		sorted.length === 0
+			? 0
+			: sorted.length % 2
+			? sorted[middle]
+			: (sorted[middle - 1] + sorted[middle]) / 2;
+	const buckets = [0, 0.25, 0.5, 0.75].map((min) => ({
+		min,
+		max: min + 0.25,
+		count: ratios.filter(
+			(ratio) => ratio >= min && (ratio < min + 0.25 || min === 0.75)
+		).length,
+	}));
+	return {
+		average: roundFigure(
+			ratios.reduce((sum, ratio) => sum + ratio, 0) / (ratios.length || 1)
+		),
+		median: roundFigure(median),
+		buckets,
+	};
+}
+
+/**
+ * Total each box's uses, fill and wasted space, most used first.
+ */
+function summariseBoxUsage(shipments: ReplayedShipment[]): BoxUsageStats[] {
+	const usage = new Map<string, BoxUsageStats & { fillTotal: number }>();
+	for (const shipment of shipments) {
+		const entry = usage.get(shipment.box._id) ?? {
+			boxId: shipment.box._id,
+			name: shipment.box.name,
+			count: 0,
+			share: 0,
+			averageFillRatio: 0,
+			wastedLitres: 0,
+			fillTotal: 0,
+		};
+		entry.count++;
+		entry.fillTotal += shipment.fillRatio;
+		entry.wastedLitres += shipment.wastedLitres;
+		usage.set(shipment.box._id, entry);
+	}
+	return Array.from(usage.values())
+		.map(({ fillTotal, ...entry }) => ({
+			...entry,
+			share: roundFigure(entry.count / shipments.length),
+			averageFillRatio: roundFigure(fillTotal / entry.count),
+			wastedLitres: roundFigure(entry.wastedLitres),
+		}))
+		.sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+/**
+ * Size a candidate box to a shipment's layout, rounded up. A layout that may be turned
+ * on its side is sorted longest side first, so the same size is only scored once.
+ */
+function getCandidateDimensions(shipment: ReplayedShipment): BoxDimensions {
+	const roundUp = (value: number) =>
+		Math.ceil(value / PROPOSAL_ROUNDING_MM) * PROPOSAL_ROUNDING_MM;
+	const { length, width, height } = shipment.required;
+	if (shipment.upright) {
+		const [longer, shorter] = sortDescending([roundUp(length), roundUp(width)]);
+		return { length: longer, width: shorter, height: roundUp(height) };
+	}
+	const [first, second, third] = sortDescending(
+		[length, width, height].map(roundUp)
+	);
+	return { length: first, width: second, height: third };
+}
+
+/**
+ * Check whether a shipment's packed layout fits a proposed box as is. The layout can always
+ * turn on the spot; it can only be laid on its side when none of its items has orientation or stacking rules.
+ */
+function fitsProposal(
+	shipment: ReplayedShipment,
+	proposal: BoxDimensions & { maxWeight: number }
+): boolean {
+	if (shipment.contentsWeight > proposal.maxWeight) {
+		return false;
+	}
+	const { required } = shipment;
+	if (shipment.upright) {
+		const footprint = sortDescending([proposal.length, proposal.width]);
+		const needed = sortDescending([required.length, required.width]);
+		return (
+			proposal.height >= required.height &&
+			footprint[0] >= needed[0] &&
+			footprint[1] >= needed[1]
+		);
+	}
+	const sides = sortDescending([
+		proposal.length,
+		proposal.width,
+		proposal.height,
+	]);
+	const needed = sortDescending([
+		required.length,
+		required.width,
+		required.height,
+	]);
+	return sides.every((side, index) => side >= needed[index]);
+}
+
+/**
+ * Propose up to count new box sizes, best saving first.
+ * Candidates are the layouts of the most wasteful shipments that don't match a catalogue box.
+ * Each round picks the candidate that saves the most over each shipment's best box so far.
+ * New sizes are priced without a carton cost, since they have none in the rate table.
+ */
+function proposeBoxes(
+	shipments: ReplayedShipment[],
+	catalogue: ShippingBox[],
+	objective: PackingStrategyName,
+	count: number
+): BoxProposal[] {
+	const catalogueSizes = new Set(
+		catalogue.map((box) =>
+			sortDescending([box.length, box.width, box.height]).join("x")
+		)
+	);
+	const candidates = new Map<string, BoxDimensions & { maxWeight: number }>();
+	const byWaste = [...shipments].sort(
+		(a, b) => b.wastedLitres - a.wastedLitres
+	);
+	for (const shipment of byWaste) {
+		if (candidates.size >= MAX_PROPOSAL_CANDIDATES) break;
+		const dimensions = getCandidateDimensions(shipment);
+		const key = `${dimensions.length}x${dimensions.width}x${dimensions.height}`;
+		const sortedKey = sortDescending([
+			dimensions.length,
+			dimensions.width,
+			dimensions.height,
+		]).join("x");
+		if (catalogueSizes.has(sortedKey)) continue;
+		const existing = candidates.get(key);
+		candidates.set(key, {
+			...dimensions,
+			maxWeight: Math.max(existing?.maxWeight ?? 0, shipment.box.maxWeight),
+		});
+	}
+
+	// What each shipment costs now, under the objective, and the candidate costs it could drop to
+	const rateTable = objective === "cost" ? getRateTable() : null;
+	const currentVolume = shipments.map((shipment) =>
+		getVolumeLitres(shipment.box)
+	);
+	const currentCost = shipments.map((shipment) =>
+		objective === "cost" ? shipment.cost : getVolumeLitres(shipment.box)
+	);
+	const scored = Array.from(candidates.values()).map((candidate) => {
+		const box: ShippingBox = {
+			_id: "proposal",
+			name: `${candidate.length} x ${candidate.width} x ${candidate.height}`,
+			...candidate,
+		};
+		return {
+			candidate,
+			volume: getVolumeLitres(candidate),
+			costs: shipments.map((shipment) => {
+				if (!fitsProposal(shipment, candidate)) return null;
+				if (!rateTable) return getVolumeLitres(candidate);
+				return (
+					priceShipment(box, shipment.contentsWeight, rateTable)?.total ?? null
+				);
+			}),
+		};
+	});
+
+	const proposals: BoxProposal[] = [];
+	while (proposals.length < count && scored.length > 0) {
+		let bestIndex = -1;
+		let bestSaving = 0;
+		scored.forEach(({ costs }, index) => {
+			const saving = costs.reduce<number>((sum, cost, shipmentIndex) => {
+				const current = currentCost[shipmentIndex];
+				return cost !== null && current !== null && cost < current
+					? sum + current - cost
+					: sum;
+			}, 0);
+			if (saving > bestSaving) {
+				bestIndex = index;
+				bestSaving = saving;
+			}
+		});
+		if (bestIndex < 0) break;
+
+		const [{ candidate, volume, costs }] = scored.splice(bestIndex, 1);
+		const replaces = new Map<
+			string,
+			{ boxId: string; name: string; count: number }
+		>();
+		let shipmentsMoved = 0;
+		let volumeSaved = 0;
+		costs.forEach((cost, shipmentIndex) => {
+			const current = currentCost[shipmentIndex];
+			if (cost === null || current === null || cost >= current) return;
+			const { box } = shipments[shipmentIndex];
+			const entry = replaces.get(box._id) ?? {
+				boxId: box._id,
+				name: box.name,
+				count: 0,
+			};
+			entry.count++;
+			replaces.set(box._id, entry);
+			shipmentsMoved++;
+			volumeSaved += currentVolume[shipmentIndex] - volume;
+			currentCost[shipmentIndex] = cost;
+			currentVolume[shipmentIndex] = volume;
+		});
+		proposals.push({
+			...candidate,
+			shipmentsMoved,
+			volumeSavedLitres: roundFigure(volumeSaved),
+			...(objective === "cost"
+				? { costSaved: Math.round(bestSaving * 100) / 100 }
+				: {}),
+			replaces: Array.from(replaces.values()).sort(
+				(a, b) => b.count - a.count || a.name.localeCompare(b.name)
+			),
+		});
+	}
+	return proposals;
+}
+
+/**
+ * Replay stored packing sessions against the current catalogue and build the report.
+ * Sessions are replayed with their bundling and cubic factor, using the packing strategy that
+ * matches the objective. Stock levels are ignored so the report reflects box sizes alone.
+ */
+export async function buildBoxRecommendationReport(
+	options: BoxRecommendationOptions
+): Promise<BoxRecommendationReport> {
+	const objective = options.objective ?? "volume";
+	const proposalCount = Math.min(
+		options.proposals ?? DEFAULT_BOX_PROPOSALS,
+		MAX_BOX_PROPOSALS
+	);
+	const sessions = await loadSessions(
+		options.userIds,
+		Math.min(
+			options.sessionLimit ?? DEFAULT_REPORT_SESSION_LIMIT,
+			MAX_REPORT_SESSION_LIMIT
+		)
+	);
+	const catalogue = (await getActiveBoxes()).map(
+		({ stockOnHand, lowStockThreshold, ...box }) => box
+	);
+
+	const shipments: ReplayedShipment[] = [];
+	let orderCount = 0;
+	let unfitUnits = 0;
+	for (const session of sessions) {
+		for (const [orderId, items] of getSessionOrders(session)) {
+			const result: MultiBoxPackingResult = await packItemsOffThread(items, {
+				bundling: session.options.bundling,
+				cubicFactor: session.options.cubicFactor,
+				strategy: objective,
+				boxes: catalogue,
+				includePlacements: true,
+			});
+			orderCount++;
+			unfitUnits += result.unfitItems.reduce(
+				(sum, item) => sum + (item.quantity || 1),
+				0
+			);
+			for (const shipment of result.shipments) {
+				shipments.push(
+					describeShipment(String(session._id), orderId, shipment)
+				);
+			}
+		}
+	}
+
+	const largestWaste: WastedSpaceEntry[] = [...shipments]
+		.sort((a, b) => b.wastedLitres - a.wastedLitres)
+		.slice(0, LARGEST_WASTE_ENTRIES)
+		.map((shipment) => ({
+			sessionId: shipment.sessionId,
+			...(shipment.orderId !== undefined ? { orderId: shipment.orderId } : {}),
+			boxId: shipment.box._id,
+			name: shipment.box.name,
+			fillRatio: shipment.fillRatio,
+			wastedLitres: roundFigure(shipment.wastedLitres),
+		}));
+	const proposals = proposeBoxes(
+		shipments,
+		catalogue,
+		objective,
+		proposalCount
+	);
+	console.log(
+		`[BoxReport] Replayed ${sessions.length} session(s), ${orderCount} order(s) and ${shipments.length} shipment(s); proposed ${proposals.length} box size(s).`
+	);
+
+	return {
+		generatedAt: new Date(),
+		objective,
+		userIds: options.userIds,
+		sessionCount: sessions.length,
+		orderCount,
+		shipmentCount: shipments.length,
+		unfitUnits,
+		fillRatios: summariseFillRatios(
+			shipments.map((shipment) => shipment.fillRatio)
+		),
+		boxUsage: summariseBoxUsage(shipments),
+		largestWaste,
+		proposals,
+		...(objective === "cost" ? { currency: getRateTable().currency } : {}),
+	};
+}
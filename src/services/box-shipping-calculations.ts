@@ -1,29 +1,101 @@
 /**
  * Box Shipping Calculation Service
- * Updated: 08/07/2025
+ * Updated: 19/10/2026
  * Author: Deej Potter / GitHub Copilot
  * Description: This file contains the logic for calculating optimal box sizes for shipping items, including 3D bin packing algorithms.
  * Migrated from sample code/app/box-shipping-calculator/BoxCalculations.ts
  */
 
-import ShippingItem from "../types/ShippingItem";
+import ShippingItem, { ItemAxis } from "../types/ShippingItem";
 import ShippingBox from "../types/ShippingBox";
 import {
 	Point3D,
 	PackedItem,
 	PackingBox,
 	MultiBoxPackingResult,
+	PackingOptions,
+	PackingItem,
+	BestBoxResult,
+	SkuPackingSummary,
+	ItemPlacement,
+	PackingShipment,
+	ConstraintImpact,
+	PackingStrategyName,
+	ShipmentWeights,
+	ConsignmentTotals,
+	BoxDimensions,
+	PackingRun,
+	PackingStrategy,
+	PackingAlgorithmName,
+	PackingCompareMetric,
+	AlgorithmComparison,
+	PackingBundle,
+	PalletDefinition,
+	FreightShipment,
+	FreightConsignment,
+	UnfitReason,
+	UnfitPackingItem,
+	BoxSelection,
+	BoxRunnerUp,
+	BatchPackingResult,
+	BoxPickListEntry,
+	OutOfStockPolicy,
+	DispatchWave,
+	DispatchPlan,
 } from "../types/box-shipping-types"; // Updated import
+import { DataService } from "../data/DataService";
+import {
+	contentsFitPackaging,
+	getContentsCapacity,
+	getOuterDimensions,
+	getPackagingType,
+	getPackingExtents,
+	getUsableDimensions,
+} from "../utils/boxDimensions";
+import { isBoxInStock } from "../utils/boxStock";
+import {
+	getHazardLabels,
+	groupUnitsForSegregation,
+	hasSegregationRules,
+} from "../utils/segregation";
+import {
+	DispatchWaveLines,
+	getTodayDate,
+	groupLinesIntoDispatchWaves,
+} from "../utils/dispatchDates";
+import {
+	calculateCubicWeightKg,
+	getCubicFactor,
+	getRateTable,
+	priceShipment,
+} from "./shipping-rates";
+import { RateTable } from "./shipping-rate-constants";
+import { DEFAULT_PALLETS } from "./pallet-constants";
+import { verifyPackingLayouts } from "./packing-validator";
+import {
+	cachePackingResult,
+	getCachedPackingResult,
+	getPackingFingerprint,
+} from "./packing-cache";
+import {
+	BundlingResult,
+	bundleLongUnits,
+	unbundleUnits,
+} from "./extrusion-bundling";
 
 // Constants for box preference calculation
 const MAX_PREFERRED_LENGTH = 1200; // mm
 const LENGTH_PENALTY_FACTOR = 1.5;
 const EXTREME_LENGTH_THRESHOLD = 1500; // mm
 const EXTREME_LENGTH_PENALTY_FACTOR = 10.0;
+// Boxes with no stock on hand sort after every box in stock
+const OUT_OF_STOCK_PENALTY_FACTOR = 1e6;
 // const VOLUME_THRESHOLD = 30000000; // 30 million cubic mm (~30L) - Not currently used directly in selection logic, but good for context
 
 /**
- * Standard box sizes available for shipping
+ * Default box sizes used to seed the "Boxes" collection.
+ * The live catalogue is loaded from the database at packing time (see getActiveBoxes),
+ * this list is only used for the initial seed or as a fallback if the database is unreachable.
  * These dimensions are in millimeters and weights in grams
  */
 export const standardBoxes: ShippingBox[] = [
@@ -34,6 +106,7 @@ export const standardBoxes: ShippingBox[] = [
 		width: 80,
 		height: 20,
 		maxWeight: 300,
+		type: "satchel",
 	},
 	{
 		_id: "small satchel",
@@ -42,6 +115,7 @@ export const standardBoxes: ShippingBox[] = [
 		width: 150,
 		height: 100,
 		maxWeight: 5000,
+		type: "satchel",
 	},
 	{
 		_id: "small",
@@ -101,6 +175,77 @@ export const standardBoxes: ShippingBox[] = [
 	},
 ];
 
+/**
+ * Strategies accepted by packItemsIntoMultipleBoxes.
+ */
+export const PACKING_STRATEGIES: PackingStrategyName[] = ["volume", "cost"];
+
+/**
+ * Ways of treating boxes with no stock, accepted by findBestBox and packItemsIntoMultipleBoxes.
+ */
+export const OUT_OF_STOCK_POLICIES: OutOfStockPolicy[] = ["penalise", "skip"];
+
+/**
+ * Load the active box catalogue from the database.
+ * Seeds the collection with standardBoxes the first time it is used, and falls back
+ * to standardBoxes if the database cannot be read so packing keeps working.
+ */
+export async function getActiveBoxes(): Promise<ShippingBox[]> {
+	const response = await DataService.boxes.getAvailable();
+	if (!response.success) {
+		console.warn(
+			`[BoxCalc] Failed to load box catalogue (${response.message}). Falling back to default boxes.`
+		);
+		return standardBoxes;
+	}
+	if (response.data && response.data.length > 0) {
+		return response.data;
+	}
+
+	const seedResponse = await DataService.boxes.seedDefaults(standardBoxes);
+	if (!seedResponse.success) {
+		console.warn(
+			`[BoxCalc] Failed to seed box catalogue (${seedResponse.message}). Falling back to default boxes.`
+		);
+		return standardBoxes;
+	}
+	return seedResponse.data || [];
+}
+
+/**
+ * Get the number of units requested for an item (defaults to 1).
+ * Negative or fractional quantities are floored to a whole number of units.
+ */
+function getItemQuantity(item: PackingItem): number {
+	if (item.quantity === undefined || item.quantity === null) {
+		return 1;
+	}
+	return Math.max(0, Math.floor(item.quantity));
+}
+
+/**
+ * Key used to group units back together after packing.
+ * SKU is the unique inventory identifier, _id/name are only fallbacks for ad-hoc items.
+ */
+function getItemGroupKey(item: ShippingItem): string {
+	return item.sku || (item._id ? item._id.toString() : item.name);
+}
+
+/**
+ * Expand items into individual units according to their quantity.
+ * Each unit is a copy of the item without the quantity field.
+ */
+function expandItemsByQuantity(items: PackingItem[]): ShippingItem[] {
+	const expandedItems: ShippingItem[] = [];
+	for (const item of items) {
+		const { quantity, ...unit } = item;
+		for (let i = 0; i < getItemQuantity(item); i++) {
+			expandedItems.push(unit);
+		}
+	}
+	return expandedItems;
+}
+
 /**
  * Get all possible orientations of an item
  */
@@ -123,15 +268,15 @@ function getItemOrientations(item: ShippingItem): Array<{
  * Check if an item in a specific orientation fits at position in the box
  */
 function itemFitsAtPosition(
-	box: ShippingBox,
+	space: BoxDimensions,
 	position: Point3D,
 	orientation: { width: number; height: number; depth: number },
 	packedItems: PackedItem[]
 ): boolean {
 	if (
-		position.x + orientation.width > box.width ||
-		position.y + orientation.height > box.height ||
-		position.z + orientation.depth > box.length
+		position.x + orientation.width > space.width ||
+		position.y + orientation.height > space.height ||
+		position.z + orientation.depth > space.length
 	) {
 		return false;
 	}
@@ -151,6 +296,40 @@ function itemFitsAtPosition(
 	return true;
 }
 
+/**
+ * Check that a satchel's or tube's contents still fit its packaging with an item added at position.
+ * Rigid boxes need no check beyond itemFitsAtPosition.
+ */
+function fitsPackaging(
+	packingBox: PackingBox,
+	position: Point3D,
+	orientation: { width: number; height: number; depth: number }
+): boolean {
+	if (getPackagingType(packingBox.box) === "box") {
+		return true;
+	}
+	const extents: BoxDimensions = {
+		length: position.z + orientation.depth,
+		width: position.x + orientation.width,
+		height: position.y + orientation.height,
+	};
+	for (const packedItem of packingBox.packedItems) {
+		extents.length = Math.max(
+			extents.length,
+			packedItem.position.z + packedItem.dimensions.depth
+		);
+		extents.width = Math.max(
+			extents.width,
+			packedItem.position.x + packedItem.dimensions.width
+		);
+		extents.height = Math.max(
+			extents.height,
+			packedItem.position.y + packedItem.dimensions.height
+		);
+	}
+	return contentsFitPackaging(packingBox.box, extents);
+}
+
 /**
  * Generate new extreme points after adding an item
  */
@@ -210,29 +389,145 @@ function filterAndSortPoints(points: Point3D[]): Point3D[] {
 	});
 }
 
+/**
+ * The item axis that points up (along the box height) in each of the six
+ * rotations returned by getItemOrientations, indexed by rotation.
+ */
+const ROTATION_VERTICAL_AXES: ItemAxis[] = [
+	"height",
+	"height",
+	"length",
+	"width",
+	"width",
+	"length",
+];
+
+/**
+ * Get the rotation indexes an item may be packed in.
+ * thisSideUp keeps the item's own height vertical, allowedOrientations lists
+ * which of the item's axes may point up. Without either, all six rotations are allowed.
+ */
+function getAllowedRotations(item: ShippingItem): number[] {
+	let allowedAxes: ItemAxis[] =
+		item.allowedOrientations && item.allowedOrientations.length > 0
+			? item.allowedOrientations
+			: ["length", "width", "height"];
+	if (item.thisSideUp) {
+		allowedAxes = allowedAxes.filter((axis) => axis === "height");
+	}
+	return ROTATION_VERTICAL_AXES.map((axis, index) =>
+		allowedAxes.includes(axis) ? index : -1
+	).filter((index) => index >= 0);
+}
+
+/**
+ * Check whether an item carries any orientation or stacking constraints.
+ */
+function hasPackingConstraints(item: ShippingItem): boolean {
+	return (
+		(item.allowedOrientations !== undefined &&
+			item.allowedOrientations.length > 0) ||
+		item.thisSideUp === true ||
+		item.fragile === true ||
+		item.maxLoadOnTop !== undefined
+	);
+}
+
+/**
+ * Check whether an item can carry a given weight (grams) resting on top of it.
+ */
+function canCarryLoad(item: ShippingItem, load: number): boolean {
+	if (load <= 0) return true;
+	if (item.fragile) return false;
+	if (item.maxLoadOnTop !== undefined) return load <= item.maxLoadOnTop;
+	return true;
+}
+
+/**
+ * Check whether two placed items overlap when viewed from above.
+ */
+function footprintsOverlap(
+	a: { position: Point3D; dimensions: PackedItem["dimensions"] },
+	b: { position: Point3D; dimensions: PackedItem["dimensions"] }
+): boolean {
+	return (
+		a.position.x < b.position.x + b.dimensions.width &&
+		a.position.x + a.dimensions.width > b.position.x &&
+		a.position.z < b.position.z + b.dimensions.depth &&
+		a.position.z + a.dimensions.depth > b.position.z
+	);
+}
+
+/**
+ * Check fragile and maxLoadOnTop rules for an item placed at a position.
+ * Every item underneath the new item must be able to carry its existing load plus
+ * the new item's weight, and the new item must be able to carry anything already above it.
+ */
+function stackingAllowed(
+	item: ShippingItem,
+	position: Point3D,
+	orientation: { width: number; height: number; depth: number },
+	packedItems: PackedItem[]
+): boolean {
+	const candidate = { position, dimensions: orientation };
+	let loadOnCandidate = 0;
+
+	for (const packedItem of packedItems) {
+		if (!footprintsOverlap(candidate, packedItem)) continue;
+
+		const packedTop = packedItem.position.y + packedItem.dimensions.height;
+		if (position.y >= packedTop) {
+			// The new item would sit above this packed item
+			const existingLoad = packedItems
+				.filter(
+					(other) =>
+						other !== packedItem &&
+						other.position.y >= packedTop &&
+						footprintsOverlap(other, packedItem)
+				)
+				.reduce((sum, other) => sum + other.item.weight, 0);
+			if (!canCarryLoad(packedItem.item, existingLoad + item.weight)) {
+				return false;
+			}
+		} else if (position.y + orientation.height <= packedItem.position.y) {
+			// This packed item already sits above the new item
+			loadOnCandidate += packedItem.item.weight;
+		}
+	}
+	return canCarryLoad(item, loadOnCandidate);
+}
+
 /**
  * Try to pack an item into a specific box
+ * When enforceConstraints is false, orientation and stacking rules are ignored.
+ * This is only used to measure how many extra boxes the constraints cost.
  */
-function packItemIntoBox(item: ShippingItem, packingBox: PackingBox): boolean {
+function packItemIntoBox(
+	item: ShippingItem,
+	packingBox: PackingBox,
+	enforceConstraints: boolean = true
+): boolean {
 	if (item.weight > packingBox.remainingWeight) {
 		return false;
 	}
 	const orientations = getItemOrientations(item);
+	const rotations = enforceConstraints
+		? getAllowedRotations(item)
+		: orientations.map((_, index) => index);
 
 	for (const point of packingBox.extremePoints) {
-		for (
-			let rotationIndex = 0;
-			rotationIndex < orientations.length;
-			rotationIndex++
-		) {
+		for (const rotationIndex of rotations) {
 			const orientation = orientations[rotationIndex];
 			if (
 				itemFitsAtPosition(
-					packingBox.box,
+					packingBox.usableSpace,
 					point,
 					orientation,
 					packingBox.packedItems
-				)
+				) &&
+				fitsPackaging(packingBox, point, orientation) &&
+				(!enforceConstraints ||
+					stackingAllowed(item, point, orientation, packingBox.packedItems))
 			) {
 				const packedItem: PackedItem = {
 					item,
@@ -253,26 +548,110 @@ function packItemIntoBox(item: ShippingItem, packingBox: PackingBox): boolean {
 	return false;
 }
 
+/**
+ * Try to pack an item into a box by building walls across the box's width and height.
+ * Units fill a row along the width, rows stack up the height, and when a wall is full
+ * a new wall starts behind it. The current row and wall are worked out from the last
+ * placed unit, so the box needs no extra state. Extreme points are not used.
+ */
+function packItemInWalls(
+	item: ShippingItem,
+	packingBox: PackingBox,
+	enforceConstraints: boolean = true
+): boolean {
+	if (item.weight > packingBox.remainingWeight) {
+		return false;
+	}
+	const orientations = getItemOrientations(item);
+	const rotations = (
+		enforceConstraints
+			? getAllowedRotations(item)
+			: orientations.map((_, index) => index)
+	).sort(
+		(a, b) =>
+			orientations[a].depth - orientations[b].depth ||
+			orientations[a].height - orientations[b].height
+	); // Thinnest walls first
+
+	const { packedItems } = packingBox;
+	const last = packedItems[packedItems.length - 1];
+	const candidatePoints: Point3D[] = [];
+	if (!last) {
+		candidatePoints.push({ x: 0, y: 0, z: 0 });
+	} else {
+		const wallZ = last.position.z;
+		const rowY = last.position.y;
+		const wallItems = packedItems.filter((p) => p.position.z === wallZ);
+		const wallDepth = Math.max(...wallItems.map((p) => p.dimensions.depth));
+		const rowHeight = Math.max(
+			...wallItems
+				.filter((p) => p.position.y === rowY)
+				.map((p) => p.dimensions.height)
+		);
+		candidatePoints.push(
+			{ x: last.position.x + last.dimensions.width, y: rowY, z: wallZ }, // Continue the row
+			{ x: 0, y: rowY + rowHeight, z: wallZ }, // Start a new row
+			{ x: 0, y: 0, z: wallZ + wallDepth } // Start a new wall
+		);
+	}
+
+	for (const point of candidatePoints) {
+		for (const rotationIndex of rotations) {
+			const orientation = orientations[rotationIndex];
+			if (
+				itemFitsAtPosition(
+					packingBox.usableSpace,
+					point,
+					orientation,
+					packedItems
+				) &&
+				fitsPackaging(packingBox, point, orientation) &&
+				(!enforceConstraints ||
+					stackingAllowed(item, point, orientation, packedItems))
+			) {
+				packedItems.push({
+					item,
+					position: point,
+					rotation: rotationIndex,
+					dimensions: orientation,
+				});
+				packingBox.remainingWeight -= item.weight;
+				return true;
+			}
+		}
+	}
+	return false;
+}
+
 /**
  * Create a new packing box from a ShippingBox
+ * Items are packed into the usable space inside the padding, and the box's
+ * tare weight is taken off its weight capacity. A satchel's space is its flat size,
+ * checked against its perimeter as items go in.
  */
 function createPackingBox(box: ShippingBox): PackingBox {
 	return {
 		box,
+		usableSpace: getPackingExtents(box),
 		packedItems: [],
 		extremePoints: [{ x: 0, y: 0, z: 0 }],
-		remainingWeight: box.maxWeight,
+		remainingWeight: getContentsCapacity(box),
 	};
 }
 
 /**
  * Calculate box preference score (lower is better)
+ * Boxes with no stock on hand are penalised so they are only opened when no box in stock fits.
  */
 function calculateBoxPreference(
 	box: ShippingBox,
 	longestItemLength: number = 0
 ): number {
-	const volume = box.length * box.width * box.height;
+	const volume =
+		box.length *
+		box.width *
+		box.height *
+		(isBoxInStock(box) ? 1 : OUT_OF_STOCK_PENALTY_FACTOR);
 	if (
 		box.length > EXTREME_LENGTH_THRESHOLD &&
 		longestItemLength < EXTREME_LENGTH_THRESHOLD
@@ -293,31 +672,11 @@ function calculateBoxPreference(
 }
 
 /**
- * Calculates the best box size for a single set of items.
+ * Get the longest single dimension across a set of units.
  */
-export function findBestBox(itemsToPack: ShippingItem[]): {
-	success: boolean;
-	box: ShippingBox | null;
-	packedItems: ShippingItem[];
-	unfitItems: ShippingItem[];
-} {
-	if (itemsToPack.length === 0) {
-		return {
-			success: true,
-			box: standardBoxes[0], // Default to smallest box for empty list
-			packedItems: [],
-			unfitItems: [],
-		};
-	}
-
-	const expandedItems: ShippingItem[] = [];
-	for (const item of itemsToPack) {
-		// If you need to handle multiple quantities, repeat the item in the input array.
-		expandedItems.push(item);
-	}
-
+function getLongestDimension(units: ShippingItem[]): number {
 	let longestItemDimension = 0;
-	for (const item of expandedItems) {
+	for (const item of units) {
 		longestItemDimension = Math.max(
 			longestItemDimension,
 			item.length,
@@ -325,222 +684,1722 @@ export function findBestBox(itemsToPack: ShippingItem[]): {
 			item.height
 		);
 	}
+	return longestItemDimension;
+}
 
-	const sortedBoxes = [...standardBoxes].sort((a, b) => {
+/**
+ * Sort boxes by preference (most preferred first) for a set of units.
+ */
+function sortBoxesByPreference(
+	boxes: ShippingBox[],
+	units: ShippingItem[]
+): ShippingBox[] {
+	const longestItemDimension = getLongestDimension(units);
+	return [...boxes].sort((a, b) => {
 		return (
 			calculateBoxPreference(a, longestItemDimension) -
 			calculateBoxPreference(b, longestItemDimension)
 		);
 	});
+}
 
+/**
+ * Move satchels ahead of boxes and tubes, keeping each group's preference order.
+ * Used by findBestBox, which takes a satchel whenever the contents fit one.
+ * Boxes with no stock stay behind every box in stock.
+ */
+function preferSatchels(sortedBoxes: ShippingBox[]): ShippingBox[] {
+	const rank = (box: ShippingBox) =>
+		(isBoxInStock(box) ? 0 : 2) + (getPackagingType(box) === "satchel" ? 0 : 1);
+	return [...sortedBoxes].sort((a, b) => rank(a) - rank(b));
+}
+
+/**
+ * Choose the boxes to pack into given their stock. With "skip", boxes with no stock are never used.
+ * With "penalise" they are dropped as long as every unit fits a box in stock on its own,
+ * so the packer only reaches for them when a unit has nowhere else to go.
+ */
+function getStockedBoxes(
+	boxes: ShippingBox[],
+	units: ShippingItem[],
+	policy: OutOfStockPolicy = "penalise"
+): ShippingBox[] {
+	const inStock = boxes.filter(isBoxInStock);
+	if (policy === "skip" || inStock.length === boxes.length) {
+		return inStock;
+	}
+	const sortedInStock = sortBoxesByPreference(inStock, units);
+	// Units of one line are identical copies, so each distinct unit is only checked once
+	const checked = new Set<string>();
+	for (const unit of units) {
+		const key = JSON.stringify(unit);
+		if (checked.has(key)) continue;
+		checked.add(key);
+		if (!packIntoSingleBox([unit], sortedInStock, true)) {
+			return boxes;
+		}
+	}
+	return inStock;
+}
+
+/**
+ * Pack every unit into the first box (in preference order) that holds them all.
+ * Returns null if no single box can hold every unit.
+ */
+function packIntoSingleBox(
+	units: ShippingItem[],
+	sortedBoxes: ShippingBox[],
+	enforceConstraints: boolean,
+	placeUnit: UnitPlacer = packItemIntoBox,
+	deadline?: number
+): PackingBox | null {
 	for (const box of sortedBoxes) {
+		if (isPastDeadline(deadline)) {
+			return null;
+		}
 		const packingBox = createPackingBox(box);
 		let allFit = true;
-		for (const item of expandedItems) {
-			if (!packItemIntoBox(item, packingBox)) {
+		for (const item of units) {
+			if (!placeUnit(item, packingBox, enforceConstraints)) {
 				allFit = false;
 				break;
 			}
 		}
 		if (allFit) {
-			const groupedItems = groupPackedItemsByOriginal(
-				packingBox.packedItems,
-				itemsToPack
-			);
-			return {
-				success: true,
-				box,
-				packedItems: groupedItems,
-				unfitItems: [],
-			};
+			return packingBox;
 		}
 	}
-
-	return {
-		success: false,
-		box: null,
-		packedItems: [],
-		unfitItems: itemsToPack, // Return original items if no box fits
-	};
+	return null;
 }
 
 /**
- * Group packed items back to their original form with proper quantities
+ * Check whether a packing deadline (epoch milliseconds) has passed. Without a deadline it never does.
  */
-function groupPackedItemsByOriginal(
-	packedItems: PackedItem[],
-	originalItems: ShippingItem[]
-): ShippingItem[] {
-	// Since ShippingItem no longer has quantity, just return the packed items as-is.
-	return packedItems.map((p) => p.item);
+function isPastDeadline(deadline?: number): boolean {
+	return deadline !== undefined && Date.now() >= deadline;
 }
 
 /**
- * Check if a set of items has similar dimensions
+ * Places one unit into an open box, returning false if it does not fit.
  */
-/* // This function seems to be unused in the provided multi-box packing logic, 
-   // but retained for now in case it's needed or was part of a different strategy.
-function itemsAreUniform(items: ShippingItem[]): boolean {
-	let lengthsArray: number[] = [];
-	items.forEach((item) => {
-		const qty = item.quantity || 1;
-		for (let i = 0; i < qty; i++) {
-			lengthsArray.push(item.length);
-		}
-	});
-
-	const maxItemLength = Math.max(...items.map((item) => item.length));
-
-	return (
-		lengthsArray.length > 0 &&
-		new Set(lengthsArray).size <= 3 && 
-		maxItemLength <= MAX_PREFERRED_LENGTH
-	); 
-}
-*/
+type UnitPlacer = (
+	item: ShippingItem,
+	packingBox: PackingBox,
+	enforceConstraints: boolean
+) => boolean;
 
 /**
- * Pack items into multiple boxes using the Extreme Point-based 3D bin packing algorithm
+ * Packs sorted units across as many boxes as needed, opening boxes in the given order.
+ * Stops when the deadline passes, leaving the remaining units unfit.
  */
-export function packItemsIntoMultipleBoxes(
-	itemsToPack: ShippingItem[]
-): MultiBoxPackingResult {
-	if (itemsToPack.length === 0) {
-		return {
-			success: true,
-			shipments: [],
-			unfitItems: [],
-		};
-	}
+type MultiBoxPacker = (
+	units: ShippingItem[],
+	orderedBoxes: ShippingBox[],
+	enforceConstraints: boolean,
+	placeUnit: UnitPlacer,
+	deadline?: number
+) => PackingRun;
 
-	// console.log("[BoxCalc] Starting Extreme Point-based packing algorithm"); // Optional: for debugging
-	console.log(
-		`[BoxCalc] packItemsIntoMultipleBoxes called. itemsToPack:`,
-		itemsToPack
-	);
+/**
+ * Run a packing algorithm on individual units.
+ * Tries the single-box shortcut first, then falls back to multi-box packing.
+ * Defaults to extreme-point placement with first-fit box selection.
+ */
+function packUnits(
+	units: ShippingItem[],
+	boxes: ShippingBox[],
+	enforceConstraints: boolean,
+	placeUnit: UnitPlacer = packItemIntoBox,
+	packMultiple: MultiBoxPacker = packFirstFit,
+	deadline?: number
+): PackingRun {
+	const sortedStandardBoxes = sortBoxesByPreference(boxes, units);
 
 	// Attempt to pack all items into a single box first.
 	// This is often the most cost-effective and simplest solution.
-	const singleBoxResult = findBestBox([...itemsToPack]); // Use a copy for safety
-	if (singleBoxResult.success && singleBoxResult.box) {
+	const singleBox = packIntoSingleBox(
+		units,
+		sortedStandardBoxes,
+		enforceConstraints,
+		placeUnit,
+		deadline
+	);
+	if (singleBox) {
 		// Determine if an extremely long box was chosen and if it was necessary
-		let longestItemDim = 0;
-		for (const item of itemsToPack) {
-			longestItemDim = Math.max(
-				longestItemDim,
-				item.length,
-				item.width,
-				item.height
-			);
-		}
-		const needsLongBox = longestItemDim >= EXTREME_LENGTH_THRESHOLD;
+		const needsLongBox = getLongestDimension(units) >= EXTREME_LENGTH_THRESHOLD;
 
 		// If a standard box was found, or an extreme box was needed and found, use it.
-		if (singleBoxResult.box.length < EXTREME_LENGTH_THRESHOLD || needsLongBox) {
+		if (singleBox.box.length < EXTREME_LENGTH_THRESHOLD || needsLongBox) {
 			return {
-				success: true,
-				shipments: [
-					{
-						box: singleBoxResult.box,
-						packedItems: singleBoxResult.packedItems,
-					},
-				],
-				unfitItems: [],
+				packingBoxes: [singleBox],
+				unfitUnits: [],
+				singleBoxShortcut: true,
 			};
 		}
 		// If an extremely long box was chosen but not strictly necessary,
 		// proceed to multi-box to see if a better (less penalized) combination exists.
 	}
 
-	const expandedItems: ShippingItem[] = [];
-	for (const item of itemsToPack) {
-		// If you need to handle multiple quantities, repeat the item in the input array.
-		expandedItems.push(item);
-	}
+	return packMultiple(
+		sortUnitsByVolume(units),
+		sortedStandardBoxes,
+		enforceConstraints,
+		placeUnit,
+		deadline
+	);
+}
 
-	expandedItems.sort((a, b) => {
+/**
+ * Sort units largest volume first, the order the first-fit packer works best with.
+ */
+function sortUnitsByVolume(units: ShippingItem[]): ShippingItem[] {
+	return [...units].sort((a, b) => {
 		const volA = a.length * a.width * a.height;
 		const volB = b.length * b.width * b.height;
 		return volB - volA; // Largest volume first
 	});
+}
 
-	// console.log(`[BoxCalc] Processing ${expandedItems.length} individual items for multi-box`); // Optional
-
+/**
+ * First-fit multi-box packing: each unit goes into the first open box it fits,
+ * otherwise into a new box of the first type (in the given order) that can hold it.
+ */
+function packFirstFit(
+	units: ShippingItem[],
+	orderedBoxes: ShippingBox[],
+	enforceConstraints: boolean,
+	placeUnit: UnitPlacer = packItemIntoBox,
+	deadline?: number
+): PackingRun {
 	const packingBoxes: PackingBox[] = [];
-	const currentUnfitItems: ShippingItem[] = [];
-
-	let longestItemDimension = 0;
-	for (const item of expandedItems) {
-		longestItemDimension = Math.max(
-			longestItemDimension,
-			item.length,
-			item.width,
-			item.height
-		);
-	}
-
-	const sortedStandardBoxes = [...standardBoxes].sort((a, b) => {
-		return (
-			calculateBoxPreference(a, longestItemDimension) -
-			calculateBoxPreference(b, longestItemDimension)
-		);
-	});
+	const unfitUnits: ShippingItem[] = [];
 
-	for (const item of expandedItems) {
+	for (const [index, item] of units.entries()) {
+		if (isPastDeadline(deadline)) {
+			unfitUnits.push(...units.slice(index));
+			return { packingBoxes, unfitUnits, timedOut: true };
+		}
 		let packed = false;
 		for (const pBox of packingBoxes) {
-			if (packItemIntoBox(item, pBox)) {
+			if (placeUnit(item, pBox, enforceConstraints)) {
 				packed = true;
 				break;
 			}
 		}
 
 		if (!packed) {
-			for (const boxTemplate of sortedStandardBoxes) {
-				const newPackingBox = createPackingBox(boxTemplate);
-				if (packItemIntoBox(item, newPackingBox)) {
-					packingBoxes.push(newPackingBox);
-					packed = true;
-					break;
-				}
-			}
+			packed = openBoxForUnit(
+				item,
+				orderedBoxes,
+				packingBoxes,
+				enforceConstraints,
+				placeUnit
+			);
 		}
 
 		if (!packed) {
-			currentUnfitItems.push(item);
+			unfitUnits.push(item);
 		}
 	}
 
-	const shipments = packingBoxes.map((pBox) => {
-		const groupedPackedItems = groupPackedItemsByOriginal(
-			pBox.packedItems,
-			itemsToPack // Group against the original list to restore original quantities
-		);
-		return {
-			box: pBox.box,
-			packedItems: groupedPackedItems,
-		};
-	});
+	return { packingBoxes, unfitUnits };
+}
 
-	// Group unfit items based on the original items list
-	const groupedUnfitItems = groupPackedItemsByOriginal(
-		currentUnfitItems.map((item) => ({
-			// Convert ShippingItem[] to PackedItem[] for grouping
-			item,
-			position: { x: 0, y: 0, z: 0 }, // Dummy data, not used by grouping logic
-			rotation: 0,
-			dimensions: {
-				width: item.width,
-				height: item.height,
-				depth: item.length,
-			}, // Dummy
-		})),
-		itemsToPack
-	);
+/**
+ * Open a new box of the first type (in the given order) that can hold the unit.
+ * Returns false if no box type can.
+ */
+function openBoxForUnit(
+	item: ShippingItem,
+	orderedBoxes: ShippingBox[],
+	packingBoxes: PackingBox[],
+	enforceConstraints: boolean,
+	placeUnit: UnitPlacer
+): boolean {
+	for (const boxTemplate of orderedBoxes) {
+		const newPackingBox = createPackingBox(boxTemplate);
+		if (placeUnit(item, newPackingBox, enforceConstraints)) {
+			packingBoxes.push(newPackingBox);
+			return true;
+		}
+	}
+	return false;
+}
 
+/**
+ * Copy a packing box so a placement can be tried without changing the original.
+ */
+function clonePackingBox(packingBox: PackingBox): PackingBox {
 	return {
-		success: groupedUnfitItems.length === 0,
+		...packingBox,
+		packedItems: [...packingBox.packedItems],
+		extremePoints: [...packingBox.extremePoints],
+	};
+}
+
+/**
+ * Best-fit multi-box packing: each unit goes into the open box it leaves with the
+ * least free volume, otherwise into a new box of the first type that can hold it.
+ */
+function packBestFit(
+	units: ShippingItem[],
+	orderedBoxes: ShippingBox[],
+	enforceConstraints: boolean,
+	placeUnit: UnitPlacer = packItemIntoBox,
+	deadline?: number
+): PackingRun {
+	const packingBoxes: PackingBox[] = [];
+	const unfitUnits: ShippingItem[] = [];
+
+	for (const [unitIndex, item] of units.entries()) {
+		if (isPastDeadline(deadline)) {
+			unfitUnits.push(...units.slice(unitIndex));
+			return { packingBoxes, unfitUnits, timedOut: true };
+		}
+		let best: { index: number; trial: PackingBox; freeVolume: number } | null =
+			null;
+		packingBoxes.forEach((pBox, index) => {
+			const trial = clonePackingBox(pBox);
+			if (placeUnit(item, trial, enforceConstraints)) {
+				const freeVolume = getUsableVolume(trial) - getPackedVolume(trial);
+				if (!best || freeVolume < best.freeVolume) {
+					best = { index, trial, freeVolume };
+				}
+			}
+		});
+
+		if (best) {
+			const { index, trial } = best;
+			packingBoxes[index] = trial;
+		} else if (
+			!openBoxForUnit(
+				item,
+				orderedBoxes,
+				packingBoxes,
+				enforceConstraints,
+				placeUnit
+			)
+		) {
+			unfitUnits.push(item);
+		}
+	}
+
+	return { packingBoxes, unfitUnits };
+}
+
+/**
+ * The packing algorithms available to packItemsIntoMultipleBoxes.
+ */
+const PACKING_STRATEGY_REGISTRY: Record<PackingAlgorithmName, PackingStrategy> =
+	{
+		"extreme-point": {
+			name: "extreme-point",
+			description:
+				"Places units at extreme points, first-fit across boxes, largest volume first.",
+			pack: (units, boxes, enforceConstraints, deadline) =>
+				packUnits(
+					units,
+					boxes,
+					enforceConstraints,
+					packItemIntoBox,
+					packFirstFit,
+					deadline
+				),
+		},
+		layer: {
+			name: "layer",
+			description:
+				"Builds rows and walls across the box, first-fit across boxes, largest volume first.",
+			pack: (units, boxes, enforceConstraints, deadline) =>
+				packUnits(
+					units,
+					boxes,
+					enforceConstraints,
+					packItemInWalls,
+					packFirstFit,
+					deadline
+				),
+		},
+		"best-fit-decreasing": {
+			name: "best-fit-decreasing",
+			description:
+				"Places units at extreme points in the open box they fill most tightly, largest volume first.",
+			pack: (units, boxes, enforceConstraints, deadline) =>
+				packUnits(
+					units,
+					boxes,
+					enforceConstraints,
+					packItemIntoBox,
+					packBestFit,
+					deadline
+				),
+		},
+	};
+
+/**
+ * Algorithms accepted by the algorithm packing option, plus "compare" to run them all.
+ */
+export const PACKING_ALGORITHMS: PackingAlgorithmName[] = Object.keys(
+	PACKING_STRATEGY_REGISTRY
+) as PackingAlgorithmName[];
+
+/**
+ * Ways a compare run can rank the algorithms' results.
+ */
+export const PACKING_COMPARE_METRICS: PackingCompareMetric[] = [
+	"boxes",
+	"cost",
+	"fill",
+];
+
+/**
+ * Get a packing strategy by name.
+ */
+export function getPackingStrategy(
+	name: PackingAlgorithmName
+): PackingStrategy {
+	return PACKING_STRATEGY_REGISTRY[name];
+}
+
+/**
+ * Get the weight of a packing box's contents in grams.
+ */
+function getContentsWeight(packingBox: PackingBox): number {
+	return packingBox.packedItems.reduce((sum, p) => sum + p.item.weight, 0);
+}
+
+/**
+ * Total price of a packing run. Boxes no configured service can carry count as
+ * Infinity, so a run the carriers can take always beats one they can't.
+ */
+function priceRun(run: PackingRun, rateTable: RateTable): number {
+	return run.packingBoxes.reduce((total, pBox) => {
+		const price = priceShipment(pBox.box, getContentsWeight(pBox), rateTable);
+		return total + (price ? price.total : Infinity);
+	}, 0);
+}
+
+/**
+ * Move each box's contents into the cheapest single box type that still holds them.
+ */
+function downsizeBoxesByCost(
+	run: PackingRun,
+	boxes: ShippingBox[],
+	rateTable: RateTable
+): PackingRun {
+	const packingBoxes = run.packingBoxes.map((pBox) => {
+		const units = pBox.packedItems.map((p) => p.item);
+		let cheapest = pBox;
+		let cheapestPrice = priceRun(
+			{ packingBoxes: [pBox], unfitUnits: [] },
+			rateTable
+		);
+		for (const box of boxes) {
+			if (box === pBox.box) continue;
+			const candidate = packIntoSingleBox(units, [box], true);
+			if (!candidate) continue;
+			const candidatePrice = priceRun(
+				{ packingBoxes: [candidate], unfitUnits: [] },
+				rateTable
+			);
+			if (candidatePrice < cheapestPrice) {
+				cheapest = candidate;
+				cheapestPrice = candidatePrice;
+			}
+		}
+		return cheapest;
+	});
+	return { ...run, packingBoxes };
+}
+
+/**
+ * Choose the cheapest packing using the local rate table.
+ * Candidates are the given strategy's packing, every box type that holds all
+ * units on its own, and a first-fit packing that opens each box type first. Each
+ * candidate's boxes are then downsized to the cheapest box that still holds them.
+ * Fewer unfit units always wins, then lower total price, then fewer boxes.
+ * When the deadline passes, the cheapest candidate so far is returned, marked timedOut.
+ */
+function packUnitsByCost(
+	units: ShippingItem[],
+	boxes: ShippingBox[],
+	rateTable: RateTable,
+	strategy: PackingStrategy,
+	deadline?: number
+): PackingRun {
+	const sortedBoxes = sortBoxesByPreference(boxes, units);
+	const sortedUnits = sortUnitsByVolume(units);
+	const candidates: PackingRun[] = [
+		strategy.pack(units, boxes, true, deadline),
+	];
+	let timedOut = candidates[0].timedOut === true;
+
+	for (const box of sortedBoxes) {
+		if (timedOut || isPastDeadline(deadline)) {
+			timedOut = true;
+			break;
+		}
+		const singleBox = packIntoSingleBox(units, [box], true);
+		if (singleBox) {
+			candidates.push({
+				packingBoxes: [singleBox],
+				unfitUnits: [],
+				singleBoxShortcut: true,
+			});
+		}
+		const boxFirst = [box, ...sortedBoxes.filter((other) => other !== box)];
+		const boxFirstRun = packFirstFit(
+			sortedUnits,
+			boxFirst,
+			true,
+			packItemIntoBox,
+			deadline
+		);
+		timedOut = boxFirstRun.timedOut === true;
+		candidates.push(boxFirstRun);
+	}
+
+	let best: { run: PackingRun; price: number } | null = null;
+	for (const candidate of candidates) {
+		const run = downsizeBoxesByCost(candidate, sortedBoxes, rateTable);
+		const price = priceRun(run, rateTable);
+		if (
+			!best ||
+			run.unfitUnits.length < best.run.unfitUnits.length ||
+			(run.unfitUnits.length === best.run.unfitUnits.length &&
+				(price < best.price ||
+					(price === best.price &&
+						run.packingBoxes.length < best.run.packingBoxes.length)))
+		) {
+			best = { run, price };
+		}
+	}
+	return timedOut ? { ...best!.run, timedOut } : best!.run;
+}
+
+/**
+ * Measure what orientation and stacking constraints cost by repacking the same
+ * units with the constraints ignored. Returns undefined if no item is constrained,
+ * the constraints did not force any extra boxes or unfit units, or the deadline passed.
+ */
+function getConstraintImpact(
+	unitGroups: ShippingItem[][],
+	boxes: ShippingBox[],
+	run: PackingRun,
+	strategy: PackingStrategy,
+	deadline?: number
+): ConstraintImpact | undefined {
+	const constrainedSkus = Array.from(
+		new Set(
+			unitGroups.flat().filter(hasPackingConstraints).map(getItemGroupKey)
+		)
+	);
+	if (constrainedSkus.length === 0) {
+		return undefined;
+	}
+
+	// Segregation still applies, so only orientation and stacking rules are relaxed
+	const relaxedRun = packEachGroup(unitGroups, (units) =>
+		strategy.pack(units, boxes, false, deadline)
+	);
+	if (relaxedRun.timedOut) {
+		return undefined;
+	}
+	const extraBoxes = run.packingBoxes.length - relaxedRun.packingBoxes.length;
+	const extraUnfitUnits = run.unfitUnits.length - relaxedRun.unfitUnits.length;
+	if (extraBoxes <= 0 && extraUnfitUnits <= 0) {
+		return undefined;
+	}
+
+	const effects: string[] = [];
+	if (extraBoxes > 0) effects.push(`${extraBoxes} extra box(es)`);
+	if (extraUnfitUnits > 0) effects.push(`${extraUnfitUnits} unfit unit(s)`);
+	return {
+		extraBoxes: Math.max(0, extraBoxes),
+		extraUnfitUnits: Math.max(0, extraUnfitUnits),
+		constrainedSkus,
+		message: `Orientation or stacking constraints on ${constrainedSkus.join(
+			", "
+		)} caused ${effects.join(" and ")}.`,
+	};
+}
+
+/**
+ * Pack each segregation group on its own and combine the runs, so units from
+ * different groups never share a box. The single-box shortcut only counts with one group.
+ */
+function packEachGroup(
+	unitGroups: ShippingItem[][],
+	pack: (units: ShippingItem[]) => PackingRun
+): PackingRun {
+	if (unitGroups.length === 1) {
+		return pack(unitGroups[0]);
+	}
+	const runs = unitGroups.map(pack);
+	const run: PackingRun = {
+		packingBoxes: runs.flatMap((groupRun) => groupRun.packingBoxes),
+		unfitUnits: runs.flatMap((groupRun) => groupRun.unfitUnits),
+	};
+	if (runs.some((groupRun) => groupRun.timedOut)) {
+		run.timedOut = true;
+	}
+	return run;
+}
+
+/**
+ * Calculates the best box size for a single set of items.
+ * Uses options.boxes if provided, otherwise loads the active catalogue.
+ * If the time budget runs out before a box holding everything is found, no box is chosen and the result is marked timedOut.
+ */
+export async function findBestBox(
+	itemsToPack: PackingItem[],
+	options: PackingOptions = {}
+): Promise<BestBoxResult> {
+	const catalogue = options.boxes ?? (await getActiveBoxes());
+	// Out-of-stock boxes sort last, so one is only chosen when no box in stock holds everything
+	const boxes =
+		options.outOfStock === "skip" ? catalogue.filter(isBoxInStock) : catalogue;
+	const expandedItems = expandItemsByQuantity(itemsToPack);
+
+	if (expandedItems.length === 0) {
+		return {
+			success: true,
+			box: boxes[0] ?? null, // Default to first catalogue box for empty list
+			packedItems: [],
+			unfitItems: [],
+		};
+	}
+
+	if (groupUnitsForSegregation(expandedItems).length > 1) {
+		console.log(
+			`[BoxCalc] Items must be segregated, so no single box can take them all.`
+		);
+		return {
+			success: false,
+			box: null,
+			packedItems: [],
+			unfitItems: groupPackedItemsByOriginal(expandedItems, itemsToPack),
+		};
+	}
+
+	const deadline =
+		options.timeBudgetMs !== undefined
+			? Date.now() + options.timeBudgetMs
+			: undefined;
+	const sortedBoxes = preferSatchels(
+		sortBoxesByPreference(boxes, expandedItems)
+	);
+	let bundling = bundleForPacking(expandedItems, boxes, options);
+	let packingBox = packIntoSingleBox(
+		bundling.units,
+		sortedBoxes,
+		true,
+		packItemIntoBox,
+		deadline
+	);
+	if (!packingBox && bundling.bundles.size > 0 && !isPastDeadline(deadline)) {
+		// Loose units can sometimes share a box that a rigid bundle can't
+		bundling = bundleForPacking(expandedItems, boxes, { bundling: false });
+		packingBox = packIntoSingleBox(
+			bundling.units,
+			sortedBoxes,
+			true,
+			packItemIntoBox,
+			deadline
+		);
+	}
+	if (packingBox) {
+		const shipment = buildShipment(
+			packingBox,
+			itemsToPack,
+			options,
+			getCubicFactor(options.cubicFactor),
+			bundling
+		);
+		shipment.selection = explainBoxChoice(
+			packingBox,
+			boxes,
+			getLongestDimension(expandedItems),
+			true,
+			"volume",
+			true
+		);
+		return {
+			success: true,
+			unfitItems: [],
+			...shipment,
+		};
+	}
+
+	const result: BestBoxResult = {
+		success: false,
+		box: null,
+		packedItems: [],
+		unfitItems: groupPackedItemsByOriginal(expandedItems, itemsToPack), // Every unit is unfit if no box fits
+	};
+	if (isPastDeadline(deadline)) {
+		console.warn(
+			`[BoxCalc] Time budget of ${options.timeBudgetMs} ms ran out before a single box was found.`
+		);
+		result.timedOut = true;
+	}
+	return result;
+}
+
+/**
+ * Bundle identical long units before packing, unless bundling is switched off.
+ * A bundle is only formed if it fits in at least one of the boxes.
+ */
+function bundleForPacking(
+	units: ShippingItem[],
+	boxes: ShippingBox[],
+	options: PackingOptions
+): BundlingResult {
+	if (options.bundling === false) {
+		return { units, bundleMembers: new Map(), bundles: new Map() };
+	}
+	return bundleLongUnits(
+		units,
+		options.bundling || {},
+		// Constrained and segregated units are packed on their own
+		(unit) => !hasPackingConstraints(unit) && !hasSegregationRules(unit),
+		(bundleUnit) => packIntoSingleBox([bundleUnit], boxes, true) !== null
+	);
+}
+
+/**
+ * Group individual units back to their original items with proper quantities.
+ * Units are matched to the original lines by SKU. Lines sharing a SKU are merged,
+ * using the first line's details. Items with no units are left out.
+ */
+function groupPackedItemsByOriginal(
+	units: ShippingItem[],
+	originalItems: PackingItem[]
+): PackingItem[] {
+	const unitCounts = new Map<string, number>();
+	for (const unit of units) {
+		const key = getItemGroupKey(unit);
+		unitCounts.set(key, (unitCounts.get(key) || 0) + 1);
+	}
+
+	const grouped: PackingItem[] = [];
+	const seenKeys = new Set<string>();
+	for (const original of originalItems) {
+		const key = getItemGroupKey(original);
+		if (seenKeys.has(key)) continue;
+		seenKeys.add(key);
+
+		const count = unitCounts.get(key) || 0;
+		if (count > 0) {
+			grouped.push({ ...original, quantity: count });
+		}
+	}
+	return grouped;
+}
+
+/**
+ * Convert a packing box's contents into placements in loading order.
+ */
+function getPlacements(packingBox: PackingBox): ItemPlacement[] {
+	return packingBox.packedItems.map((packedItem, index) => ({
+		...packedItem,
+		loadOrder: index + 1,
+	}));
+}
+
+/**
+ * Build a shipment from a filled packing box, grouping its units per SKU
+ * and attaching placements when they were requested.
+ */
+function buildShipment(
+	packingBox: PackingBox,
+	originalItems: PackingItem[],
+	options: PackingOptions,
+	cubicFactor: number,
+	bundling: BundlingResult
+): PackingShipment {
+	const packedUnits = packingBox.packedItems.map((p) => p.item);
+	const shipment: PackingShipment = {
+		box: packingBox.box,
+		packedItems: groupPackedItemsByOriginal(
+			unbundleUnits(packedUnits, bundling.bundleMembers),
+			originalItems // Group against the original list to restore original quantities
+		),
+		outerDimensions: getOuterDimensions(packingBox.box),
+		weights: calculateShipmentWeights(packingBox, cubicFactor),
+	};
+	const bundles = packedUnits
+		.map((unit) => bundling.bundles.get(unit))
+		.filter((bundle): bundle is PackingBundle => bundle !== undefined);
+	if (bundles.length > 0) {
+		shipment.bundles = bundles;
+	}
+	const labels = getHazardLabels(shipment.packedItems);
+	if (labels.length > 0) {
+		shipment.labels = labels;
+	}
+	if (options.includePlacements) {
+		shipment.placements = getPlacements(packingBox);
+	}
+	return shipment;
+}
+
+/**
+ * Round a weight in kilograms, a ratio or a volume to three decimal places for reporting.
+ */
+export function roundFigure(value: number): number {
+	return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Get the usable inner volume of a packing box in cubic millimeters.
+ * A satchel's volume is that of the largest rigid block it holds, not its flat size.
+ */
+function getUsableVolume(packingBox: PackingBox): number {
+	const { length, width, height } = getUsableDimensions(packingBox.box);
+	return length * width * height;
+}
+
+/**
+ * Get the total volume of the units packed into a box, in cubic millimeters.
+ */
+function getPackedVolume(packingBox: PackingBox): number {
+	return packingBox.packedItems.reduce(
+		(sum, p) => sum + p.item.length * p.item.width * p.item.height,
+		0
+	);
+}
+
+/**
+ * Calculate actual, cubic and chargeable weight and fill ratio for one packed box.
+ */
+function calculateShipmentWeights(
+	packingBox: PackingBox,
+	cubicFactor: number
+): ShipmentWeights {
+	const actualWeightKg =
+		(getContentsWeight(packingBox) + (packingBox.box.tareWeight || 0)) / 1000;
+	const cubicWeightKg = calculateCubicWeightKg(packingBox.box, cubicFactor);
+	return {
+		actualWeightKg: roundFigure(actualWeightKg),
+		cubicWeightKg: roundFigure(cubicWeightKg),
+		chargeableWeightKg: roundFigure(Math.max(actualWeightKg, cubicWeightKg)),
+		fillRatio: roundFigure(
+			getPackedVolume(packingBox) / getUsableVolume(packingBox)
+		),
+	};
+}
+
+/**
+ * One box's share of the consignment totals: its weights, the volume of its items
+ * and its usable volume, in cubic millimeters.
+ */
+interface ConsignmentShare {
+	weights: ShipmentWeights;
+	itemVolume: number;
+	boxVolume: number;
+}
+
+/**
+ * Roll shipment weights up into consignment totals.
+ * Chargeable weight is summed per box, as carriers bill each box separately.
+ * The fill ratio is total item volume over total usable volume.
+ */
+function sumConsignmentTotals(
+	shares: ConsignmentShare[],
+	cubicFactor: number
+): ConsignmentTotals {
+	const totals: ConsignmentTotals = {
+		actualWeightKg: 0,
+		cubicWeightKg: 0,
+		chargeableWeightKg: 0,
+		fillRatio: 0,
+		cubicFactor,
+		shipmentCount: shares.length,
+	};
+	let itemVolume = 0;
+	let boxVolume = 0;
+	for (const share of shares) {
+		totals.actualWeightKg += share.weights.actualWeightKg;
+		totals.cubicWeightKg += share.weights.cubicWeightKg;
+		totals.chargeableWeightKg += share.weights.chargeableWeightKg;
+		itemVolume += share.itemVolume;
+		boxVolume += share.boxVolume;
+	}
+	totals.actualWeightKg = roundFigure(totals.actualWeightKg);
+	totals.cubicWeightKg = roundFigure(totals.cubicWeightKg);
+	totals.chargeableWeightKg = roundFigure(totals.chargeableWeightKg);
+	totals.fillRatio = boxVolume > 0 ? roundFigure(itemVolume / boxVolume) : 0;
+	return totals;
+}
+
+/**
+ * Roll packed boxes up into consignment totals.
+ */
+function calculateConsignmentTotals(
+	packingBoxes: PackingBox[],
+	cubicFactor: number
+): ConsignmentTotals {
+	return sumConsignmentTotals(
+		packingBoxes.map((pBox) => ({
+			weights: calculateShipmentWeights(pBox, cubicFactor),
+			itemVolume: getPackedVolume(pBox),
+			boxVolume: getUsableVolume(pBox),
+		})),
+		cubicFactor
+	);
+}
+
+/**
+ * Turn a pallet into a box the packer can fill.
+ * The usable height is the stack limit less the deck, and the pallet's own weight is its tare.
+ */
+function palletToBox(pallet: PalletDefinition): ShippingBox {
+	return {
+		_id: `pallet:${pallet.name}`,
+		name: pallet.name,
+		length: pallet.length,
+		width: pallet.width,
+		height: Math.max(0, pallet.maxStackHeight - pallet.deckHeight),
+		maxWeight: pallet.maxWeight,
+		tareWeight: pallet.tareWeight,
+	};
+}
+
+/**
+ * Freight fallback: load units that no box could take onto pallets.
+ * Uses extreme-point placement so the stack height and weight limits are respected.
+ */
+function packOntoPallets(
+	units: ShippingItem[],
+	pallets: PalletDefinition[],
+	originalItems: PackingItem[],
+	options: PackingOptions,
+	bundling: BundlingResult
+): { freight?: FreightConsignment; unfitUnits: ShippingItem[] } {
+	const palletBoxes = pallets.map(palletToBox);
+	const run = packFirstFit(
+		sortUnitsByVolume(units),
+		sortBoxesByPreference(palletBoxes, units),
+		true
+	);
+	if (run.packingBoxes.length === 0) {
+		return { unfitUnits: run.unfitUnits };
+	}
+
+	const shipments = run.packingBoxes.map((pBox) => {
+		const pallet = pallets[palletBoxes.indexOf(pBox.box)];
+		const packedUnits = pBox.packedItems.map((p) => p.item);
+		const loadHeight = Math.max(
+			...pBox.packedItems.map((p) => p.position.y + p.dimensions.height)
+		);
+		const shipment: FreightShipment = {
+			type: "pallet",
+			pallet,
+			packedItems: groupPackedItemsByOriginal(
+				unbundleUnits(packedUnits, bundling.bundleMembers),
+				originalItems
+			),
+			stackedHeight: pallet.deckHeight + loadHeight,
+			grossWeight: getContentsWeight(pBox) + pallet.tareWeight,
+		};
+		const bundles = packedUnits
+			.map((unit) => bundling.bundles.get(unit))
+			.filter((bundle): bundle is PackingBundle => bundle !== undefined);
+		if (bundles.length > 0) {
+			shipment.bundles = bundles;
+		}
+		const labels = getHazardLabels(shipment.packedItems);
+		if (labels.length > 0) {
+			shipment.labels = labels;
+		}
+		if (options.includePlacements) {
+			shipment.placements = getPlacements(pBox);
+		}
+		return shipment;
+	});
+
+	console.log(
+		`[BoxCalc] Freight fallback loaded ${
+			units.length - run.unfitUnits.length
+		} unit(s) onto ${shipments.length} pallet(s).`
+	);
+	return {
+		freight: {
+			palletCount: shipments.length,
+			grossWeight: shipments.reduce((sum, s) => sum + s.grossWeight, 0),
+			shipments,
+		},
+		unfitUnits: run.unfitUnits,
+	};
+}
+
+/**
+ * Work out why a unit could not be packed into any of the given boxes.
+ * Checks run from the hardest limit down: length, then shape, then weight.
+ */
+function diagnoseUnfitUnit(
+	unit: ShippingItem,
+	boxes: ShippingBox[]
+): UnfitReason {
+	const longestSide = Math.max(unit.length, unit.width, unit.height);
+	const longestUsableSide = Math.max(
+		0,
+		...boxes.map((box) => {
+			const space = getPackingExtents(box);
+			return Math.max(space.length, space.width, space.height);
+		})
+	);
+	if (longestSide > longestUsableSide) {
+		return {
+			code: "LONGEST_SIDE_TOO_LONG",
+			value: longestSide,
+			limit: longestUsableSide,
+			message: `Longest side is ${longestSide} mm; the longest usable box side is ${longestUsableSide} mm.`,
+		};
+	}
+
+	const orientations = getItemOrientations(unit);
+	const rotations = getAllowedRotations(unit);
+	const roomyBoxes = boxes.filter((box) =>
+		rotations.some((rotationIndex) => {
+			const orientation = orientations[rotationIndex];
+			return contentsFitPackaging(box, {
+				length: orientation.depth,
+				width: orientation.width,
+				height: orientation.height,
+			});
+		})
+	);
+	if (roomyBoxes.length === 0) {
+		return {
+			code: "NO_ORIENTATION_FITS",
+			value: null,
+			limit: null,
+			message: hasPackingConstraints(unit)
+				? "No allowed orientation fits inside any box."
+				: "No orientation fits inside any box.",
+		};
+	}
+
+	const heaviestCapacity = Math.max(...roomyBoxes.map(getContentsCapacity));
+	if (unit.weight > heaviestCapacity) {
+		return {
+			code: "EXCEEDS_MAX_WEIGHT",
+			value: unit.weight,
+			limit: heaviestCapacity,
+			message: `Weighs ${unit.weight} g; the most a box big enough can carry is ${heaviestCapacity} g.`,
+		};
+	}
+
+	return {
+		code: "NO_PLACEMENT_FOUND",
+		value: null,
+		limit: null,
+		message: "Fits an empty box on its own, but no room was found for it.",
+	};
+}
+
+/**
+ * Attach a reason to each unfit item group.
+ * After a timeout, an item that fits an empty box was skipped rather than left without room.
+ */
+function explainUnfitItems(
+	unfitGroups: PackingItem[],
+	boxes: ShippingBox[],
+	timedOut = false
+): UnfitPackingItem[] {
+	return unfitGroups.map((item) => {
+		const { quantity, ...unit } = item;
+		const reason = diagnoseUnfitUnit(unit, boxes);
+		if (timedOut && reason.code === "NO_PLACEMENT_FOUND") {
+			return {
+				...item,
+				reason: {
+					code: "TIME_BUDGET_EXCEEDED",
+					value: null,
+					limit: null,
+					message:
+						"Fits an empty box on its own, but the time budget ran out before it was placed.",
+				},
+			};
+		}
+		return { ...item, reason };
+	});
+}
+
+/**
+ * Explain why a box was chosen: its preference score, the other boxes that
+ * could have held the same contents, and whether the single-box shortcut applied.
+ * satchelsFirst is set when satchels were tried ahead of every box.
+ */
+function explainBoxChoice(
+	packingBox: PackingBox,
+	boxes: ShippingBox[],
+	longestItemDimension: number,
+	singleBoxShortcut: boolean,
+	strategy: PackingStrategyName,
+	satchelsFirst = false
+): BoxSelection {
+	const units = packingBox.packedItems.map((p) => p.item);
+	const preferenceScore = Math.round(
+		calculateBoxPreference(packingBox.box, longestItemDimension)
+	);
+	const runnersUp: BoxRunnerUp[] = boxes
+		.filter(
+			(box) =>
+				box._id !== packingBox.box._id &&
+				packIntoSingleBox(units, [box], true) !== null
+		)
+		.map((box) => ({
+			name: box.name,
+			preferenceScore: Math.round(
+				calculateBoxPreference(box, longestItemDimension)
+			),
+		}))
+		.sort((a, b) => a.preferenceScore - b.preferenceScore)
+		.slice(0, 3);
+
+	const reason =
+		strategy === "cost"
+			? "the cheapest option found"
+			: satchelsFirst && getPackagingType(packingBox.box) === "satchel"
+			? "the most preferred satchel that holds every item, and satchels are tried before boxes"
+			: singleBoxShortcut
+			? "the most preferred box that holds every item on its own"
+			: "the most preferred box with room when it was opened";
+	const alternatives =
+		runnersUp.length > 0
+			? ` Runners-up: ${runnersUp.map((r) => r.name).join(", ")}.`
+			: " No other box could hold these items.";
+	return {
+		preferenceScore,
+		runnersUp,
+		singleBoxShortcut,
+		summary: `${packingBox.box.name} was ${reason} (score ${preferenceScore}).${alternatives}`,
+	};
+}
+
+/**
+ * Summarise one algorithm's packing run for a compare run.
+ */
+function compareRun(
+	algorithm: PackingAlgorithmName,
+	run: PackingRun,
+	cubicFactor: number
+): AlgorithmComparison {
+	const totalPrice = priceRun(run, getRateTable());
+	return {
+		algorithm,
+		boxCount: run.packingBoxes.length,
+		unfitUnits: run.unfitUnits.length,
+		totalPrice: isFinite(totalPrice)
+			? Math.round(totalPrice * 100) / 100
+			: null,
+		fillRatio: calculateConsignmentTotals(run.packingBoxes, cubicFactor)
+			.fillRatio,
+	};
+}
+
+/**
+ * Order two compare entries: negative if a is better than b.
+ * Fewer unfit units always wins, then the chosen metric decides.
+ */
+function rankComparison(
+	a: AlgorithmComparison,
+	b: AlgorithmComparison,
+	compareBy: PackingCompareMetric
+): number {
+	if (a.unfitUnits !== b.unfitUnits) {
+		return a.unfitUnits - b.unfitUnits;
+	}
+	switch (compareBy) {
+		case "cost": {
+			const priceA = a.totalPrice ?? Infinity;
+			const priceB = b.totalPrice ?? Infinity;
+			if (priceA !== priceB) return priceA - priceB;
+			return a.boxCount - b.boxCount;
+		}
+		case "fill":
+			return b.fillRatio - a.fillRatio || a.boxCount - b.boxCount;
+		default:
+			return a.boxCount - b.boxCount || b.fillRatio - a.fillRatio;
+	}
+}
+
+/**
+ * Summarise requested, packed and unfit unit counts per SKU.
+ */
+function summariseItemsBySku(
+	originalItems: PackingItem[],
+	packedGroups: PackingItem[],
+	unfitGroups: PackingItem[]
+): SkuPackingSummary[] {
+	const summaries = new Map<string, SkuPackingSummary>();
+	for (const item of originalItems) {
+		const key = getItemGroupKey(item);
+		const summary = summaries.get(key) || {
+			sku: item.sku,
+			name: item.name,
+			requested: 0,
+			packed: 0,
+			unfit: 0,
+		};
+		summary.requested += getItemQuantity(item);
+		summaries.set(key, summary);
+	}
+	for (const item of packedGroups) {
+		const summary = summaries.get(getItemGroupKey(item));
+		if (summary) summary.packed += item.quantity || 0;
+	}
+	for (const item of unfitGroups) {
+		const summary = summaries.get(getItemGroupKey(item));
+		if (summary) summary.unfit += item.quantity || 0;
+	}
+	return Array.from(summaries.values());
+}
+
+/**
+ * Check if a set of items has similar dimensions
+ */
+/* // This function seems to be unused in the provided multi-box packing logic, 
+   // but retained for now in case it's needed or was part of a different strategy.
+function itemsAreUniform(items: ShippingItem[]): boolean {
+	let lengthsArray: number[] = [];
+	items.forEach((item) => {
+		const qty = item.quantity || 1;
+		for (let i = 0; i < qty; i++) {
+			lengthsArray.push(item.length);
+		}
+	});
+
+	const maxItemLength = Math.max(...items.map((item) => item.length));
+
+	return (
+		lengthsArray.length > 0 &&
+		new Set(lengthsArray).size <= 3 && 
+		maxItemLength <= MAX_PREFERRED_LENGTH
+	); 
+}
+*/
+
+/**
+ * Development-mode post-condition: verify the packer's own layouts.
+ * Overlaps, out-of-bounds units and overweight boxes are packer bugs and throw;
+ * the packers do not model support yet, so unsupported units are only logged.
+ */
+function assertValidPackingRun(run: PackingRun): void {
+	const verification = verifyPackingLayouts(
+		run.packingBoxes.map((pBox) => ({
+			box: pBox.box,
+			placements: pBox.packedItems,
+		}))
+	);
+	if (verification.valid) {
+		return;
+	}
+	const hardViolations = verification.violations.filter(
+		(violation) => violation.code !== "UNSUPPORTED"
+	);
+	verification.violations
+		.filter((violation) => violation.code === "UNSUPPORTED")
+		.forEach((violation) =>
+			console.warn(`[BoxCalc] Layout check: ${violation.message}`)
+		);
+	if (hardViolations.length > 0) {
+		const messages = hardViolations.map((violation) => violation.message);
+		console.error("[BoxCalc] Packing post-condition failed:", messages);
+		throw new Error(`Packing post-condition failed: ${messages.join(" ")}`);
+	}
+}
+
+/**
+ * Pack items into multiple boxes using the Extreme Point-based 3D bin packing algorithm
+ * Uses options.boxes if provided, otherwise loads the active catalogue.
+ * Results are memoised by a fingerprint of the items, options and catalogue (see packing-cache).
+ * With options.timeBudgetMs, packing stops when the budget runs out and the best result so far
+ * is returned with timedOut set. Timed-out results are not cached.
+ * Lines that become available on different dates are packed in dispatch waves (see packInDispatchWaves).
+ */
+export async function packItemsIntoMultipleBoxes(
+	itemsToPack: PackingItem[],
+	options: PackingOptions = {}
+): Promise<MultiBoxPackingResult> {
+	if (expandItemsByQuantity(itemsToPack).length === 0) {
+		return {
+			success: true,
+			shipments: [],
+			unfitItems: [],
+			itemSummary: summariseItemsBySku(itemsToPack, [], []),
+			totals: calculateConsignmentTotals(
+				[],
+				getCubicFactor(options.cubicFactor)
+			),
+		};
+	}
+
+	// console.log("[BoxCalc] Starting Extreme Point-based packing algorithm"); // Optional: for debugging
+	console.log(
+		`[BoxCalc] packItemsIntoMultipleBoxes called. itemsToPack:`,
+		itemsToPack
+	);
+
+	const catalogue = options.boxes ?? (await getActiveBoxes());
+	const dispatchDate = options.dispatchDate ?? getTodayDate();
+	const fingerprint = getPackingFingerprint(itemsToPack, catalogue, options);
+	const cachedResult = getCachedPackingResult(fingerprint);
+	if (cachedResult) {
+		console.log(`[BoxCalc] Using cached packing result ${fingerprint}.`);
+		return cachedResult;
+	}
+	const deadline =
+		options.timeBudgetMs !== undefined
+			? Date.now() + options.timeBudgetMs
+			: undefined;
+
+	const dispatchWaves = groupLinesIntoDispatchWaves(
+		itemsToPack,
+		dispatchDate
+	).filter((wave) => expandItemsByQuantity(wave.items).length > 0);
+	if (dispatchWaves.length > 1) {
+		const result = await packInDispatchWaves(
+			itemsToPack,
+			dispatchWaves,
+			{ ...options, boxes: catalogue },
+			deadline
+		);
+		if (!result.timedOut) {
+			cachePackingResult(fingerprint, result);
+		}
+		return result;
+	}
+
+	const expandedItems = expandItemsByQuantity(itemsToPack);
+	const boxes = getStockedBoxes(catalogue, expandedItems, options.outOfStock);
+	const strategy = options.strategy ?? "volume";
+	const rateTable = strategy === "cost" ? getRateTable() : null;
+	const cubicFactor = getCubicFactor(options.cubicFactor);
+	const algorithm = options.algorithm ?? "extreme-point";
+	const bundling = bundleForPacking(expandedItems, boxes, options);
+	const packingUnits = bundling.units;
+	const unitGroups = groupUnitsForSegregation(packingUnits);
+	if (unitGroups.length > 1) {
+		console.log(
+			`[BoxCalc] Segregation rules split the units into ${unitGroups.length} groups packed apart.`
+		);
+	}
+
+	// Run the requested algorithm, or every algorithm in compare mode while there is time left
+	const algorithmNames =
+		algorithm === "compare" ? PACKING_ALGORITHMS : [algorithm];
+	const candidates: { packingStrategy: PackingStrategy; run: PackingRun }[] =
+		[];
+	for (const name of algorithmNames) {
+		if (candidates.length > 0 && isPastDeadline(deadline)) {
+			break;
+		}
+		const packingStrategy = getPackingStrategy(name);
+		const run = packEachGroup(unitGroups, (units) =>
+			rateTable
+				? packUnitsByCost(units, boxes, rateTable, packingStrategy, deadline)
+				: packingStrategy.pack(units, boxes, true, deadline)
+		);
+		candidates.push({ packingStrategy, run });
+	}
+	const timedOut =
+		candidates.length < algorithmNames.length ||
+		candidates.some((candidate) => candidate.run.timedOut === true);
+	const comparison =
+		algorithm === "compare"
+			? candidates.map((candidate) =>
+					compareRun(candidate.packingStrategy.name, candidate.run, cubicFactor)
+			  )
+			: [];
+	const compareBy = options.compareBy ?? "boxes";
+	let bestIndex = 0;
+	comparison.forEach((entry, index) => {
+		if (rankComparison(entry, comparison[bestIndex], compareBy) < 0) {
+			bestIndex = index;
+		}
+	});
+	const { packingStrategy, run } = candidates[bestIndex];
+	if (process.env.NODE_ENV === "development") {
+		assertValidPackingRun(run);
+	}
+	const shipments = run.packingBoxes.map((pBox) =>
+		buildShipment(pBox, itemsToPack, options, cubicFactor, bundling)
+	);
+
+	// Load anything no box could take onto pallets, if freight is enabled.
+	// After a timeout the unfit units include ones never tried in a box, so they stay unfit.
+	let unfitUnits = run.unfitUnits;
+	let freight: FreightConsignment | undefined;
+	if (options.freight && unfitUnits.length > 0 && !timedOut) {
+		// Segregated units go on separate pallets too
+		const freightRuns = groupUnitsForSegregation(unfitUnits).map((units) =>
+			packOntoPallets(
+				units,
+				options.pallets ?? DEFAULT_PALLETS,
+				itemsToPack,
+				options,
+				bundling
+			)
+		);
+		unfitUnits = freightRuns.flatMap((freightRun) => freightRun.unfitUnits);
+		const palletShipments = freightRuns.flatMap(
+			(freightRun) => freightRun.freight?.shipments ?? []
+		);
+		if (palletShipments.length > 0) {
+			freight = {
+				palletCount: palletShipments.length,
+				grossWeight: palletShipments.reduce((sum, s) => sum + s.grossWeight, 0),
+				shipments: palletShipments,
+			};
+		}
+	}
+
+	// Group unfit units based on the original items list
+	const groupedUnfitItems = groupPackedItemsByOriginal(
+		unbundleUnits(unfitUnits, bundling.bundleMembers),
+		itemsToPack
+	);
+
+	// Explain each box choice and each unfit item
+	const longestItemDimension = getLongestDimension(packingUnits);
+	shipments.forEach((shipment, index) => {
+		shipment.selection = explainBoxChoice(
+			run.packingBoxes[index],
+			boxes,
+			longestItemDimension,
+			run.singleBoxShortcut === true,
+			strategy
+		);
+	});
+	const diagnosisBoxes = options.freight
+		? [...boxes, ...(options.pallets ?? DEFAULT_PALLETS).map(palletToBox)]
+		: boxes;
+
+	const result: MultiBoxPackingResult = {
+		success: groupedUnfitItems.length === 0,
 		shipments,
-		unfitItems: groupedUnfitItems,
+		unfitItems: explainUnfitItems(groupedUnfitItems, diagnosisBoxes, timedOut),
+		itemSummary: summariseItemsBySku(
+			itemsToPack,
+			[
+				...shipments.flatMap((s) => s.packedItems),
+				...(freight?.shipments.flatMap((s) => s.packedItems) ?? []),
+			],
+			groupedUnfitItems
+		),
+		totals: calculateConsignmentTotals(run.packingBoxes, cubicFactor),
 	};
+	if (freight) {
+		result.freight = freight;
+	}
+
+	result.strategy = strategy;
+	result.algorithm = packingStrategy.name;
+	if (algorithm === "compare") {
+		console.log(
+			`[BoxCalc] Compared ${comparison.length} algorithms by ${compareBy}; using ${packingStrategy.name}.`
+		);
+		result.compareBy = compareBy;
+		result.comparison = comparison;
+	}
+	if (rateTable) {
+		// Attach the price breakdown for each shipment
+		let totalPrice = 0;
+		run.packingBoxes.forEach((pBox, index) => {
+			const price = priceShipment(pBox.box, getContentsWeight(pBox), rateTable);
+			shipments[index].price = price;
+			totalPrice += price ? price.total : 0;
+		});
+		result.totalPrice = Math.round(totalPrice * 100) / 100;
+		result.currency = rateTable.currency;
+	}
+
+	const constraintImpact = timedOut
+		? undefined
+		: getConstraintImpact(unitGroups, boxes, run, packingStrategy, deadline);
+	if (constraintImpact) {
+		console.log(`[BoxCalc] ${constraintImpact.message}`);
+		result.constraintImpact = constraintImpact;
+	}
+	if (timedOut) {
+		console.warn(
+			`[BoxCalc] Time budget of ${options.timeBudgetMs} ms ran out; returning the best result so far.`
+		);
+		result.timedOut = true;
+		return result;
+	}
+	cachePackingResult(fingerprint, result);
+	return result;
+}
+
+/**
+ * Price each box on the rate table by its contents' weight.
+ * Returns the total, rounded to cents, and how many boxes no carrier service could take.
+ */
+function priceShipments(
+	shipments: PackingShipment[],
+	rateTable: RateTable
+): { price: number; unpriced: number } {
+	let price = 0;
+	let unpriced = 0;
+	for (const shipment of shipments) {
+		const contentsWeight = shipment.packedItems.reduce(
+			(sum, item) => sum + item.weight * getItemQuantity(item),
+			0
+		);
+		const shipmentPrice = priceShipment(
+			shipment.box,
+			contentsWeight,
+			rateTable
+		);
+		if (shipmentPrice) {
+			price += shipmentPrice.total;
+		} else {
+			unpriced++;
+		}
+	}
+	return { price: Math.round(price * 100) / 100, unpriced };
+}
+
+/**
+ * Summarise one dispatch wave's packing result, pricing its boxes.
+ */
+function describeDispatchWave(
+	dispatchDate: string,
+	result: MultiBoxPackingResult,
+	rateTable: RateTable
+): { wave: DispatchWave; unpriced: number } {
+	const { price, unpriced } = priceShipments(result.shipments, rateTable);
+	const wave: DispatchWave = {
+		dispatchDate,
+		shipmentCount: result.shipments.length,
+		palletCount: result.freight?.palletCount ?? 0,
+		price,
+	};
+	if (result.algorithm) {
+		wave.algorithm = result.algorithm;
+	}
+	if (result.constraintImpact) {
+		wave.constraintImpact = result.constraintImpact;
+	}
+	return { wave, unpriced };
+}
+
+/**
+ * Roll finished shipments up into consignment totals, the same way calculateConsignmentTotals does for packed boxes.
+ */
+function totalShipments(
+	shipments: PackingShipment[],
+	cubicFactor: number
+): ConsignmentTotals {
+	return sumConsignmentTotals(
+		shipments.map((shipment) => {
+			const { length, width, height } = getUsableDimensions(shipment.box);
+			return {
+				weights: shipment.weights,
+				itemVolume: shipment.packedItems.reduce(
+					(sum, item) =>
+						sum +
+						item.length * item.width * item.height * getItemQuantity(item),
+					0
+				),
+				boxVolume: length * width * height,
+			};
+		}),
+		cubicFactor
+	);
+}
+
+/**
+ * Pack each dispatch wave on its own and combine the results, marking every box and pallet
+ * with the date it ships. The whole order is also packed as if it waited for the last wave,
+ * so the result can show what splitting costs. Boxes are priced on the rate table whatever
+ * the strategy. Each packing gets whatever is left of the time budget.
+ */
+async function packInDispatchWaves(
+	itemsToPack: PackingItem[],
+	waves: DispatchWaveLines[],
+	options: PackingOptions,
+	deadline?: number
+): Promise<MultiBoxPackingResult> {
+	const getRemainingBudget = () =>
+		deadline === undefined ? undefined : Math.max(0, deadline - Date.now());
+	const waveResults: MultiBoxPackingResult[] = [];
+	for (const wave of waves) {
+		waveResults.push(
+			await packItemsIntoMultipleBoxes(wave.items, {
+				...options,
+				dispatchDate: wave.dispatchDate,
+				timeBudgetMs: getRemainingBudget(),
+			})
+		);
+	}
+
+	const shipments = waveResults.flatMap((waveResult, index) =>
+		waveResult.shipments.map((shipment) => ({
+			...shipment,
+			dispatchDate: waves[index].dispatchDate,
+		}))
+	);
+	const palletShipments = waveResults.flatMap((waveResult, index) =>
+		(waveResult.freight?.shipments ?? []).map((shipment) => ({
+			...shipment,
+			dispatchDate: waves[index].dispatchDate,
+		}))
+	);
+	const unfitItems = waveResults.flatMap((waveResult) => waveResult.unfitItems);
+	const strategy = options.strategy ?? "volume";
+	const result: MultiBoxPackingResult = {
+		success: waveResults.every((waveResult) => waveResult.success),
+		shipments,
+		unfitItems,
+		itemSummary: summariseItemsBySku(
+			itemsToPack,
+			[
+				...shipments.flatMap((s) => s.packedItems),
+				...palletShipments.flatMap((s) => s.packedItems),
+			],
+			unfitItems
+		),
+		totals: totalShipments(shipments, getCubicFactor(options.cubicFactor)),
+		strategy,
+	};
+	if (palletShipments.length > 0) {
+		result.freight = {
+			palletCount: palletShipments.length,
+			grossWeight: palletShipments.reduce((sum, s) => sum + s.grossWeight, 0),
+			shipments: palletShipments,
+		};
+	}
+	const algorithms = new Set(
+		waveResults.map((waveResult) => waveResult.algorithm)
+	);
+	if (algorithms.size === 1) {
+		result.algorithm = waveResults[0].algorithm;
+	}
+	if (strategy === "cost") {
+		result.totalPrice =
+			Math.round(
+				waveResults.reduce(
+					(sum, waveResult) => sum + (waveResult.totalPrice ?? 0),
+					0
+				) * 100
+			) / 100;
+		result.currency = waveResults[0].currency;
+	}
+	const timedOut = waveResults.some((waveResult) => waveResult.timedOut);
+
+	const rateTable = getRateTable();
+	const described = waves.map((wave, index) =>
+		describeDispatchWave(wave.dispatchDate, waveResults[index], rateTable)
+	);
+	const splitPrice =
+		Math.round(described.reduce((sum, { wave }) => sum + wave.price, 0) * 100) /
+		100;
+	const dispatch: DispatchPlan = {
+		waves: described.map(({ wave }) => wave),
+		splitPrice,
+		currency: rateTable.currency,
+		unpricedShipments: described.reduce(
+			(sum, { unpriced }) => sum + unpriced,
+			0
+		),
+	};
+
+	// Pack everything together for the last wave's date, unless the budget has run out
+	if (!timedOut) {
+		const lastDate = waves[waves.length - 1].dispatchDate;
+		const togetherResult = await packItemsIntoMultipleBoxes(
+			itemsToPack.map(({ availableOn, ...item }) => item),
+			{ ...options, timeBudgetMs: getRemainingBudget() }
+		);
+		if (!togetherResult.timedOut) {
+			const { wave, unpriced } = describeDispatchWave(
+				lastDate,
+				togetherResult,
+				rateTable
+			);
+			dispatch.together = wave;
+			dispatch.extraCost = Math.round((splitPrice - wave.price) * 100) / 100;
+			dispatch.unpricedShipments += unpriced;
+			console.log(
+				`[BoxCalc] Split into ${waves.length} dispatch waves for ${dispatch.extraCost} ${dispatch.currency} more than shipping together on ${lastDate}.`
+			);
+		}
+	}
+	result.dispatch = dispatch;
+	if (timedOut) {
+		result.timedOut = true;
+	}
+	return result;
+}
+
+/**
+ * Pack many orders independently in one call.
+ * The box catalogue is loaded once and shared by every order, and the boxes the orders
+ * need are totalled by type for the carton pick list. Orders are handed to packOrder
+ * together, so a packer that runs off the event loop can pack them in parallel.
+ */
+export async function packOrderBatch(
+	orders: Record<string, PackingItem[]>,
+	options: PackingOptions = {},
+	packOrder: (
+		items: PackingItem[],
+		options: PackingOptions
+	) => Promise<MultiBoxPackingResult> = packItemsIntoMultipleBoxes
+): Promise<BatchPackingResult> {
+	const boxes = options.boxes ?? (await getActiveBoxes());
+	const results: Record<string, MultiBoxPackingResult> = {};
+	const pickList = new Map<string, BoxPickListEntry>();
+	let palletCount = 0;
+
+	const orderEntries = Object.entries(orders);
+	const orderResults = await Promise.all(
+		orderEntries.map(([, items]) => packOrder(items, { ...options, boxes }))
+	);
+	for (const [index, [orderId]] of orderEntries.entries()) {
+		const result = orderResults[index];
+		results[orderId] = result;
+		for (const shipment of result.shipments) {
+			const entry = pickList.get(shipment.box._id) ?? {
+				boxId: shipment.box._id,
+				name: shipment.box.name,
+				count: 0,
+			};
+			entry.count++;
+			pickList.set(shipment.box._id, entry);
+		}
+		palletCount += result.freight?.palletCount ?? 0;
+	}
+
+	const boxesByType = Array.from(pickList.values()).sort(
+		(a, b) => b.count - a.count || a.name.localeCompare(b.name)
+	);
+	const incompleteOrderIds = Object.keys(results).filter(
+		(orderId) => !results[orderId].success
+	);
+	const orderCount = Object.keys(results).length;
+	const boxCount = boxesByType.reduce((sum, entry) => sum + entry.count, 0);
+	console.log(
+		`[BoxCalc] Packed batch of ${orderCount} orders into ${boxCount} boxes.`
+	);
+	const batchResult: BatchPackingResult = {
+		success: incompleteOrderIds.length === 0,
+		orders: results,
+		boxesByType,
+		totals: {
+			orderCount,
+			boxCount,
+			palletCount,
+			incompleteOrderIds,
+		},
+	};
+	if (Object.values(results).some((result) => result.timedOut)) {
+		batchResult.timedOut = true;
+	}
+	return batchResult;
 }
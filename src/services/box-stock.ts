@@ -0,0 +1,144 @@
+/**
+ * Box Stock
+ * Updated: 19/10/2026
+ * Author: Deej Potter
+ * Description: Keeps the on-hand carton count on each box in the catalogue. Records receipts, usage
+ * and stocktakes, takes the cartons a confirmed packing session used out of stock, and lists the
+ * boxes running low. Stock is read and written back through DataService.boxes, which has no atomic increment.
+ */
+
+import { DataService } from "../data/DataService";
+import ShippingBox from "../types/ShippingBox";
+import { DatabaseResponse } from "../types/mongodb";
+import { BoxStockMovement, BoxStockUsage } from "../types/box-shipping-types";
+import { getActiveBoxes } from "./box-shipping-calculations";
+import { isBoxLowOnStock, isStockTracked } from "../utils/boxStock";
+
+/**
+ * Movement types accepted by recordBoxStockMovement.
+ */
+export const BOX_STOCK_MOVEMENT_TYPES: BoxStockMovement["type"][] = [
+	"receipt",
+	"usage",
+	"count",
+];
+
+/**
+ * Work out a box's stock after a movement. Usage never takes stock below zero.
+ */
+export function applyStockMovement(
+	stockOnHand: number,
+	movement: BoxStockMovement
+): number {
+	switch (movement.type) {
+		case "receipt":
+			return stockOnHand + movement.quantity;
+		case "usage":
+			return Math.max(0, stockOnHand - movement.quantity);
+		case "count":
+			return movement.quantity;
+	}
+}
+
+/**
+ * Load the stored box with the given ID, or a 404 response if there is none.
+ */
+async function getStoredBox(
+	id: string
+): Promise<DatabaseResponse<ShippingBox>> {
+	const response = await DataService.boxes.getAvailable();
+	if (!response.success) {
+		return { ...response, data: undefined };
+	}
+	const box = response.data?.find((candidate) => candidate._id === id);
+	if (!box) {
+		return {
+			success: false,
+			status: 404,
+			error: "Box not found",
+			message: `No box with ID ${id} in the catalogue.`,
+		};
+	}
+	return { success: true, status: 200, data: box };
+}
+
+/**
+ * Record a receipt, usage or stocktake against a box, and set its low-stock threshold if given.
+ * A box's first movement starts tracking its stock from zero.
+ */
+export async function recordBoxStockMovement(
+	id: string,
+	movement: BoxStockMovement
+): Promise<DatabaseResponse<ShippingBox>> {
+	const stored = await getStoredBox(id);
+	if (!stored.success || !stored.data) {
+		return stored;
+	}
+	const box = stored.data;
+	const stockOnHand = applyStockMovement(box.stockOnHand ?? 0, movement);
+	const response = await DataService.boxes.update({
+		...box,
+		stockOnHand,
+		lowStockThreshold: movement.lowStockThreshold ?? box.lowStockThreshold,
+	});
+	if (response.success) {
+		console.log(
+			`[BoxStock] ${box.name}: ${movement.type} of ${
+				movement.quantity
+			}, stock ${box.stockOnHand ?? 0} -> ${stockOnHand}.`
+		);
+	}
+	return response;
+}
+
+/**
+ * Take the cartons a packing run used out of stock, keyed by box ID.
+ * Boxes whose stock isn't tracked, or that are no longer in the catalogue, are reported but left alone.
+ * A failure to update one box is logged and the others are still updated.
+ */
+export async function useBoxStock(
+	boxesUsed: Map<string, { box: ShippingBox; count: number }>
+): Promise<BoxStockUsage[]> {
+	const response = await DataService.boxes.getAvailable();
+	if (!response.success) {
+		console.error(
+			`[BoxStock] Failed to load the box catalogue to take stock: ${response.message}`
+		);
+	}
+	const catalogue = new Map((response.data ?? []).map((box) => [box._id, box]));
+
+	const usage: BoxStockUsage[] = [];
+	for (const [boxId, { box, count }] of boxesUsed) {
+		const entry: BoxStockUsage = { boxId, name: box.name, count };
+		const stored = catalogue.get(boxId);
+		if (stored && isStockTracked(stored)) {
+			const stockOnHand = applyStockMovement(stored.stockOnHand!, {
+				type: "usage",
+				quantity: count,
+			});
+			const update = await DataService.boxes.update({ ...stored, stockOnHand });
+			if (update.success) {
+				entry.stockOnHand = stockOnHand;
+			} else {
+				console.error(
+					`[BoxStock] Failed to take ${count} x ${box.name} out of stock:`,
+					update.error
+				);
+			}
+		}
+		usage.push(entry);
+	}
+	return usage;
+}
+
+/**
+ * List the tracked boxes at or below their low-stock threshold, lowest stock first.
+ */
+export async function getLowStockBoxes(): Promise<ShippingBox[]> {
+	const boxes = await getActiveBoxes();
+	return boxes
+		.filter(isBoxLowOnStock)
+		.sort(
+			(a, b) => a.stockOnHand! - b.stockOnHand! || a.name.localeCompare(b.name)
+		);
+}
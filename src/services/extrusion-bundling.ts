@@ -0,0 +1,171 @@
+/**
+ * Extrusion Bundling
+ * Updated: 19/10/2026
+ * Author: Deej Potter
+ * Description: Groups identical long units (such as ten lengths of LR-2020-S-1500) into strapped
+ * bundles before packing. The packer then places each bundle as a single unit, which is faster
+ * and gives the tidy layouts the warehouse actually packs.
+ */
+
+import ShippingItem from "../types/ShippingItem";
+import { BundlingOptions, PackingBundle } from "../types/box-shipping-types";
+
+/**
+ * Default bundle limits. Lengths are in millimeters and weights in grams.
+ */
+export const DEFAULT_BUNDLING_OPTIONS: Required<BundlingOptions> = {
+	minLength: 1000,
+	maxItemsPerBundle: 10,
+	maxBundleWeight: 20000,
+};
+
+/**
+ * Units ready for packing, with the bundles among them.
+ */
+export interface BundlingResult {
+	/** Units to pack: bundles plus any units that were not bundled. */
+	units: ShippingItem[];
+	/** The original units strapped into each bundle unit. */
+	bundleMembers: Map<ShippingItem, ShippingItem[]>;
+	/** Details of each bundle, keyed by bundle unit. */
+	bundles: Map<ShippingItem, PackingBundle>;
+}
+
+/**
+ * Key that matches identical units: same SKU, dimensions and weight.
+ */
+function getBundleKey(unit: ShippingItem): string {
+	return [unit.sku, unit.length, unit.width, unit.height, unit.weight].join(
+		"|"
+	);
+}
+
+/**
+ * Build a bundle of count identical units.
+ * Units lie side by side in a near-square cross-section, so the bundle keeps
+ * the unit's length and grows in width and height.
+ */
+function createBundle(
+	unit: ShippingItem,
+	count: number,
+	bundleNumber: number
+): { bundleUnit: ShippingItem; bundle: PackingBundle } {
+	const [length, middle, smallest] = [
+		unit.length,
+		unit.width,
+		unit.height,
+	].sort((a, b) => b - a);
+	const columns = Math.ceil(Math.sqrt(count));
+	const rows = Math.ceil(count / columns);
+	const bundle: PackingBundle = {
+		bundleId: `${unit.sku}-BUNDLE-${bundleNumber}`,
+		sku: unit.sku,
+		name: unit.name,
+		quantity: count,
+		length,
+		width: columns * middle,
+		height: rows * smallest,
+		weight: count * unit.weight,
+	};
+	const bundleUnit: ShippingItem = {
+		_id: bundle.bundleId,
+		sku: unit.sku,
+		name: `${unit.name} (bundle of ${count})`,
+		length: bundle.length,
+		width: bundle.width,
+		height: bundle.height,
+		weight: bundle.weight,
+	};
+	return { bundleUnit, bundle };
+}
+
+/**
+ * Group identical long units into bundles.
+ * Units shorter than minLength, or rejected by canBundle, are left as they are.
+ * Bundles are capped by maxItemsPerBundle and maxBundleWeight, and shrunk until
+ * bundleFits accepts them so a bundle never ends up unfit when its units would fit.
+ * @param units Individual units, quantity already expanded.
+ * @param options Bundle limits; missing limits use DEFAULT_BUNDLING_OPTIONS.
+ * @param canBundle Whether a unit may be bundled at all (e.g. it has no packing constraints).
+ * @param bundleFits Whether a bundle unit fits in at least one box.
+ */
+export function bundleLongUnits(
+	units: ShippingItem[],
+	options: BundlingOptions,
+	canBundle: (unit: ShippingItem) => boolean,
+	bundleFits: (bundleUnit: ShippingItem) => boolean
+): BundlingResult {
+	const limits = { ...DEFAULT_BUNDLING_OPTIONS, ...options };
+	const result: BundlingResult = {
+		units: [],
+		bundleMembers: new Map(),
+		bundles: new Map(),
+	};
+
+	// Group identical long units, keeping first-seen order
+	const groups = new Map<string, ShippingItem[]>();
+	for (const unit of units) {
+		const longest = Math.max(unit.length, unit.width, unit.height);
+		if (longest < limits.minLength || !canBundle(unit)) {
+			result.units.push(unit);
+			continue;
+		}
+		const key = getBundleKey(unit);
+		const group = groups.get(key) || [];
+		group.push(unit);
+		groups.set(key, group);
+	}
+
+	const bundleCounts = new Map<string, number>();
+	let bundledUnitCount = 0;
+	for (const group of groups.values()) {
+		const unit = group[0];
+		let bundleSize = Math.min(
+			limits.maxItemsPerBundle,
+			Math.max(1, Math.floor(limits.maxBundleWeight / unit.weight)),
+			group.length
+		);
+		while (
+			bundleSize > 1 &&
+			!bundleFits(createBundle(unit, bundleSize, 0).bundleUnit)
+		) {
+			bundleSize--;
+		}
+
+		for (let start = 0; start < group.length; start += bundleSize) {
+			const members = group.slice(start, start + bundleSize);
+			if (members.length === 1) {
+				result.units.push(members[0]);
+				continue;
+			}
+			const bundleNumber = (bundleCounts.get(unit.sku) || 0) + 1;
+			bundleCounts.set(unit.sku, bundleNumber);
+			const { bundleUnit, bundle } = createBundle(
+				unit,
+				members.length,
+				bundleNumber
+			);
+			result.units.push(bundleUnit);
+			bundledUnitCount += members.length;
+			result.bundleMembers.set(bundleUnit, members);
+			result.bundles.set(bundleUnit, bundle);
+		}
+	}
+
+	if (result.bundles.size > 0) {
+		console.log(
+			`[BoxCalc] Bundled ${bundledUnitCount} units into ${result.bundles.size} bundle(s).`
+		);
+	}
+	return result;
+}
+
+/**
+ * Replace bundle units with the units strapped into them.
+ */
+export function unbundleUnits(
+	units: ShippingItem[],
+	bundleMembers: Map<ShippingItem, ShippingItem[]>
+): ShippingItem[] {
+	return units.flatMap((unit) => bundleMembers.get(unit) || [unit]);
+}
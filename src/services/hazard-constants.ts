@@ -0,0 +1,53 @@
+/**
+ * Dangerous Goods Constants
+ * Updated: 19/10/2026
+ * Author: Deej Potter
+ * Description: Packing and labelling rules for each dangerous-goods class.
+ * A class with ownCarton only shares a box with items of the same class. Classes listed
+ * in incompatibleWith never share a box, in either direction. Labels are printed on every
+ * box or pallet that carries the class.
+ */
+
+import { HazardClass } from "../types/ShippingItem";
+
+export interface HazardClassRule {
+	/** Label text for the carton. */
+	label: string;
+	/** Only items of the same class may share the box. */
+	ownCarton: boolean;
+	/** Other classes that may not share a box with this one. */
+	incompatibleWith: HazardClass[];
+}
+
+export const HAZARD_CLASS_RULES: Record<HazardClass, HazardClassRule> = {
+	"lithium-battery": {
+		label: "Class 9 - Lithium batteries (UN3480/UN3481)",
+		ownCarton: true,
+		incompatibleWith: [],
+	},
+	"flammable-liquid": {
+		label: "Class 3 - Flammable liquid",
+		ownCarton: true,
+		incompatibleWith: [],
+	},
+	"flammable-gas": {
+		label: "Class 2.1 - Flammable gas",
+		ownCarton: false,
+		incompatibleWith: ["oxidiser"],
+	},
+	oxidiser: {
+		label: "Class 5.1 - Oxidising substance",
+		ownCarton: false,
+		incompatibleWith: ["flammable-gas", "corrosive"],
+	},
+	corrosive: {
+		label: "Class 8 - Corrosive",
+		ownCarton: false,
+		incompatibleWith: ["oxidiser"],
+	},
+};
+
+/**
+ * Hazard classes accepted on shipping items.
+ */
+export const HAZARD_CLASSES = Object.keys(HAZARD_CLASS_RULES) as HazardClass[];
@@ -13,6 +13,7 @@ import {
 } from "../types/invoice"; // Adjusted path
 import { DataService } from "../data/DataService"; // Import DataService for DB operations
 import ShippingItem from "../types/ShippingItem"; // Corrected default import
+import { expandKit, getActiveKits, getKitsBySku } from "./kit-expansion";
 
 // Initialize OpenAI client
 // Ensure OPENAI_API_KEY is set in your environment variables
@@ -523,8 +524,9 @@ function logSuspiciousWeight(
  * 1. Extract text from file
  * 2. Remove personal data
  * 3. Parse items from text using function calling
- * 4. For each item, check DB for SKU; if found, use DB data with invoice quantity
- * 5. If SKU not found, estimate with AI and optionally add to DB
+ * 4. For each item, expand kit SKUs into their components (or pre-packed carton) from the Kits collection
+ * 5. Otherwise check DB for SKU; if found, use DB data with invoice quantity
+ * 6. If SKU not found, estimate with AI and optionally add to DB
  * Returns a type-safe, clear response for the frontend that preserves quantities.
  */
 export async function processInvoiceFileModular(
@@ -578,12 +580,43 @@ export async function processInvoiceFileModular(
 		`[Modular] Loaded ${dbItems.length} items from database for lookup.`
 	);
 
+	// Kit SKUs stand for many items, so they are replaced with their components or pre-packed carton
+	const kitsBySku = getKitsBySku(await getActiveKits());
+
 	for (const item of extractedItems) {
 		const normalizedSku = item.sku.trim().toUpperCase();
 		console.log(
 			`[Modular] Processing item: ${item.name} (SKU: ${normalizedSku}, Qty: ${item.quantity})`
 		);
 
+		const kit = kitsBySku.get(normalizedSku);
+		if (kit) {
+			try {
+				const kitItems = expandKit(kit, item.quantity, kitsBySku, dbItemsBySku);
+				console.log(
+					`[Modular] Expanded kit ${normalizedSku} into ${kitItems.length} line(s).`
+				);
+				finalItems.push(
+					...kitItems.map((kitItem) => ({
+						name: kitItem.name,
+						sku: kitItem.sku,
+						quantity: kitItem.quantity ?? 1,
+						length: kitItem.length,
+						width: kitItem.width,
+						height: kitItem.height,
+						// Convert grams to kg for consistency with AI estimates
+						weight: kitItem.weight / 1000,
+					}))
+				);
+				continue;
+			} catch (kitError) {
+				console.warn(
+					`[Modular] Failed to expand kit ${normalizedSku}, processing it as a single item:`,
+					kitError
+				);
+			}
+		}
+
 		const dbItem = dbItemsBySku.get(normalizedSku);
 
 		if (dbItem) {
@@ -0,0 +1,204 @@
+/**
+ * Kit Expansion
+ * Updated: 19/10/2026
+ * Author: Deej Potter
+ * Description: Replaces kit and bundle SKUs with the items they stand for before packing.
+ * A kit with a carton is packed as that one pre-packed carton; any other kit becomes its components,
+ * looked up by SKU in the item catalogue. Kits may contain other kits. SKUs match case-insensitively,
+ * as they do in the invoice pipeline.
+ */
+
+import { DataService } from "../data/DataService";
+import KitDefinition, { KitComponent } from "../types/KitDefinition";
+import ShippingItem from "../types/ShippingItem";
+import {
+	KitExpansion,
+	PackingItem,
+	PackingItemValidationError,
+} from "../types/box-shipping-types";
+
+/**
+ * Items ready for packing, with the kits they were expanded from.
+ */
+export interface KitExpansionResult {
+	/** The request's items with every kit line replaced. */
+	items: PackingItem[];
+	/** One entry per kit line, in request order. */
+	kits: KitExpansion[];
+	/** Kit lines that could not be expanded, such as a component missing from the item catalogue. */
+	errors: PackingItemValidationError[];
+}
+
+/**
+ * Key used to match SKUs: trimmed and upper case.
+ */
+export function getSkuKey(sku: string): string {
+	return sku.trim().toUpperCase();
+}
+
+/**
+ * Index kit definitions by SKU key.
+ */
+export function getKitsBySku(
+	kits: KitDefinition[]
+): Map<string, KitDefinition> {
+	return new Map(kits.map((kit) => [getSkuKey(kit.sku), kit]));
+}
+
+/**
+ * Check whether a SKU is a kit's parent SKU.
+ */
+export function isKitSku(sku: string, kits: KitDefinition[]): boolean {
+	const key = getSkuKey(sku);
+	return kits.some((kit) => getSkuKey(kit.sku) === key);
+}
+
+/**
+ * Load the active kit definitions. If the database is unreachable no kits are
+ * expanded, so kit lines without dimensions fail validation instead of packing wrongly.
+ */
+export async function getActiveKits(): Promise<KitDefinition[]> {
+	const response = await DataService.kits.getAvailable();
+	if (!response.success) {
+		console.warn(
+			`[Kits] Failed to load kit definitions (${response.message}). Packing without kit expansion.`
+		);
+		return [];
+	}
+	return response.data ?? [];
+}
+
+/**
+ * Expand count kits into packing items: one carton line, or a line per component with
+ * quantities multiplied out. Nested kits are expanded in turn.
+ * @param path Keys of the kits being expanded, used to catch a kit that contains itself.
+ * @throws {Error} If a component is neither a kit nor in the item catalogue, or a kit contains itself.
+ */
+export function expandKit(
+	kit: KitDefinition,
+	count: number,
+	kitsBySku: Map<string, KitDefinition>,
+	itemsBySku: Map<string, ShippingItem>,
+	path: string[] = []
+): PackingItem[] {
+	if (kit.carton) {
+		return [
+			{
+				_id: kit._id,
+				sku: kit.sku,
+				name: kit.name,
+				...kit.carton,
+				quantity: count,
+			},
+		];
+	}
+
+	const key = getSkuKey(kit.sku);
+	if (path.includes(key)) {
+		throw new Error(
+			`Kit ${kit.sku} contains itself (${[...path, key].join(" > ")}).`
+		);
+	}
+	return kit.components.flatMap((component) => {
+		const componentKey = getSkuKey(component.sku);
+		const quantity = component.quantity * count;
+		const nestedKit = kitsBySku.get(componentKey);
+		if (nestedKit) {
+			return expandKit(nestedKit, quantity, kitsBySku, itemsBySku, [
+				...path,
+				key,
+			]);
+		}
+		const item = itemsBySku.get(componentKey);
+		if (!item) {
+			throw new Error(
+				`Kit ${kit.sku} component ${component.sku} is not in the item catalogue.`
+			);
+		}
+		const { createdAt, updatedAt, deletedAt, ...itemFields } = item;
+		return [{ ...itemFields, quantity }];
+	});
+}
+
+/**
+ * Total the units per SKU across expanded items, in first-seen order.
+ */
+function sumComponents(items: PackingItem[]): KitComponent[] {
+	const totals = new Map<string, KitComponent>();
+	for (const item of items) {
+		const total = totals.get(item.sku) ?? { sku: item.sku, quantity: 0 };
+		total.quantity += item.quantity || 1;
+		totals.set(item.sku, total);
+	}
+	return Array.from(totals.values());
+}
+
+/**
+ * Replace every kit line in a packing request with its carton or components.
+ * The item catalogue is only loaded when some kit has to be broken into components.
+ * @throws {Error} If the item catalogue is needed but cannot be loaded.
+ */
+export async function expandKits(
+	items: PackingItem[],
+	kits: KitDefinition[]
+): Promise<KitExpansionResult> {
+	const kitsBySku = getKitsBySku(kits);
+	const kitLines = items.map((item) => kitsBySku.get(getSkuKey(item.sku)));
+	if (kitLines.every((kit) => !kit)) {
+		return { items, kits: [], errors: [] };
+	}
+
+	let itemsBySku = new Map<string, ShippingItem>();
+	if (kitLines.some((kit) => kit && !kit.carton)) {
+		const response = await DataService.shippingItems.getAvailable();
+		if (!response.success) {
+			throw new Error(
+				`Failed to load the item catalogue to expand kits: ${response.message}`
+			);
+		}
+		itemsBySku = new Map(
+			(response.data ?? []).map((item) => [getSkuKey(item.sku), item])
+		);
+	}
+
+	const result: KitExpansionResult = { items: [], kits: [], errors: [] };
+	items.forEach((item, index) => {
+		const kit = kitLines[index];
+		if (!kit) {
+			result.items.push(item);
+			return;
+		}
+		const count = item.quantity || 1;
+		try {
+			const expanded = expandKit(kit, count, kitsBySku, itemsBySku);
+			// Components ship when the kit line does
+			result.items.push(
+				...(item.availableOn
+					? expanded.map((line) => ({ ...line, availableOn: item.availableOn }))
+					: expanded)
+			);
+			result.kits.push({
+				index,
+				sku: kit.sku,
+				name: kit.name,
+				quantity: count,
+				shippedAs: kit.carton ? "carton" : "components",
+				components: kit.carton ? [] : sumComponents(expanded),
+			});
+		} catch (error) {
+			result.errors.push({
+				index,
+				sku: item.sku,
+				field: "sku",
+				message: error instanceof Error ? error.message : String(error),
+			});
+		}
+	});
+
+	if (result.kits.length > 0) {
+		console.log(
+			`[Kits] Expanded ${result.kits.length} kit line(s); packing ${result.items.length} item line(s).`
+		);
+	}
+	return result;
+}
@@ -0,0 +1,216 @@
+/**
+ * Packing Result Cache
+ * Updated: 19/10/2026
+ * Author: Deej Potter
+ * Description: Memoises multi-box packing results. The same kits are packed over and over, so a result is
+ * kept under a fingerprint of the items, the packing options and the box catalogue, and reused until it expires.
+ * Any change to an item, an option or a box in the catalogue gives a new fingerprint.
+ */
+
+import crypto from "crypto";
+import ShippingBox from "../types/ShippingBox";
+import {
+	MultiBoxPackingResult,
+	PackingCacheStats,
+	PackingItem,
+	PackingOptions,
+} from "../types/box-shipping-types";
+import { readEnvLimit } from "../utils/envLimits";
+import { isBoxInStock } from "../utils/boxStock";
+import { getTodayDate } from "../utils/dispatchDates";
+
+/** Default time a cached result stays valid: 10 minutes. */
+export const DEFAULT_PACKING_CACHE_TTL_MS = 10 * 60 * 1000;
+
+/** Default number of results kept before the least recently used is dropped. */
+export const DEFAULT_PACKING_CACHE_MAX_ENTRIES = 200;
+
+interface PackingCacheEntry {
+	result: MultiBoxPackingResult;
+	expiresAt: number;
+}
+
+// Entries in least recently used order: a Map iterates in insertion order
+const entries = new Map<string, PackingCacheEntry>();
+let ttlMs = readEnvLimit("PACKING_CACHE_TTL_MS", DEFAULT_PACKING_CACHE_TTL_MS);
+let maxEntries = readEnvLimit(
+	"PACKING_CACHE_MAX_ENTRIES",
+	DEFAULT_PACKING_CACHE_MAX_ENTRIES
+);
+let hits = 0;
+let misses = 0;
+
+/**
+ * Serialise a value as JSON with object keys sorted, so equal values always give the same text.
+ */
+function canonicalJson(value: unknown): string {
+	if (
+		value !== null &&
+		typeof value === "object" &&
+		typeof (value as { toJSON?: unknown }).toJSON === "function"
+	) {
+		return canonicalJson((value as { toJSON: () => unknown }).toJSON());
+	}
+	if (Array.isArray(value)) {
+		return `[${value.map(canonicalJson).join(",")}]`;
+	}
+	if (value !== null && typeof value === "object") {
+		const fields = Object.keys(value)
+			.filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+			.sort()
+			.map(
+				(key) =>
+					`${JSON.stringify(key)}:${canonicalJson(
+						(value as Record<string, unknown>)[key]
+					)}`
+			);
+		return `{${fields.join(",")}}`;
+	}
+	return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * Hash a value's canonical JSON.
+ */
+function hashCanonical(value: unknown): string {
+	return crypto.createHash("sha256").update(canonicalJson(value)).digest("hex");
+}
+
+/**
+ * Get a version string for a box catalogue. Any change to any box gives a new version;
+ * the order boxes are listed in does not matter. Stock levels only count as in stock or not,
+ * so confirming a shipment doesn't throw the cached results away.
+ */
+export function getBoxCatalogueVersion(boxes: ShippingBox[]): string {
+	return hashCanonical(
+		boxes
+			.map(({ stockOnHand, lowStockThreshold, ...box }) =>
+				canonicalJson({
+					...box,
+					inStock: isBoxInStock({ ...box, stockOnHand }),
+				})
+			)
+			.sort((a, b) => a.localeCompare(b))
+	).slice(0, 16);
+}
+
+/**
+ * Fingerprint a packing request: every item field (SKU, dimensions, weight, quantity and
+ * constraints), the packing options and the box catalogue version.
+ * Items are sorted, so listing the same items in another order gives the same fingerprint.
+ * The time budget is left out because only complete results are cached.
+ * Dated lines split into dispatch waves relative to the dispatch date, so dated requests are keyed
+ * by it (today unless set) and undated ones never are.
+ */
+export function getPackingFingerprint(
+	items: PackingItem[],
+	boxes: ShippingBox[],
+	options: PackingOptions = {}
+): string {
+	const {
+		boxes: _boxes,
+		timeBudgetMs,
+		dispatchDate,
+		...packingOptions
+	} = options;
+	return hashCanonical({
+		items: items.map(canonicalJson).sort((a, b) => a.localeCompare(b)),
+		options: items.some((item) => item.availableOn)
+			? { ...packingOptions, dispatchDate: dispatchDate ?? getTodayDate() }
+			: packingOptions,
+		catalogueVersion: getBoxCatalogueVersion(boxes),
+	});
+}
+
+/**
+ * Drop expired entries, then the least recently used ones until the cache is within its size limit.
+ */
+function evictEntries(now: number): void {
+	for (const [key, entry] of entries) {
+		if (entry.expiresAt <= now) {
+			entries.delete(key);
+		}
+	}
+	for (const key of entries.keys()) {
+		if (entries.size <= maxEntries) {
+			break;
+		}
+		entries.delete(key);
+	}
+}
+
+/**
+ * Get a copy of the cached result for a fingerprint, counting a hit or a miss.
+ */
+export function getCachedPackingResult(
+	fingerprint: string
+): MultiBoxPackingResult | undefined {
+	const entry = entries.get(fingerprint);
+	if (!entry || entry.expiresAt <= Date.now()) {
+		entries.delete(fingerprint);
+		misses++;
+		return undefined;
+	}
+	// Move the entry to the most recently used end
+	entries.delete(fingerprint);
+	entries.set(fingerprint, entry);
+	hits++;
+	return structuredClone(entry.result);
+}
+
+/**
+ * Store a copy of a result under its fingerprint. Does nothing when the TTL or size is 0.
+ */
+export function cachePackingResult(
+	fingerprint: string,
+	result: MultiBoxPackingResult
+): void {
+	if (ttlMs === 0 || maxEntries === 0) {
+		return;
+	}
+	const now = Date.now();
+	entries.delete(fingerprint);
+	entries.set(fingerprint, {
+		result: structuredClone(result),
+		expiresAt: now + ttlMs,
+	});
+	evictEntries(now);
+}
+
+/**
+ * Change the TTL or size limit at runtime. Entries over the new size limit are dropped;
+ * a new TTL applies to results cached from then on.
+ */
+export function configurePackingCache(config: {
+	ttlMs?: number;
+	maxEntries?: number;
+}): void {
+	ttlMs = config.ttlMs ?? ttlMs;
+	maxEntries = config.maxEntries ?? maxEntries;
+	evictEntries(Date.now());
+}
+
+/**
+ * Empty the cache and reset the hit and miss counts.
+ */
+export function clearPackingCache(): void {
+	entries.clear();
+	hits = 0;
+	misses = 0;
+}
+
+/**
+ * Get the cache's hit and miss counts, size and limits for the health output.
+ */
+export function getPackingCacheStats(): PackingCacheStats {
+	evictEntries(Date.now());
+	const lookups = hits + misses;
+	return {
+		hits,
+		misses,
+		hitRate: lookups > 0 ? Math.round((hits / lookups) * 1000) / 1000 : 0,
+		size: entries.size,
+		maxEntries,
+		ttlMs,
+	};
+}
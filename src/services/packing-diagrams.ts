@@ -0,0 +1,259 @@
+/**
+ * Packing Diagrams
+ * Updated: 19/10/2026
+ * Author: Deej Potter
+ * Description: Renders a packed box as SVG images for the packing bench, where there is no 3D viewer:
+ * a top view of each layer and an isometric view of the whole box. Units are coloured and labelled by SKU.
+ * Coordinates follow the packer: x runs along the box width, y is height and z runs along the length.
+ * Satchels are drawn at their flat size, since thin contents may run past their rigid length or width.
+ */
+
+import ShippingBox from "../types/ShippingBox";
+import { PackedItem, PackingDiagrams } from "../types/box-shipping-types";
+import { getPackingExtents } from "../utils/boxDimensions";
+
+// Longest side of a drawing in pixels, margins excluded
+const DRAWING_SIZE = 360;
+const MARGIN = 20;
+
+// Isometric projection factors for 30 degree axes
+const ISO_COS = Math.cos(Math.PI / 6);
+const ISO_SIN = Math.sin(Math.PI / 6);
+
+/**
+ * Escape text for use in SVG content and attributes.
+ */
+function escapeXml(text: string): string {
+	return text.replace(
+		/[<>&"']/g,
+		(char) =>
+			({ "<": "&lt;", ">": "&gt;", "&": "&amp;", '"': "&quot;", "'": "&apos;" }[
+				char
+			]!)
+	);
+}
+
+/**
+ * Pick a stable colour for a SKU, so the same SKU looks the same in every diagram.
+ * @param lightness Lightness percentage, used to shade the faces of the isometric view.
+ */
+export function getSkuColour(sku: string, lightness = 65): string {
+	let hash = 0;
+	for (const char of sku) {
+		hash = (hash * 31 + char.charCodeAt(0)) | 0;
+	}
+	return `hsl(${Math.abs(hash) % 360}, 65%, ${lightness}%)`;
+}
+
+/**
+ * Round a coordinate to keep the SVG small.
+ */
+function px(value: number): number {
+	return Math.round(value * 10) / 10;
+}
+
+/**
+ * Wrap drawing elements in an SVG document of the given size.
+ */
+function svgDocument(
+	width: number,
+	height: number,
+	title: string,
+	elements: string[]
+): string {
+	return [
+		`<svg xmlns="http://www.w3.org/2000/svg" width="${px(width)}" height="${px(
+			height
+		)}" viewBox="0 0 ${px(width)} ${px(height)}" font-family="sans-serif">`,
+		`<title>${escapeXml(title)}</title>`,
+		...elements,
+		"</svg>",
+	].join("\n");
+}
+
+/**
+ * Draw a SKU label centred on a point, sized to fit the space available.
+ */
+function label(x: number, y: number, sku: string, maxWidth: number): string {
+	const fontSize = Math.max(
+		6,
+		Math.min(12, maxWidth / Math.max(sku.length, 1) / 0.6)
+	);
+	return `<text x="${px(x)}" y="${px(y)}" font-size="${px(
+		fontSize
+	)}" text-anchor="middle" dominant-baseline="middle">${escapeXml(sku)}</text>`;
+}
+
+/**
+ * Draw a top view of one layer: the units whose base sits at baseHeight.
+ * Units in lower layers are drawn as dashed outlines so the layer can be lined up with them.
+ */
+function renderLayer(
+	box: ShippingBox,
+	packedItems: PackedItem[],
+	baseHeight: number,
+	layerNumber: number
+): string {
+	const space = getPackingExtents(box);
+	const scale = DRAWING_SIZE / Math.max(space.width, space.length);
+	const elements: string[] = [
+		`<rect x="${MARGIN}" y="${MARGIN}" width="${px(
+			space.width * scale
+		)}" height="${px(
+			space.length * scale
+		)}" fill="#f4f1ea" stroke="#333" stroke-width="2"/>`,
+	];
+
+	for (const packedItem of packedItems) {
+		const { position, dimensions, item } = packedItem;
+		const x = MARGIN + position.x * scale;
+		const y = MARGIN + position.z * scale;
+		const width = dimensions.width * scale;
+		const height = dimensions.depth * scale;
+		if (position.y === baseHeight) {
+			elements.push(
+				`<rect x="${px(x)}" y="${px(y)}" width="${px(width)}" height="${px(
+					height
+				)}" fill="${getSkuColour(item.sku)}" stroke="#222"/>`,
+				label(x + width / 2, y + height / 2, item.sku, width)
+			);
+		} else if (position.y < baseHeight) {
+			elements.push(
+				`<rect x="${px(x)}" y="${px(y)}" width="${px(width)}" height="${px(
+					height
+				)}" fill="none" stroke="#999" stroke-dasharray="4 3"/>`
+			);
+		}
+	}
+
+	return svgDocument(
+		space.width * scale + MARGIN * 2,
+		space.length * scale + MARGIN * 2,
+		`${box.name} - layer ${layerNumber} at ${baseHeight} mm`,
+		elements
+	);
+}
+
+/**
+ * Draw an isometric view of the whole box with every unit as a shaded block.
+ */
+function renderIsometric(box: ShippingBox, packedItems: PackedItem[]): string {
+	const space = getPackingExtents(box);
+	const projectedWidth = (space.width + space.length) * ISO_COS;
+	const projectedHeight = (space.width + space.length) * ISO_SIN + space.height;
+	const scale = DRAWING_SIZE / Math.max(projectedWidth, projectedHeight);
+	const originX = MARGIN + space.length * ISO_COS * scale;
+	const originY = MARGIN + space.height * scale;
+
+	// Project a point in box coordinates to the drawing
+	const project = (x: number, y: number, z: number): [number, number] => [
+		originX + (x - z) * ISO_COS * scale,
+		originY + ((x + z) * ISO_SIN - y) * scale,
+	];
+	const face = (points: [number, number][], fill: string, stroke = "#222") =>
+		`<polygon points="${points
+			.map(([x, y]) => `${px(x)},${px(y)}`)
+			.join(" ")}" fill="${fill}" stroke="${stroke}"/>`;
+
+	const { width: W, height: H, length: L } = space;
+	const elements: string[] = [
+		// Floor and back walls of the box
+		face(
+			[project(0, 0, 0), project(W, 0, 0), project(W, 0, L), project(0, 0, L)],
+			"#f4f1ea",
+			"#333"
+		),
+		face(
+			[project(0, 0, 0), project(W, 0, 0), project(W, H, 0), project(0, H, 0)],
+			"none",
+			"#bbb"
+		),
+		face(
+			[project(0, 0, 0), project(0, 0, L), project(0, H, L), project(0, H, 0)],
+			"none",
+			"#bbb"
+		),
+	];
+
+	// Painter's order: draw units further from the viewer first
+	const sorted = [...packedItems].sort(
+		(a, b) =>
+			a.position.x +
+			a.position.z +
+			a.position.y -
+			(b.position.x + b.position.z + b.position.y)
+	);
+	for (const { position, dimensions, item } of sorted) {
+		const [x0, y0, z0] = [position.x, position.y, position.z];
+		const [x1, y1, z1] = [
+			x0 + dimensions.width,
+			y0 + dimensions.height,
+			z0 + dimensions.depth,
+		];
+		elements.push(
+			face(
+				[
+					project(x0, y1, z0),
+					project(x1, y1, z0),
+					project(x1, y1, z1),
+					project(x0, y1, z1),
+				],
+				getSkuColour(item.sku, 72)
+			),
+			face(
+				[
+					project(x1, y0, z0),
+					project(x1, y0, z1),
+					project(x1, y1, z1),
+					project(x1, y1, z0),
+				],
+				getSkuColour(item.sku, 55)
+			),
+			face(
+				[
+					project(x0, y0, z1),
+					project(x1, y0, z1),
+					project(x1, y1, z1),
+					project(x0, y1, z1),
+				],
+				getSkuColour(item.sku, 45)
+			)
+		);
+		const [labelX, labelY] = project((x0 + x1) / 2, y1, (z0 + z1) / 2);
+		elements.push(
+			label(
+				labelX,
+				labelY,
+				item.sku,
+				Math.min(dimensions.width, dimensions.depth) * ISO_COS * scale
+			)
+		);
+	}
+
+	return svgDocument(
+		projectedWidth * scale + MARGIN * 2,
+		projectedHeight * scale + MARGIN * 2,
+		`${box.name} - isometric view`,
+		elements
+	);
+}
+
+/**
+ * Render the layer and isometric diagrams for a packed box.
+ * A layer is every unit whose base sits at the same height, lowest first.
+ */
+export function renderPackingDiagrams(
+	box: ShippingBox,
+	packedItems: PackedItem[]
+): PackingDiagrams {
+	const baseHeights = Array.from(
+		new Set(packedItems.map((packedItem) => packedItem.position.y))
+	).sort((a, b) => a - b);
+	return {
+		layers: baseHeights.map((baseHeight, index) => ({
+			baseHeight,
+			svg: renderLayer(box, packedItems, baseHeight, index + 1),
+		})),
+		isometric: renderIsometric(box, packedItems),
+	};
+}
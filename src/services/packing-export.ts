@@ -0,0 +1,242 @@
+/**
+ * Packing Result Export
+ * Updated: 19/10/2026
+ * Author: Deej Potter
+ * Description: Turns a multi-box packing result into a printable PDF packing slip and a CSV pick list,
+ * so packers don't have to copy shipments into a spreadsheet by hand. Each box lists its contents,
+ * SKU quantities, weights and the order units go in.
+ */
+
+import {
+	MultiBoxPackingResult,
+	PackingShipment,
+} from "../types/box-shipping-types";
+import { renderTextPdf } from "../utils/simplePdf";
+
+/**
+ * Formats the export endpoint can produce.
+ */
+export const PACKING_EXPORT_FORMATS = ["pdf", "csv"] as const;
+
+export type PackingExportFormat = (typeof PACKING_EXPORT_FORMATS)[number];
+
+/**
+ * One SKU in one box, as listed on the slip and the pick list.
+ */
+interface BoxContentLine {
+	sku: string;
+	name: string;
+	quantity: number;
+	unitWeight: number;
+	/** Load order of each unit of this SKU, empty when the result has no placements. */
+	loadOrder: number[];
+}
+
+/**
+ * Get a box's contents per SKU, with the load order of each unit when placements are present.
+ * Units in a bundle share the bundle's load order.
+ */
+function getBoxContents(shipment: PackingShipment): BoxContentLine[] {
+	return shipment.packedItems.map((item) => {
+		const loadOrder = (shipment.placements ?? [])
+			.filter((placement) => placement.item.sku === item.sku)
+			.flatMap((placement) => {
+				const bundle = shipment.bundles?.find(
+					(b) => b.bundleId === placement.item._id
+				);
+				return Array(bundle ? bundle.quantity : 1).fill(placement.loadOrder);
+			});
+		return {
+			sku: item.sku,
+			name: item.name,
+			quantity: item.quantity || 1,
+			unitWeight: item.weight,
+			loadOrder,
+		};
+	});
+}
+
+/**
+ * Describe a load order list compactly, e.g. "1-3, 5".
+ */
+function formatLoadOrder(loadOrder: number[]): string {
+	const unique = Array.from(new Set(loadOrder)).sort((a, b) => a - b);
+	const ranges: string[] = [];
+	for (let i = 0; i < unique.length; i++) {
+		let end = i;
+		while (end + 1 < unique.length && unique[end + 1] === unique[end] + 1) {
+			end++;
+		}
+		ranges.push(end > i ? `${unique[i]}-${unique[end]}` : `${unique[i]}`);
+		i = end;
+	}
+	return ranges.join(", ");
+}
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or line break.
+ * Text starting with a formula character is prefixed with ' so spreadsheets show it rather than run it.
+ */
+function csvField(value: string | number): string {
+	const text =
+		typeof value === "string" && /^[=+\-@\t\r]/.test(value)
+			? `'${value}`
+			: String(value);
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render a packing result as a CSV pick list with one row per SKU per box.
+ */
+export function renderPickListCsv(result: MultiBoxPackingResult): string {
+	const rows: (string | number)[][] = [
+		[
+			"box_number",
+			"box_name",
+			"sku",
+			"name",
+			"quantity",
+			"unit_weight_g",
+			"line_weight_g",
+			"box_gross_weight_kg",
+			"box_chargeable_weight_kg",
+			"load_order",
+		],
+	];
+	result.shipments.forEach((shipment, index) => {
+		for (const line of getBoxContents(shipment)) {
+			rows.push([
+				index + 1,
+				shipment.box.name,
+				line.sku,
+				line.name,
+				line.quantity,
+				line.unitWeight,
+				line.unitWeight * line.quantity,
+				shipment.weights.actualWeightKg,
+				shipment.weights.chargeableWeightKg,
+				formatLoadOrder(line.loadOrder),
+			]);
+		}
+	});
+	for (const item of result.unfitItems) {
+		rows.push([
+			"UNFIT",
+			"",
+			item.sku,
+			item.name,
+			item.quantity || 1,
+			item.weight,
+			item.weight * (item.quantity || 1),
+			"",
+			"",
+			"",
+		]);
+	}
+	return rows.map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+/**
+ * Fit text to a fixed-width column, truncating with "~" when too long.
+ */
+function column(
+	text: string | number,
+	width: number,
+	alignRight = false
+): string {
+	const value = String(text);
+	const fitted = value.length > width ? `${value.slice(0, width - 1)}~` : value;
+	return alignRight ? fitted.padStart(width) : fitted.padEnd(width);
+}
+
+/**
+ * Render a packing result as a printable PDF packing slip with one page per box.
+ */
+export function renderPackingSlipPdf(
+	result: MultiBoxPackingResult,
+	generatedAt: Date = new Date()
+): Buffer {
+	const boxCount = result.shipments.length;
+	const totalWeightKg = (key: "actualWeightKg" | "chargeableWeightKg") =>
+		Math.round(
+			result.shipments.reduce((sum, s) => sum + s.weights[key], 0) * 1000
+		) / 1000;
+	const header = [
+		"PACKING SLIP",
+		`Generated ${generatedAt.toISOString()}`,
+		`Boxes: ${boxCount}   Actual weight: ${totalWeightKg(
+			"actualWeightKg"
+		)} kg   ` + `Chargeable weight: ${totalWeightKg("chargeableWeightKg")} kg`,
+		"",
+	];
+	const tableHeader = (lastColumn: string) => [
+		`${column("SKU", 16)} ${column("Name", 30)} ${column("Qty", 5, true)} ` +
+			`${column("Unit g", 8, true)} ${column(
+				"Line g",
+				9,
+				true
+			)}  ${lastColumn}`,
+		"-".repeat(96),
+	];
+
+	const lines: string[] = [];
+	result.shipments.forEach((shipment, index) => {
+		const { length, width, height } = shipment.outerDimensions;
+		lines.push(
+			...header,
+			`Box ${index + 1} of ${boxCount}: ${shipment.box.name}`,
+			`Outer size: ${length} x ${width} x ${height} mm   ` +
+				`Gross weight: ${shipment.weights.actualWeightKg} kg   ` +
+				`Chargeable weight: ${shipment.weights.chargeableWeightKg} kg`,
+			...(shipment.labels?.length
+				? [`DANGEROUS GOODS - label with: ${shipment.labels.join("; ")}`]
+				: []),
+			...(shipment.dispatchDate
+				? [`Dispatch on: ${shipment.dispatchDate}`]
+				: []),
+			"",
+			...tableHeader("Load order")
+		);
+		for (const line of getBoxContents(shipment)) {
+			lines.push(
+				`${column(line.sku, 16)} ${column(line.name, 30)} ${column(
+					line.quantity,
+					5,
+					true
+				)} ${column(line.unitWeight, 8, true)} ${column(
+					line.unitWeight * line.quantity,
+					9,
+					true
+				)}  ${formatLoadOrder(line.loadOrder) || "-"}`
+			);
+		}
+		for (const bundle of shipment.bundles ?? []) {
+			lines.push(
+				`  Strap ${bundle.quantity} x ${bundle.sku} together as ${bundle.bundleId}`
+			);
+		}
+		lines.push("", "Packed by: ____________   Checked by: ____________", "\f");
+	});
+
+	if (result.unfitItems.length > 0) {
+		lines.push(...header, "NOT PACKED", "", ...tableHeader("Reason"));
+		for (const item of result.unfitItems) {
+			lines.push(
+				`${column(item.sku, 16)} ${column(item.name, 30)} ${column(
+					item.quantity || 1,
+					5,
+					true
+				)} ${column(item.weight, 8, true)} ${column(
+					item.weight * (item.quantity || 1),
+					9,
+					true
+				)}  ${item.reason?.message ?? ""}`
+			);
+		}
+	}
+	if (lines.length === 0) {
+		lines.push(...header, "No boxes to pack.");
+	}
+
+	return renderTextPdf(lines, { title: "Packing Slip" });
+}
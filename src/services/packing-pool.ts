@@ -0,0 +1,308 @@
+/**
+ * Packing Worker Pool
+ * Updated: 19/10/2026
+ * Author: Deej Potter
+ * Description: Runs best-box and multi-box packing on worker threads so large orders don't block the Express event loop.
+ * Each job gets a time budget; when it runs out the packer returns the best result found so far with
+ * timedOut set. Concurrency comes from PACKING_WORKER_CONCURRENCY, and 0 packs on the main thread instead.
+ */
+
+import os from "os";
+import path from "path";
+import { Worker } from "worker_threads";
+import {
+	BatchPackingResult,
+	BestBoxResult,
+	MultiBoxPackingResult,
+	PackingItem,
+	PackingOptions,
+	PackingPoolStats,
+	PackingWorkerRequest,
+	PackingWorkerResponse,
+} from "../types/box-shipping-types";
+import {
+	findBestBox,
+	getActiveBoxes,
+	packItemsIntoMultipleBoxes,
+	packOrderBatch,
+} from "./box-shipping-calculations";
+import {
+	cachePackingResult,
+	getCachedPackingResult,
+	getPackingFingerprint,
+} from "./packing-cache";
+import { readEnvLimit } from "../utils/envLimits";
+import { getTodayDate } from "../utils/dispatchDates";
+
+/** Default time budget for one packing job: 10 seconds. */
+export const DEFAULT_PACKING_TIME_BUDGET_MS = 10 * 1000;
+
+// Time a worker gets past its budget to post the partial result before it is stopped
+const WORKER_GRACE_MS = 5000;
+
+interface PackingJob {
+	request: PackingWorkerRequest;
+	resolve: (result: BestBoxResult | MultiBoxPackingResult) => void;
+	reject: (error: Error) => void;
+	timer?: NodeJS.Timeout;
+}
+
+interface PoolWorker {
+	worker: Worker;
+	job?: PackingJob;
+}
+
+let concurrency = readEnvLimit(
+	"PACKING_WORKER_CONCURRENCY",
+	Math.max(1, os.cpus().length - 1)
+);
+let timeBudgetMs = readEnvLimit(
+	"PACKING_TIME_BUDGET_MS",
+	DEFAULT_PACKING_TIME_BUDGET_MS
+);
+const workers: PoolWorker[] = [];
+const queue: PackingJob[] = [];
+let nextJobId = 1;
+
+/**
+ * Start a worker. Under ts-node and Jest this file is TypeScript, so the worker loads ts-node too.
+ */
+function startWorker(): PoolWorker {
+	const extension = path.extname(__filename);
+	const worker = new Worker(
+		path.join(__dirname, `packing-worker${extension}`),
+		{
+			execArgv:
+				extension === ".ts"
+					? ["--require", "ts-node/register/transpile-only"]
+					: [],
+			// Node's default, spelled out because Jest gives each test file its own process.env
+			env: process.env,
+		}
+	);
+	const poolWorker: PoolWorker = { worker };
+	worker.unref();
+
+	worker.on("message", (response: PackingWorkerResponse) => {
+		const job = poolWorker.job;
+		if (!job || job.request.id !== response.id) {
+			return;
+		}
+		finishJob(poolWorker);
+		// Over a lowered concurrency, keep draining the queue and then stop
+		if (workers.length > concurrency && queue.length === 0) {
+			retireWorker(poolWorker);
+		}
+		if ("error" in response) {
+			job.reject(new Error(response.error));
+		} else {
+			job.resolve(response.result);
+		}
+		dispatchJobs();
+	});
+	worker.on("error", (error) => {
+		console.error("[PackingPool] Worker failed:", error);
+	});
+	worker.on("exit", (code) => {
+		const index = workers.indexOf(poolWorker);
+		if (index >= 0) {
+			workers.splice(index, 1);
+		}
+		const job = poolWorker.job;
+		if (job) {
+			finishJob(poolWorker);
+			job.reject(new Error(`Packing worker stopped with exit code ${code}.`));
+		}
+		dispatchJobs();
+	});
+
+	workers.push(poolWorker);
+	return poolWorker;
+}
+
+/**
+ * Mark a worker idle and let the process exit while it waits for work.
+ */
+function finishJob(poolWorker: PoolWorker): void {
+	clearTimeout(poolWorker.job?.timer);
+	poolWorker.job = undefined;
+	poolWorker.worker.unref();
+}
+
+/**
+ * Stop an idle worker and drop it from the pool.
+ */
+function retireWorker(poolWorker: PoolWorker): void {
+	workers.splice(workers.indexOf(poolWorker), 1);
+	poolWorker.worker.terminate();
+}
+
+/**
+ * Hand queued jobs to idle workers, starting workers up to the concurrency limit.
+ */
+function dispatchJobs(): void {
+	while (queue.length > 0) {
+		const poolWorker =
+			workers.find((candidate) => !candidate.job) ??
+			(workers.length < concurrency ? startWorker() : undefined);
+		if (!poolWorker) {
+			return;
+		}
+		const job = queue.shift()!;
+		poolWorker.job = job;
+		poolWorker.worker.ref();
+
+		// The packer stops itself at the budget; this only catches a worker that stopped answering
+		const budget = job.request.options.timeBudgetMs;
+		if (budget !== undefined) {
+			job.timer = setTimeout(() => {
+				console.error(
+					`[PackingPool] Job ${job.request.id} ran ${WORKER_GRACE_MS} ms past its ${budget} ms budget. Stopping its worker.`
+				);
+				poolWorker.worker.terminate();
+			}, budget + WORKER_GRACE_MS);
+		}
+		poolWorker.worker.postMessage(job.request);
+	}
+}
+
+/**
+ * Queue a job for the next free worker.
+ */
+function runInWorker(
+	kind: "best-box",
+	items: PackingItem[],
+	options: PackingWorkerRequest["options"]
+): Promise<BestBoxResult>;
+function runInWorker(
+	kind: "multi-box",
+	items: PackingItem[],
+	options: PackingWorkerRequest["options"]
+): Promise<MultiBoxPackingResult>;
+function runInWorker(
+	kind: PackingWorkerRequest["kind"],
+	items: PackingItem[],
+	options: PackingWorkerRequest["options"]
+): Promise<BestBoxResult | MultiBoxPackingResult> {
+	return new Promise((resolve, reject) => {
+		queue.push({
+			request: { id: nextJobId++, kind, items, options },
+			resolve,
+			reject,
+		});
+		dispatchJobs();
+	});
+}
+
+/**
+ * Apply the default time budget unless the request set its own.
+ */
+function withTimeBudget(options: PackingOptions): PackingOptions {
+	if (options.timeBudgetMs !== undefined || timeBudgetMs === 0) {
+		return options;
+	}
+	return { ...options, timeBudgetMs };
+}
+
+/**
+ * Pack items into multiple boxes on a worker thread, within the time budget.
+ * The catalogue is loaded and the cache checked here, so workers never touch the database
+ * and every worker shares one cache.
+ */
+export async function packItemsOffThread(
+	itemsToPack: PackingItem[],
+	options: PackingOptions = {}
+): Promise<MultiBoxPackingResult> {
+	const packingOptions = withTimeBudget(options);
+	if (concurrency === 0) {
+		return packItemsIntoMultipleBoxes(itemsToPack, packingOptions);
+	}
+
+	const boxes = packingOptions.boxes ?? (await getActiveBoxes());
+	// Pin the day here, so the worker packs for the same day the fingerprint was taken on
+	const dispatchDate = packingOptions.dispatchDate ?? getTodayDate();
+	const fingerprint = getPackingFingerprint(itemsToPack, boxes, packingOptions);
+	const cachedResult = getCachedPackingResult(fingerprint);
+	if (cachedResult) {
+		console.log(`[PackingPool] Using cached packing result ${fingerprint}.`);
+		return cachedResult;
+	}
+	const result = await runInWorker("multi-box", itemsToPack, {
+		...packingOptions,
+		boxes,
+		dispatchDate,
+	});
+	if (!result.timedOut) {
+		cachePackingResult(fingerprint, result);
+	}
+	return result;
+}
+
+/**
+ * Find the best single box on a worker thread, within the time budget.
+ * Best-box results are not cached, so this only loads the catalogue and hands the job over.
+ */
+export async function findBestBoxOffThread(
+	itemsToPack: PackingItem[],
+	options: PackingOptions = {}
+): Promise<BestBoxResult> {
+	const packingOptions = withTimeBudget(options);
+	if (concurrency === 0) {
+		return findBestBox(itemsToPack, packingOptions);
+	}
+	const boxes = packingOptions.boxes ?? (await getActiveBoxes());
+	return runInWorker("best-box", itemsToPack, { ...packingOptions, boxes });
+}
+
+/**
+ * Pack many orders on the worker pool. Orders are packed in parallel up to the
+ * pool's concurrency, and the time budget applies to each order.
+ */
+export function packOrderBatchOffThread(
+	orders: Record<string, PackingItem[]>,
+	options: PackingOptions = {}
+): Promise<BatchPackingResult> {
+	return packOrderBatch(orders, withTimeBudget(options), packItemsOffThread);
+}
+
+/**
+ * Change the pool's concurrency or default time budget at runtime.
+ * Busy workers beyond a lower concurrency finish their job first.
+ */
+export function configurePackingPool(config: {
+	concurrency?: number;
+	timeBudgetMs?: number;
+}): void {
+	concurrency = config.concurrency ?? concurrency;
+	timeBudgetMs = config.timeBudgetMs ?? timeBudgetMs;
+	for (const poolWorker of workers.filter((candidate) => !candidate.job)) {
+		if (workers.length <= concurrency) {
+			break;
+		}
+		retireWorker(poolWorker);
+	}
+	dispatchJobs();
+}
+
+/**
+ * Stop every worker. Jobs still running or queued are rejected.
+ */
+export async function shutdownPackingPool(): Promise<void> {
+	for (const job of queue.splice(0)) {
+		job.reject(new Error("The packing pool was shut down."));
+	}
+	await Promise.all(workers.map((poolWorker) => poolWorker.worker.terminate()));
+}
+
+/**
+ * Get the pool's size and load for the health output.
+ */
+export function getPackingPoolStats(): PackingPoolStats {
+	return {
+		concurrency,
+		timeBudgetMs,
+		workers: workers.length,
+		busy: workers.filter((poolWorker) => poolWorker.job).length,
+		queued: queue.length,
+	};
+}
@@ -0,0 +1,289 @@
+/**
+ * Packing Sessions
+ * Updated: 19/10/2026
+ * Author: Deej Potter
+ * Description: Stores every packing run as a PackingSession through DataService.userData, and
+ * reopens, re-runs and compares stored sessions. Re-runs always use the current box catalogue.
+ */
+
+import { ObjectId } from "mongodb";
+import { DataService } from "../data/DataService";
+import { DatabaseResponse } from "../types/mongodb";
+import {
+	PackingSession,
+	PackingSessionConfirmation,
+	PackingSessionRerun,
+	PackingSessionSummary,
+} from "../types/PackingSession";
+import ShippingBox from "../types/ShippingBox";
+import {
+	BatchPackingResult,
+	BestBoxResult,
+	MultiBoxPackingResult,
+} from "../types/box-shipping-types";
+import {
+	findBestBoxOffThread,
+	packItemsOffThread,
+	packOrderBatchOffThread,
+} from "./packing-pool";
+import { useBoxStock } from "./box-stock";
+
+/**
+ * Base name of the per-user collection that holds packing sessions.
+ */
+export const PACKING_SESSIONS_COLLECTION = "PackingSessions";
+
+/**
+ * User ID for sessions recorded without a signed-in user.
+ */
+export const ANONYMOUS_SESSION_USER = "anonymous";
+
+/** Default number of sessions in one page of a session list. */
+export const DEFAULT_SESSION_PAGE_SIZE = 50;
+
+/** Most sessions one page of a session list can hold. */
+export const MAX_SESSION_PAGE_SIZE = 200;
+
+/**
+ * Reduce any packing result to its headline figures.
+ */
+export function summarisePackingResult(
+	kind: PackingSession["kind"],
+	result: PackingSession["result"]
+): PackingSessionSummary {
+	if (kind === "best-box") {
+		const bestBox = result as BestBoxResult;
+		return {
+			boxCount: bestBox.box ? 1 : 0,
+			boxNames: bestBox.box ? [bestBox.box.name] : [],
+			unfitUnits: bestBox.unfitItems.reduce(
+				(sum, item) => sum + (item.quantity || 1),
+				0
+			),
+			success: bestBox.success,
+		};
+	}
+	const orderResults =
+		kind === "batch"
+			? Object.values((result as BatchPackingResult).orders)
+			: [result as MultiBoxPackingResult];
+	const shipments = orderResults.flatMap(
+		(orderResult) => orderResult.shipments
+	);
+	return {
+		boxCount: shipments.length,
+		boxNames: shipments.map((shipment) => shipment.box.name),
+		unfitUnits: orderResults
+			.flatMap((orderResult) => orderResult.unfitItems)
+			.reduce((sum, item) => sum + (item.quantity || 1), 0),
+		success: result.success,
+	};
+}
+
+/**
+ * Store a packing run. A failure to store is logged and returned, never thrown,
+ * so the packing response still goes out.
+ */
+export async function recordPackingSession(
+	userId: string,
+	session: Omit<
+		PackingSession,
+		"_id" | "createdAt" | "updatedAt" | "deletedAt" | "summary"
+	>
+): Promise<DatabaseResponse<PackingSession>> {
+	try {
+		const response = await DataService.userData.add<PackingSession>(
+			PACKING_SESSIONS_COLLECTION,
+			userId,
+			{
+				...session,
+				summary: summarisePackingResult(session.kind, session.result),
+			}
+		);
+		if (!response.success) {
+			console.error(
+				`[PackingSessions] Failed to store ${session.kind} session:`,
+				response.error
+			);
+		}
+		return response;
+	} catch (error) {
+		console.error(`[PackingSessions] Failed to store session:`, error);
+		return {
+			success: false,
+			status: 500,
+			error: "Failed to store packing session",
+			message:
+				error instanceof Error ? error.message : "Unknown error occurred",
+		};
+	}
+}
+
+/**
+ * List a page of a user's sessions, newest first, without their full results.
+ * Pass the createdAt of the last session on a page as before to get the next page.
+ */
+export async function listPackingSessions(
+	userId: string,
+	{
+		limit = DEFAULT_SESSION_PAGE_SIZE,
+		before,
+	}: { limit?: number; before?: Date } = {}
+): Promise<DatabaseResponse<Omit<PackingSession, "result">[]>> {
+	const response = await DataService.userData.getFiltered<PackingSession>(
+		PACKING_SESSIONS_COLLECTION,
+		userId,
+		before
+			? { deletedAt: null, createdAt: { $lt: before } }
+			: { deletedAt: null },
+		{ projection: { result: 0 }, sort: { createdAt: -1 }, limit }
+	);
+	if (!response.success || !response.data) {
+		return { ...response, data: [] };
+	}
+	return response;
+}
+
+/**
+ * Get one of a user's sessions by ID.
+ */
+export async function getPackingSession(
+	userId: string,
+	id: string
+): Promise<DatabaseResponse<PackingSession>> {
+	if (!ObjectId.isValid(id)) {
+		return {
+			success: false,
+			status: 400,
+			error: "Invalid session ID",
+			message: `${id} is not a valid session ID.`,
+		};
+	}
+	const response = await DataService.userData.getFiltered<PackingSession>(
+		PACKING_SESSIONS_COLLECTION,
+		userId,
+		{ _id: new ObjectId(id), deletedAt: null }
+	);
+	if (!response.success) {
+		return { ...response, data: undefined };
+	}
+	const session = response.data?.[0];
+	if (!session) {
+		return {
+			success: false,
+			status: 404,
+			error: "Session not found",
+			message: `No packing session with ID ${id}.`,
+		};
+	}
+	return { success: true, status: 200, data: session };
+}
+
+/**
+ * Re-pack a stored session's inputs with its options against the current catalogue,
+ * and compare the headline figures with the stored result.
+ * Re-runs pack on the worker pool within the time budget, like the packing routes.
+ */
+export async function rerunPackingSession(
+	session: PackingSession
+): Promise<PackingSessionRerun> {
+	let result: PackingSession["result"];
+	if (session.kind === "best-box") {
+		result = await findBestBoxOffThread(session.items ?? [], session.options);
+	} else if (session.kind === "batch") {
+		result = await packOrderBatchOffThread(
+			session.orders ?? {},
+			session.options
+		);
+	} else {
+		result = await packItemsOffThread(session.items ?? [], session.options);
+	}
+
+	const original =
+		session.summary ?? summarisePackingResult(session.kind, session.result);
+	const rerun = summarisePackingResult(session.kind, result);
+	const changed =
+		original.unfitUnits !== rerun.unfitUnits ||
+		original.boxNames.join("|") !== rerun.boxNames.join("|");
+	console.log(
+		`[PackingSessions] Re-ran ${session.kind} session ${session._id}: ${
+			changed ? "result changed" : "result unchanged"
+		}${result.timedOut ? " (time budget ran out)" : ""}.`
+	);
+	const comparison: PackingSessionRerun["comparison"] = {
+		original,
+		rerun,
+		changed,
+	};
+	if (result.timedOut) {
+		comparison.timedOut = true;
+	}
+	return { result, comparison };
+}
+
+/**
+ * Count the cartons of each box type a packing result used, keyed by box ID.
+ */
+function countBoxesUsed(
+	kind: PackingSession["kind"],
+	result: PackingSession["result"]
+): Map<string, { box: ShippingBox; count: number }> {
+	const boxes =
+		kind === "best-box"
+			? [(result as BestBoxResult).box].filter(
+					(box): box is ShippingBox => box !== null
+			  )
+			: (kind === "batch"
+					? Object.values((result as BatchPackingResult).orders)
+					: [result as MultiBoxPackingResult]
+			  ).flatMap((orderResult) =>
+					orderResult.shipments.map((shipment) => shipment.box)
+			  );
+	const counts = new Map<string, { box: ShippingBox; count: number }>();
+	for (const box of boxes) {
+		const entry = counts.get(box._id) ?? { box, count: 0 };
+		entry.count++;
+		counts.set(box._id, entry);
+	}
+	return counts;
+}
+
+/**
+ * Confirm that a session's boxes were packed and shipped, and take its cartons out of stock.
+ * A session can only be confirmed once, so its stock is never taken twice.
+ */
+export async function confirmPackingSession(
+	userId: string,
+	session: PackingSession
+): Promise<DatabaseResponse<PackingSessionConfirmation>> {
+	if (session.confirmedAt) {
+		return {
+			success: false,
+			status: 409,
+			error: "Session already confirmed",
+			message: `Packing session ${session._id} was confirmed at ${session.confirmedAt}.`,
+		};
+	}
+	const response = await DataService.userData.update<PackingSession>(
+		PACKING_SESSIONS_COLLECTION,
+		userId,
+		String(session._id),
+		{ confirmedAt: new Date() }
+	);
+	if (!response.success || !response.data) {
+		return { ...response, data: undefined };
+	}
+	const boxesUsed = await useBoxStock(
+		countBoxesUsed(session.kind, session.result)
+	);
+	console.log(
+		`[PackingSessions] Confirmed ${session.kind} session ${
+			session._id
+		} using ${boxesUsed.reduce((sum, entry) => sum + entry.count, 0)} box(es).`
+	);
+	return {
+		success: true,
+		status: 200,
+		data: { session: response.data, boxesUsed },
+	};
+}
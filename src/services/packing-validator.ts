@@ -0,0 +1,235 @@
+/**
+ * Packing Layout Validator
+ * Updated: 19/10/2026
+ * Author: Deej Potter
+ * Description: Checks that a packing layout is physically possible: every unit sits inside
+ * the box, no two units overlap, the box is not over its weight limit, and every unit is
+ * supported from below. Used by POST /api/shipping/verify-packing and, in development,
+ * as a post-condition on every packing result.
+ */
+
+import {
+	LayoutPlacement,
+	LayoutVerificationResult,
+	LayoutViolation,
+	PackingLayout,
+} from "../types/box-shipping-types";
+import {
+	contentsFitPackaging,
+	getPackagingType,
+	getPackingExtents,
+} from "../utils/boxDimensions";
+
+/**
+ * Share of a unit's base that must rest on the floor or on units directly below.
+ */
+export const DEFAULT_MIN_SUPPORT_RATIO = 0.5;
+
+// Tolerance in millimeters for floating-point positions
+const EPSILON = 1e-6;
+
+/**
+ * Options for verifyPackingLayouts.
+ */
+export interface LayoutVerificationOptions {
+	/** Share of each unit's base that must be supported (0 to 1). Defaults to DEFAULT_MIN_SUPPORT_RATIO. */
+	minSupportRatio?: number;
+}
+
+/**
+ * Describe a placement for violation messages.
+ */
+function describePlacement(placement: LayoutPlacement, index: number): string {
+	return `Unit ${index} (${placement.item.sku})`;
+}
+
+/**
+ * Get the overlap of two ranges, or 0 if they don't overlap.
+ */
+function rangeOverlap(
+	startA: number,
+	lengthA: number,
+	startB: number,
+	lengthB: number
+): number {
+	return Math.max(
+		0,
+		Math.min(startA + lengthA, startB + lengthB) - Math.max(startA, startB)
+	);
+}
+
+/**
+ * Check whether two placements share any volume.
+ */
+function placementsOverlap(a: LayoutPlacement, b: LayoutPlacement): boolean {
+	return (
+		rangeOverlap(
+			a.position.x,
+			a.dimensions.width,
+			b.position.x,
+			b.dimensions.width
+		) > EPSILON &&
+		rangeOverlap(
+			a.position.y,
+			a.dimensions.height,
+			b.position.y,
+			b.dimensions.height
+		) > EPSILON &&
+		rangeOverlap(
+			a.position.z,
+			a.dimensions.depth,
+			b.position.z,
+			b.dimensions.depth
+		) > EPSILON
+	);
+}
+
+/**
+ * Get the share of a placement's base that rests on the floor or on the tops of placements below it.
+ */
+function getSupportRatio(
+	placement: LayoutPlacement,
+	placements: LayoutPlacement[]
+): number {
+	if (placement.position.y <= EPSILON) {
+		return 1; // On the floor of the box
+	}
+	const baseArea = placement.dimensions.width * placement.dimensions.depth;
+	let supportedArea = 0;
+	for (const below of placements) {
+		if (
+			below === placement ||
+			Math.abs(
+				below.position.y + below.dimensions.height - placement.position.y
+			) > EPSILON
+		) {
+			continue;
+		}
+		supportedArea +=
+			rangeOverlap(
+				placement.position.x,
+				placement.dimensions.width,
+				below.position.x,
+				below.dimensions.width
+			) *
+			rangeOverlap(
+				placement.position.z,
+				placement.dimensions.depth,
+				below.position.z,
+				below.dimensions.depth
+			);
+	}
+	return baseArea > 0 ? supportedArea / baseArea : 1;
+}
+
+/**
+ * Check one layout and append any violations.
+ */
+function verifyLayout(
+	layout: PackingLayout,
+	shipmentIndex: number,
+	minSupportRatio: number,
+	violations: LayoutViolation[]
+): void {
+	const { box, placements } = layout;
+	const space = getPackingExtents(box);
+
+	placements.forEach((placement, index) => {
+		const { position, dimensions } = placement;
+		if (
+			position.x < -EPSILON ||
+			position.y < -EPSILON ||
+			position.z < -EPSILON ||
+			position.x + dimensions.width > space.width + EPSILON ||
+			position.y + dimensions.height > space.height + EPSILON ||
+			position.z + dimensions.depth > space.length + EPSILON
+		) {
+			violations.push({
+				code: "OUT_OF_BOUNDS",
+				shipmentIndex,
+				placementIndex: index,
+				message: `${describePlacement(
+					placement,
+					index
+				)} extends outside the usable space of ${box.name}.`,
+			});
+		}
+
+		for (let other = index + 1; other < placements.length; other++) {
+			if (placementsOverlap(placement, placements[other])) {
+				violations.push({
+					code: "OVERLAP",
+					shipmentIndex,
+					placementIndex: index,
+					otherPlacementIndex: other,
+					message: `${describePlacement(
+						placement,
+						index
+					)} overlaps ${describePlacement(placements[other], other)}.`,
+				});
+			}
+		}
+
+		const supportRatio = getSupportRatio(placement, placements);
+		if (supportRatio + EPSILON < minSupportRatio) {
+			violations.push({
+				code: "UNSUPPORTED",
+				shipmentIndex,
+				placementIndex: index,
+				message: `${describePlacement(placement, index)} has only ${Math.round(
+					supportRatio * 100
+				)}% of its base supported (needs ${Math.round(
+					minSupportRatio * 100
+				)}%).`,
+			});
+		}
+	});
+
+	// Satchels and tubes also limit the contents as a whole by their perimeter or bore
+	if (getPackagingType(box) !== "box" && placements.length > 0) {
+		const extents = { length: 0, width: 0, height: 0 };
+		for (const { position, dimensions } of placements) {
+			extents.length = Math.max(extents.length, position.z + dimensions.depth);
+			extents.width = Math.max(extents.width, position.x + dimensions.width);
+			extents.height = Math.max(extents.height, position.y + dimensions.height);
+		}
+		if (!contentsFitPackaging(box, extents)) {
+			violations.push({
+				code: "OUT_OF_BOUNDS",
+				shipmentIndex,
+				placementIndex: null,
+				message: `The contents of ${box.name} (${extents.length} x ${
+					extents.width
+				} x ${extents.height} mm) do not fit the ${getPackagingType(box)}.`,
+			});
+		}
+	}
+
+	const grossWeight =
+		placements.reduce((sum, placement) => sum + placement.item.weight, 0) +
+		(box.tareWeight || 0);
+	if (grossWeight > box.maxWeight + EPSILON) {
+		violations.push({
+			code: "OVERWEIGHT",
+			shipmentIndex,
+			placementIndex: null,
+			message: `${box.name} weighs ${grossWeight} g with its contents; the limit is ${box.maxWeight} g.`,
+		});
+	}
+}
+
+/**
+ * Verify that packing layouts are physically valid.
+ * Checks containment, overlaps, weight limits and support under each unit.
+ */
+export function verifyPackingLayouts(
+	layouts: PackingLayout[],
+	options: LayoutVerificationOptions = {}
+): LayoutVerificationResult {
+	const minSupportRatio = options.minSupportRatio ?? DEFAULT_MIN_SUPPORT_RATIO;
+	const violations: LayoutViolation[] = [];
+	layouts.forEach((layout, index) =>
+		verifyLayout(layout, index, minSupportRatio, violations)
+	);
+	return { valid: violations.length === 0, violations };
+}
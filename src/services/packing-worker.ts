@@ -0,0 +1,38 @@
+/**
+ * Packing Worker
+ * Updated: 19/10/2026
+ * Author: Deej Potter
+ * Description: Worker thread entry point for the packing pool. Packs one job at a time with
+ * findBestBox or packItemsIntoMultipleBoxes and posts the result back. The box catalogue arrives with each job,
+ * and caching is left to the main thread, which sees every request.
+ */
+
+import { parentPort } from "worker_threads";
+import {
+	PackingWorkerRequest,
+	PackingWorkerResponse,
+} from "../types/box-shipping-types";
+import {
+	findBestBox,
+	packItemsIntoMultipleBoxes,
+} from "./box-shipping-calculations";
+import { configurePackingCache } from "./packing-cache";
+
+configurePackingCache({ maxEntries: 0 });
+
+parentPort?.on("message", async (request: PackingWorkerRequest) => {
+	let response: PackingWorkerResponse;
+	try {
+		const result =
+			request.kind === "best-box"
+				? await findBestBox(request.items, request.options)
+				: await packItemsIntoMultipleBoxes(request.items, request.options);
+		response = { id: request.id, result };
+	} catch (error) {
+		response = {
+			id: request.id,
+			error: error instanceof Error ? error.message : "Unknown error occurred",
+		};
+	}
+	parentPort?.postMessage(response);
+});
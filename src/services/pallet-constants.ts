@@ -0,0 +1,32 @@
+/**
+ * Pallet and Skid Constants
+ * Updated: 19/10/2026
+ * Author: Deej Potter
+ * Description: Default pallet and skid definitions for the freight fallback.
+ * When a consignment has items that no carton can take, the leftovers are loaded onto these.
+ * Dimensions are in millimeters and weights in grams.
+ */
+
+import { PalletDefinition } from "../types/box-shipping-types";
+
+export const DEFAULT_PALLETS: PalletDefinition[] = [
+	{
+		name: "Australian Standard Pallet",
+		length: 1165,
+		width: 1165,
+		deckHeight: 150,
+		maxStackHeight: 1800,
+		maxWeight: 1000000,
+		tareWeight: 30000,
+	},
+	{
+		// For extrusion lengths longer than any carton
+		name: "Long Extrusion Skid",
+		length: 3600,
+		width: 600,
+		deckHeight: 100,
+		maxStackHeight: 1000,
+		maxWeight: 500000,
+		tareWeight: 25000,
+	},
+];
@@ -0,0 +1,125 @@
+/**
+ * Shipping Rate Table Constants
+ * Updated: 19/10/2026
+ * Author: Deej Potter
+ * Description: This file contains the type definitions and the default local carrier rate table
+ * used to price shipments for cost-optimised packing.
+ * The default table can be replaced by pointing SHIPPING_RATE_TABLE_PATH at a JSON file with the same shape.
+ * Weights are in kilograms, lengths in millimeters and prices in the table's currency (ex GST).
+ */
+
+/**
+ * A price step: shipments with a chargeable weight up to maxWeightKg cost price.
+ */
+export interface WeightBreak {
+	maxWeightKg: number;
+	price: number;
+}
+
+/**
+ * A carrier service priced by chargeable weight (the greater of dead and cubic weight).
+ */
+export interface CarrierService {
+	carrier: string;
+	service: string;
+	/** Cubic conversion factor in kg per cubic metre (e.g. 250). */
+	cubicFactor: number;
+	/** Longest side the service accepts, in millimeters. */
+	maxLengthMm?: number;
+	/** Heaviest single box the service accepts, in kilograms. */
+	maxWeightKg?: number;
+	/** Weight breaks in ascending order of maxWeightKg. */
+	weightBreaks: WeightBreak[];
+}
+
+/**
+ * A flat rate for a prepaid satchel, charged regardless of weight up to maxWeightKg.
+ */
+export interface SatchelFlatRate {
+	carrier: string;
+	service: string;
+	/** Name of the catalogue box this rate applies to (e.g. "Small Satchel"). */
+	boxName: string;
+	price: number;
+	maxWeightKg: number;
+}
+
+/**
+ * The full local rate table.
+ */
+export interface RateTable {
+	currency: string;
+	/** Cubic factor (kg per cubic metre) used when reporting shipment weights. */
+	cubicFactor?: number;
+	services: CarrierService[];
+	satchelFlatRates: SatchelFlatRate[];
+	/** Packaging cost of each carton, keyed by catalogue box name. */
+	boxPrices: Record<string, number>;
+}
+
+/**
+ * Cubic factor used for reported weights when neither the request nor the rate table sets one.
+ */
+export const DEFAULT_CUBIC_FACTOR = 250;
+
+export const DEFAULT_RATE_TABLE: RateTable = {
+	currency: "AUD",
+	cubicFactor: DEFAULT_CUBIC_FACTOR,
+	services: [
+		{
+			carrier: "Australia Post",
+			service: "Parcel Post",
+			cubicFactor: 250,
+			maxLengthMm: 1050,
+			maxWeightKg: 22,
+			weightBreaks: [
+				{ maxWeightKg: 0.5, price: 10.95 },
+				{ maxWeightKg: 1, price: 14.95 },
+				{ maxWeightKg: 3, price: 18.95 },
+				{ maxWeightKg: 5, price: 22.95 },
+				{ maxWeightKg: 10, price: 32.95 },
+				{ maxWeightKg: 22, price: 49.95 },
+			],
+		},
+		{
+			carrier: "StarTrack",
+			service: "Road Express",
+			cubicFactor: 250,
+			maxWeightKg: 35,
+			weightBreaks: [
+				{ maxWeightKg: 5, price: 16.5 },
+				{ maxWeightKg: 10, price: 21.5 },
+				{ maxWeightKg: 25, price: 32.0 },
+				{ maxWeightKg: 50, price: 48.0 },
+				{ maxWeightKg: 100, price: 82.0 },
+			],
+		},
+	],
+	satchelFlatRates: [
+		{
+			carrier: "Australia Post",
+			service: "Parcel Post",
+			boxName: "Padded Satchel",
+			price: 8.95,
+			maxWeightKg: 0.5,
+		},
+		{
+			carrier: "Australia Post",
+			service: "Parcel Post",
+			boxName: "Small Satchel",
+			price: 10.95,
+			maxWeightKg: 5,
+		},
+	],
+	boxPrices: {
+		"Padded Satchel": 0.4,
+		"Small Satchel": 0.6,
+		"Small Box": 0.8,
+		"Medium Box": 1.2,
+		"Bigger Box": 1.8,
+		"Large Box": 1.5,
+		"Extra Large Box": 2.5,
+		"XXL Box": 3.5,
+		"3m Box": 6.0,
+	},
+};
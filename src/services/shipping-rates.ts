@@ -0,0 +1,169 @@
+/**
+ * Shipping Rate Service
+ * Updated: 19/10/2026
+ * Author: Deej Potter
+ * Description: Prices shipments against the local carrier rate table.
+ * Used by the "cost" packing strategy to choose the cheapest set of shipments.
+ */
+
+import fs from "fs";
+import ShippingBox from "../types/ShippingBox";
+import { ShipmentPrice } from "../types/box-shipping-types";
+import { getOuterDimensions } from "../utils/boxDimensions";
+import {
+	DEFAULT_RATE_TABLE,
+	DEFAULT_CUBIC_FACTOR,
+	RateTable,
+	CarrierService,
+} from "./shipping-rate-constants";
+
+// Cached rate table so the JSON file is only read once per process
+let cachedRateTable: RateTable | null = null;
+
+/**
+ * Get the active rate table.
+ * Reads the JSON file at SHIPPING_RATE_TABLE_PATH if set, otherwise uses DEFAULT_RATE_TABLE.
+ * Falls back to the default table if the file cannot be read.
+ */
+export function getRateTable(): RateTable {
+	if (cachedRateTable) {
+		return cachedRateTable;
+	}
+
+	const rateTablePath = process.env.SHIPPING_RATE_TABLE_PATH;
+	if (rateTablePath) {
+		try {
+			cachedRateTable = JSON.parse(
+				fs.readFileSync(rateTablePath, "utf8")
+			) as RateTable;
+			console.log(`[ShippingRates] Loaded rate table from ${rateTablePath}`);
+			return cachedRateTable;
+		} catch (error) {
+			console.error(
+				`[ShippingRates] Failed to load rate table from ${rateTablePath}. Using the default rate table.`,
+				error
+			);
+		}
+	}
+	cachedRateTable = DEFAULT_RATE_TABLE;
+	return cachedRateTable;
+}
+
+/**
+ * Calculate the cubic (volumetric) weight of a box in kilograms.
+ * Carriers measure the outside of the carton, so outer dimensions are used.
+ * @param box The box, with dimensions in millimeters.
+ * @param cubicFactor Carrier cubic factor in kg per cubic metre.
+ */
+export function calculateCubicWeightKg(
+	box: ShippingBox,
+	cubicFactor: number
+): number {
+	const { length, width, height } = getOuterDimensions(box);
+	const volumeM3 = (length * width * height) / 1e9;
+	return volumeM3 * cubicFactor;
+}
+
+/**
+ * Get the cubic factor for reported shipment weights.
+ * The explicit factor wins, then the rate table's, then DEFAULT_CUBIC_FACTOR.
+ */
+export function getCubicFactor(cubicFactor?: number): number {
+	return cubicFactor ?? getRateTable().cubicFactor ?? DEFAULT_CUBIC_FACTOR;
+}
+
+/**
+ * Price a box on a single weight-based carrier service.
+ * Returns null if the service cannot carry the box.
+ */
+function priceOnService(
+	box: ShippingBox,
+	deadWeightKg: number,
+	service: CarrierService,
+	rateTable: RateTable
+): ShipmentPrice | null {
+	const { length, width, height } = getOuterDimensions(box);
+	const longestSide = Math.max(length, width, height);
+	if (service.maxLengthMm !== undefined && longestSide > service.maxLengthMm) {
+		return null;
+	}
+
+	const cubicWeightKg = calculateCubicWeightKg(box, service.cubicFactor);
+	const chargeableWeightKg = Math.max(deadWeightKg, cubicWeightKg);
+	if (service.maxWeightKg !== undefined && deadWeightKg > service.maxWeightKg) {
+		return null;
+	}
+
+	const weightBreak = service.weightBreaks.find(
+		(wb) => chargeableWeightKg <= wb.maxWeightKg
+	);
+	if (!weightBreak) {
+		return null;
+	}
+
+	const packaging = rateTable.boxPrices[box.name] || 0;
+	return {
+		carrier: service.carrier,
+		service: service.service,
+		deadWeightKg,
+		cubicWeightKg,
+		chargeableWeightKg,
+		satchelFlatRate: false,
+		freight: weightBreak.price,
+		packaging,
+		total: weightBreak.price + packaging,
+		currency: rateTable.currency,
+	};
+}
+
+/**
+ * Find the cheapest way to send one box.
+ * Satchel flat rates are checked alongside the weight-based services.
+ * @param box The box being sent.
+ * @param contentsWeight Weight of the contents in grams. The box's tare weight is added.
+ * @param rateTable The rate table to price against (defaults to the active table).
+ * @returns The cheapest price, or null if no configured service can carry the box.
+ */
+export function priceShipment(
+	box: ShippingBox,
+	contentsWeight: number,
+	rateTable: RateTable = getRateTable()
+): ShipmentPrice | null {
+	const deadWeightKg = (contentsWeight + (box.tareWeight || 0)) / 1000;
+	const packaging = rateTable.boxPrices[box.name] || 0;
+	const options: ShipmentPrice[] = [];
+
+	for (const satchelRate of rateTable.satchelFlatRates) {
+		if (
+			satchelRate.boxName === box.name &&
+			deadWeightKg <= satchelRate.maxWeightKg
+		) {
+			options.push({
+				carrier: satchelRate.carrier,
+				service: satchelRate.service,
+				deadWeightKg,
+				cubicWeightKg: 0,
+				chargeableWeightKg: deadWeightKg,
+				satchelFlatRate: true,
+				freight: satchelRate.price,
+				packaging,
+				total: satchelRate.price + packaging,
+				currency: rateTable.currency,
+			});
+		}
+	}
+
+	for (const service of rateTable.services) {
+		const price = priceOnService(box, deadWeightKg, service, rateTable);
+		if (price) {
+			options.push(price);
+		}
+	}
+
+	if (options.length === 0) {
+		return null;
+	}
+	return options.reduce((cheapest, option) =>
+		option.total < cheapest.total ? option : cheapest
+	);
+}
@@ -5,20 +5,52 @@
  * Description: This file contains unit tests for the box shipping calculation services,
  * focusing on the 3D bin packing algorithms and helper functions.
  */
+// Mock the DataService so the packer never touches MongoDB during tests
+jest.mock("../data/DataService", () => ({
+	DataService: {
+		boxes: {
+			getAvailable: jest.fn(),
+			seedDefaults: jest.fn(),
+		},
+	},
+}));
+
 import {
 	packItemsIntoMultipleBoxes,
 	standardBoxes,
 	findBestBox,
+	getActiveBoxes,
 } from "../services/box-shipping-calculations";
+import { priceShipment } from "../services/shipping-rates";
+import {
+	DEFAULT_PACKING_CACHE_MAX_ENTRIES,
+	DEFAULT_PACKING_CACHE_TTL_MS,
+	clearPackingCache,
+	configurePackingCache,
+	getPackingCacheStats,
+	getPackingFingerprint,
+} from "../services/packing-cache";
+import { DataService } from "../data/DataService";
 import ShippingItem from "../types/ShippingItem";
 import ShippingBox from "../types/ShippingBox";
 import {
 	MultiBoxPackingResult,
 	PackedItem,
 	PackingBox,
+	PackingItem,
 } from "../types/box-shipping-types";
 
 describe("Box Shipping Calculations", () => {
+	beforeEach(() => {
+		// By default the catalogue in the database matches the seed data
+		(DataService.boxes.getAvailable as jest.Mock).mockResolvedValue({
+			success: true,
+			data: standardBoxes,
+		});
+		// Every test packs from scratch unless it is testing the cache
+		clearPackingCache();
+	});
+
 	// Define some sample items for testing
 	const itemSmall: ShippingItem = {
 		_id: "item1",
@@ -92,60 +124,129 @@ describe("Box Shipping Calculations", () => {
 		updatedAt: new Date(),
 	};
 
+	// Packing results group units per SKU, so count units via quantity
+	const countUnits = (items: PackingItem[]) =>
+		items.reduce((sum, item) => sum + (item.quantity || 0), 0);
+
 	// Remove all 'quantity' fields from ShippingItem test objects
 	// Remove or comment out tests that require passing a custom box set (e.g., [tinyBox], specificBoxes) as this is no longer supported
 	// Remove any test that passes an empty array as a second argument
 
+	describe("getActiveBoxes", () => {
+		it("should return the boxes stored in the database", async () => {
+			const dbBoxes: ShippingBox[] = [
+				{
+					_id: "db1",
+					name: "Warehouse Carton",
+					length: 400,
+					width: 300,
+					height: 200,
+					maxWeight: 20000,
+				},
+			];
+			(DataService.boxes.getAvailable as jest.Mock).mockResolvedValue({
+				success: true,
+				data: dbBoxes,
+			});
+			const boxes = await getActiveBoxes();
+			expect(boxes).toEqual(dbBoxes);
+		});
+
+		it("should seed the catalogue when the collection is empty", async () => {
+			(DataService.boxes.getAvailable as jest.Mock).mockResolvedValue({
+				success: true,
+				data: [],
+			});
+			(DataService.boxes.seedDefaults as jest.Mock).mockResolvedValue({
+				success: true,
+				data: standardBoxes,
+			});
+			const boxes = await getActiveBoxes();
+			expect(DataService.boxes.seedDefaults).toHaveBeenCalledWith(
+				standardBoxes
+			);
+			expect(boxes.length).toBe(standardBoxes.length);
+		});
+
+		it("should fall back to the default boxes if the database is unavailable", async () => {
+			(DataService.boxes.getAvailable as jest.Mock).mockResolvedValue({
+				success: false,
+				message: "connection refused",
+			});
+			const boxes = await getActiveBoxes();
+			expect(boxes).toBe(standardBoxes);
+		});
+
+		it("should pack against the loaded catalogue at call time", async () => {
+			(DataService.boxes.getAvailable as jest.Mock).mockResolvedValue({
+				success: true,
+				data: [
+					{
+						_id: "only",
+						name: "Only Box",
+						length: 500,
+						width: 500,
+						height: 500,
+						maxWeight: 25000,
+					},
+				],
+			});
+			const result = await findBestBox([itemSmall]);
+			expect(result.box?.name).toBe("Only Box");
+		});
+	});
+
 	describe("findBestBox", () => {
-		it("should select the smallest box that fits the item by dimensions and weight", () => {
-			const result = findBestBox([itemSmall]);
+		it("should select the smallest box that fits the item by dimensions and weight", async () => {
+			const result = await findBestBox([itemSmall]);
 			expect(result.box?.name).toBe("Padded Satchel");
 		});
 
-		it("should select a larger box if the item is too heavy for smaller ones", () => {
+		it("should select a larger box if the item is too heavy for smaller ones", async () => {
 			const heavySmallItem: ShippingItem = {
 				...itemSmall,
 				sku: "SKU001H",
 				weight: 400,
 			};
-			const result = findBestBox([heavySmallItem]);
+			const result = await findBestBox([heavySmallItem]);
 			expect(result.box?.name).toBe("Small Satchel");
 		});
 
-		it("should return undefined if no box can fit the item by dimensions", () => {
-			const result = findBestBox([itemTooLargeForAnyBox]);
+		it("should return undefined if no box can fit the item by dimensions", async () => {
+			const result = await findBestBox([itemTooLargeForAnyBox]);
 			expect(result.box).toBeUndefined();
 		});
 
-		it("should return undefined if no box can fit the item by weight", () => {
-			const result = findBestBox([itemLargeTooHeavy]);
+		it("should return undefined if no box can fit the item by weight", async () => {
+			const result = await findBestBox([itemLargeTooHeavy]);
 			expect(result.box).toBeUndefined();
 		});
 
-		it("should select a suitable box for a long item", () => {
-			const result = findBestBox([itemLong]);
+		it("should select a suitable box for a long item", async () => {
+			const result = await findBestBox([itemLong]);
 			expect(result.box?.name).toBe("Extra Large Box");
 		});
 
-		it("should prefer boxes with less wasted volume if multiple fit", () => {
+		it("should prefer boxes with less wasted volume if multiple fit", async () => {
 			const itemForSmallBox: ShippingItem = {
 				...itemSmall,
 				sku: "SKU007",
 				length: 180,
 				width: 140,
 				height: 90,
-				weight: 4000,
+				weight: 6000, // Too heavy for the Small Satchel
 			};
-			const result = findBestBox([itemForSmallBox]);
+			const result = await findBestBox([itemForSmallBox]);
 			expect(result.box?.name).toBe("Small Box");
 		});
 	});
 
 	describe("packItemsIntoMultipleBoxes", () => {
-		it("should pack a single small item into the smallest possible standard box", () => {
+		it("should pack a single small item into the smallest possible standard box", async () => {
 			const itemsToPack = [itemSmall];
-			const result: MultiBoxPackingResult =
-				packItemsIntoMultipleBoxes(itemsToPack);
+			const result: MultiBoxPackingResult = await packItemsIntoMultipleBoxes(
+				itemsToPack
+			);
 
 			expect(result.success).toBe(true);
 			expect(result.shipments.length).toBe(1);
@@ -155,43 +256,49 @@ describe("Box Shipping Calculations", () => {
 			expect(result.unfitItems.length).toBe(0);
 		});
 
-		it("should pack multiple identical items that fit into one box", () => {
+		it("should pack multiple identical items that fit into one box", async () => {
 			const itemsToPack = [itemSmall, itemSmall];
-			const result: MultiBoxPackingResult =
-				packItemsIntoMultipleBoxes(itemsToPack);
+			const result: MultiBoxPackingResult = await packItemsIntoMultipleBoxes(
+				itemsToPack
+			);
 
 			expect(result.success).toBe(true);
 			expect(result.shipments.length).toBe(1);
-			expect(result.shipments[0].packedItems.length).toBe(2);
+			expect(result.shipments[0].packedItems.length).toBe(1);
+			expect(result.shipments[0].packedItems[0].quantity).toBe(2);
 			expect(result.shipments[0].box?.name).toBe("Padded Satchel");
 			expect(result.unfitItems.length).toBe(0);
 		});
 
-		it("should pack three small items that fit into one Padded Satchel by weight but might need careful placement", () => {
+		it("should pack three small items that fit into one Padded Satchel by weight but might need careful placement", async () => {
 			const itemsToPack = [itemSmall, itemSmall, itemSmall];
-			const result: MultiBoxPackingResult =
-				packItemsIntoMultipleBoxes(itemsToPack);
+			const result: MultiBoxPackingResult = await packItemsIntoMultipleBoxes(
+				itemsToPack
+			);
 
 			expect(result.success).toBe(true);
 			expect(result.shipments.length).toBe(1);
-			expect(result.shipments[0].packedItems.length).toBe(3);
+			expect(result.shipments[0].packedItems.length).toBe(1);
+			expect(result.shipments[0].packedItems[0].quantity).toBe(3);
 			expect(result.shipments[0].box?.name).toBe("Padded Satchel");
 			expect(result.unfitItems.length).toBe(0);
 		});
 
-		it("should use a larger box if multiple small items exceed weight of the smallest box", () => {
+		it("should use a larger box if multiple small items exceed weight of the smallest box", async () => {
 			const itemsToPack = [itemSmall, itemSmall, itemSmall, itemSmall];
-			const result: MultiBoxPackingResult =
-				packItemsIntoMultipleBoxes(itemsToPack);
+			const result: MultiBoxPackingResult = await packItemsIntoMultipleBoxes(
+				itemsToPack
+			);
 
 			expect(result.success).toBe(true);
 			expect(result.shipments.length).toBe(1);
-			expect(result.shipments[0].packedItems.length).toBe(4);
+			expect(result.shipments[0].packedItems.length).toBe(1);
+			expect(result.shipments[0].packedItems[0].quantity).toBe(4);
 			expect(result.shipments[0].box?.name).toBe("Small Satchel");
 			expect(result.unfitItems.length).toBe(0);
 		});
 
-		it("should use multiple boxes if items do not fit in one due to volume/dimensions", () => {
+		it("should use multiple boxes if items do not fit in one due to volume/dimensions", async () => {
 			const itemChunky: ShippingItem = {
 				_id: "chunky",
 				sku: "SKUCHUNKY",
@@ -207,26 +314,27 @@ describe("Box Shipping Calculations", () => {
 				{ ...itemChunky, _id: "chunky1" },
 				{ ...itemChunky, _id: "chunky2" },
 			];
-			const result: MultiBoxPackingResult =
-				packItemsIntoMultipleBoxes(itemsToPack);
+			const result: MultiBoxPackingResult = await packItemsIntoMultipleBoxes(
+				itemsToPack
+			);
 
 			expect(result.success).toBe(true);
 			expect(result.unfitItems.length).toBe(0);
 			const totalPacked = result.shipments.reduce(
-				(sum, ship) => sum + ship.packedItems.length,
+				(sum, ship) => sum + countUnits(ship.packedItems),
 				0
 			);
 			expect(totalPacked).toBe(2);
 			if (result.shipments.length === 1) {
 				expect(result.shipments[0].box?.name).toBe("Medium Box");
-				expect(result.shipments[0].packedItems.length).toBe(2);
+				expect(countUnits(result.shipments[0].packedItems)).toBe(2);
 			} else {
 				expect(result.shipments.length).toBe(2);
 			}
 		});
 
-		it("should mark items as unfit if they cannot be packed due to size (no suitable box)", () => {
-			const result: MultiBoxPackingResult = packItemsIntoMultipleBoxes([
+		it("should mark items as unfit if they cannot be packed due to size (no suitable box)", async () => {
+			const result: MultiBoxPackingResult = await packItemsIntoMultipleBoxes([
 				itemTooLargeForAnyBox,
 			]);
 
@@ -236,8 +344,8 @@ describe("Box Shipping Calculations", () => {
 			expect(result.shipments.length).toBe(0);
 		});
 
-		it("should mark items as unfit if they cannot be packed due to weight (no suitable box)", () => {
-			const result: MultiBoxPackingResult = packItemsIntoMultipleBoxes([
+		it("should mark items as unfit if they cannot be packed due to weight (no suitable box)", async () => {
+			const result: MultiBoxPackingResult = await packItemsIntoMultipleBoxes([
 				itemLargeTooHeavy,
 			]);
 
@@ -246,10 +354,11 @@ describe("Box Shipping Calculations", () => {
 			expect(result.unfitItems[0].name).toBe(itemLargeTooHeavy.name);
 		});
 
-		it("should pack a long item into a suitable long box from standard boxes", () => {
+		it("should pack a long item into a suitable long box from standard boxes", async () => {
 			const itemsToPack = [itemLong];
-			const result: MultiBoxPackingResult =
-				packItemsIntoMultipleBoxes(itemsToPack);
+			const result: MultiBoxPackingResult = await packItemsIntoMultipleBoxes(
+				itemsToPack
+			);
 
 			expect(result.success).toBe(true);
 			expect(result.unfitItems.length).toBe(0);
@@ -259,7 +368,7 @@ describe("Box Shipping Calculations", () => {
 			expect(result.shipments[0].box?.name).toBe("Extra Large Box");
 		});
 
-		it("should handle a list of diverse items, packing some and leaving others unfit", () => {
+		it("should handle a list of diverse items, packing some and leaving others unfit", async () => {
 			const itemsToPack = [
 				{ ...itemSmall, _id: "s1" },
 				itemLargeTooHeavy,
@@ -268,8 +377,9 @@ describe("Box Shipping Calculations", () => {
 				{ ...itemMedium, _id: "m1" },
 			];
 
-			const result: MultiBoxPackingResult =
-				packItemsIntoMultipleBoxes(itemsToPack);
+			const result: MultiBoxPackingResult = await packItemsIntoMultipleBoxes(
+				itemsToPack
+			);
 
 			expect(result.success).toBe(false);
 			expect(result.unfitItems.length).toBe(2);
@@ -279,7 +389,7 @@ describe("Box Shipping Calculations", () => {
 			);
 
 			const totalPacked = result.shipments.reduce(
-				(sum, ship) => sum + ship.packedItems.length,
+				(sum, ship) => sum + countUnits(ship.packedItems),
 				0
 			);
 			expect(totalPacked).toBe(3);
@@ -292,32 +402,33 @@ describe("Box Shipping Calculations", () => {
 			);
 		});
 
-		it("should handle empty item list", () => {
-			const result: MultiBoxPackingResult = packItemsIntoMultipleBoxes([]);
+		it("should handle empty item list", async () => {
+			const result: MultiBoxPackingResult = await packItemsIntoMultipleBoxes(
+				[]
+			);
 			expect(result.success).toBe(true);
 			expect(result.shipments.length).toBe(0);
 			expect(result.unfitItems.length).toBe(0);
 		});
 
-		it("should correctly expand items with quantity > 1 before packing", () => {
+		it("should correctly expand items with quantity > 1 before packing", async () => {
 			const itemsToPack = [{ ...itemSmall, quantity: 3, _id: "multiItem" }];
-			const result = packItemsIntoMultipleBoxes(itemsToPack);
+			const result = await packItemsIntoMultipleBoxes(itemsToPack);
 			expect(result.success).toBe(true);
 			expect(result.shipments.length).toBe(1);
-			expect(result.shipments[0].packedItems.length).toBe(3);
-			result.shipments[0].packedItems.forEach((packedItem) => {
-				expect(packedItem.name).toBe(itemSmall.name);
-			});
+			expect(result.shipments[0].packedItems.length).toBe(1);
+			expect(result.shipments[0].packedItems[0].name).toBe(itemSmall.name);
+			expect(result.shipments[0].packedItems[0].quantity).toBe(3);
 		});
 
-		it("should pack items into the minimum number of boxes when possible", () => {
+		it("should pack items into the minimum number of boxes when possible", async () => {
 			const itemsToPack = [{ ...itemSmall, quantity: 20, _id: "manySmall" }];
-			const result = packItemsIntoMultipleBoxes(itemsToPack);
+			const result = await packItemsIntoMultipleBoxes(itemsToPack);
 			expect(result.success).toBe(true);
 			expect(result.unfitItems.length).toBe(0);
 
 			const totalPackedCount = result.shipments.reduce(
-				(acc, s) => acc + s.packedItems.length,
+				(acc, s) => acc + countUnits(s.packedItems),
 				0
 			);
 			expect(totalPackedCount).toBe(20);
@@ -325,5 +436,1208 @@ describe("Box Shipping Calculations", () => {
 				true
 			); // Example: expecting it to use several small boxes or one larger one.
 		});
+
+		it("should report packed and unfit counts per SKU", async () => {
+			const result = await packItemsIntoMultipleBoxes([
+				{ ...itemSmall, quantity: 2 },
+				{ ...itemLargeTooHeavy, quantity: 2 },
+			]);
+			expect(result.success).toBe(false);
+			expect(result.unfitItems).toEqual([
+				expect.objectContaining({ sku: itemLargeTooHeavy.sku, quantity: 2 }),
+			]);
+			expect(result.itemSummary).toEqual([
+				{
+					sku: itemSmall.sku,
+					name: itemSmall.name,
+					requested: 2,
+					packed: 2,
+					unfit: 0,
+				},
+				{
+					sku: itemLargeTooHeavy.sku,
+					name: itemLargeTooHeavy.name,
+					requested: 2,
+					packed: 0,
+					unfit: 2,
+				},
+			]);
+		});
+
+		it("should merge input lines that share a SKU", async () => {
+			const result = await packItemsIntoMultipleBoxes([
+				{ ...itemSmall, _id: "line1", quantity: 1 },
+				{ ...itemSmall, _id: "line2", quantity: 1 },
+			]);
+			expect(result.shipments.length).toBe(1);
+			expect(result.shipments[0].packedItems.length).toBe(1);
+			expect(result.shipments[0].packedItems[0].quantity).toBe(2);
+			expect(result.itemSummary[0].requested).toBe(2);
+		});
+
+		it("should skip items with a quantity of zero", async () => {
+			const result = await packItemsIntoMultipleBoxes([
+				{ ...itemSmall, quantity: 0 },
+			]);
+			expect(result.success).toBe(true);
+			expect(result.shipments.length).toBe(0);
+		});
+	});
+
+	describe("includePlacements", () => {
+		it("should not return placements by default", async () => {
+			const result = await packItemsIntoMultipleBoxes([itemSmall]);
+			expect(result.shipments[0].placements).toBeUndefined();
+		});
+
+		it("should return a placement for every packed unit in loading order", async () => {
+			const result = await packItemsIntoMultipleBoxes(
+				[{ ...itemSmall, quantity: 3 }],
+				{ includePlacements: true }
+			);
+			const placements = result.shipments[0].placements || [];
+			expect(placements.length).toBe(3);
+			expect(placements.map((p) => p.loadOrder)).toEqual([1, 2, 3]);
+			expect(placements[0].position).toEqual({ x: 0, y: 0, z: 0 });
+			placements.forEach((placement) => {
+				expect(placement.item.sku).toBe(itemSmall.sku);
+				expect(placement.dimensions).toEqual({
+					width: 10,
+					height: 10,
+					depth: 10,
+				});
+			});
+		});
+
+		it("should return placements from findBestBox when requested", async () => {
+			const result = await findBestBox([itemLong], {
+				includePlacements: true,
+			});
+			expect(result.placements?.length).toBe(1);
+			expect(result.placements?.[0].dimensions.depth).toBeLessThanOrEqual(
+				result.box!.length
+			);
+		});
+
+		it("should return placements for each box in a multi-box result", async () => {
+			const result = await packItemsIntoMultipleBoxes(
+				[itemLong, { ...itemMedium, quantity: 2 }],
+				{ includePlacements: true }
+			);
+			result.shipments.forEach((shipment) => {
+				expect(shipment.placements?.length).toBe(
+					countUnits(shipment.packedItems)
+				);
+			});
+		});
+	});
+
+	describe("orientation and stacking constraints", () => {
+		const cubeBox: ShippingBox = {
+			_id: "cube",
+			name: "Cube Box",
+			length: 100,
+			width: 100,
+			height: 100,
+			maxWeight: 25000,
+		};
+		const flatBox: ShippingBox = {
+			_id: "flat",
+			name: "Flat Box",
+			length: 200,
+			width: 100,
+			height: 60,
+			maxWeight: 25000,
+		};
+		const tallBox: ShippingBox = {
+			_id: "tall",
+			name: "Tall Box",
+			length: 100,
+			width: 100,
+			height: 200,
+			maxWeight: 25000,
+		};
+		const spindle: ShippingItem = {
+			_id: "spindle",
+			sku: "SPINDLE",
+			name: "Spindle",
+			length: 50,
+			width: 50,
+			height: 150,
+			weight: 1500,
+		};
+		const slab: ShippingItem = {
+			_id: "slab",
+			sku: "SLAB",
+			name: "Slab",
+			length: 100,
+			width: 100,
+			height: 50,
+			weight: 500,
+		};
+
+		it("should lay an unconstrained item on its side to use a smaller box", async () => {
+			const result = await findBestBox([spindle], {
+				boxes: [flatBox, tallBox],
+			});
+			expect(result.box?.name).toBe("Flat Box");
+		});
+
+		it("should keep a thisSideUp item upright", async () => {
+			const result = await findBestBox([{ ...spindle, thisSideUp: true }], {
+				boxes: [flatBox, tallBox],
+				includePlacements: true,
+			});
+			expect(result.box?.name).toBe("Tall Box");
+			expect(result.placements?.[0].dimensions.height).toBe(150);
+		});
+
+		it("should only use the allowed orientations", async () => {
+			const result = await findBestBox(
+				[{ ...spindle, allowedOrientations: ["height"] }],
+				{ boxes: [flatBox] }
+			);
+			expect(result.success).toBe(false);
+		});
+
+		it("should not stack anything on a fragile item and report the extra box", async () => {
+			const fragileSlab = { ...slab, sku: "GLASS", fragile: true };
+			const result = await packItemsIntoMultipleBoxes([fragileSlab, slab], {
+				boxes: [cubeBox],
+			});
+			expect(result.success).toBe(true);
+			expect(result.shipments.length).toBe(2);
+			expect(result.constraintImpact).toEqual(
+				expect.objectContaining({
+					extraBoxes: 1,
+					extraUnfitUnits: 0,
+					constrainedSkus: ["GLASS"],
+				})
+			);
+		});
+
+		it("should respect maxLoadOnTop", async () => {
+			const lightSlab = { ...slab, sku: "LIGHT", weight: 50 };
+			const heavySlab = { ...slab, sku: "HEAVY", weight: 200 };
+			const base = { ...slab, sku: "BASE", maxLoadOnTop: 100 };
+
+			const light = await packItemsIntoMultipleBoxes([base, lightSlab], {
+				boxes: [cubeBox],
+			});
+			expect(light.shipments.length).toBe(1);
+			expect(light.constraintImpact).toBeUndefined();
+
+			const heavy = await packItemsIntoMultipleBoxes([base, heavySlab], {
+				boxes: [cubeBox],
+			});
+			expect(heavy.shipments.length).toBe(2);
+			expect(heavy.constraintImpact?.extraBoxes).toBe(1);
+		});
+	});
+
+	describe("cost strategy", () => {
+		const heavyItem: PackingItem = {
+			_id: "heavy",
+			sku: "HEAVY",
+			name: "Heavy Block",
+			length: 80,
+			width: 80,
+			height: 80,
+			weight: 3000,
+			quantity: 3,
+		};
+
+		it("should attach a price to every shipment and a total", async () => {
+			const result = await packItemsIntoMultipleBoxes([heavyItem], {
+				strategy: "cost",
+			});
+			expect(result.success).toBe(true);
+			expect(result.strategy).toBe("cost");
+			expect(result.currency).toBe("AUD");
+			const shipmentTotal = result.shipments.reduce(
+				(sum, s) => sum + (s.price?.total ?? 0),
+				0
+			);
+			expect(result.totalPrice).toBeCloseTo(shipmentTotal, 2);
+			expect(countUnits(result.shipments.flatMap((s) => s.packedItems))).toBe(
+				3
+			);
+		});
+
+		it("should never cost more than the volume strategy", async () => {
+			const items = [heavyItem, { ...itemMedium, quantity: 4 }];
+			const byVolume = await packItemsIntoMultipleBoxes(items);
+			const byCost = await packItemsIntoMultipleBoxes(items, {
+				strategy: "cost",
+			});
+			const volumeTotal = byVolume.shipments.reduce((sum, s) => {
+				const weight = s.packedItems.reduce(
+					(w, item) => w + item.weight * (item.quantity ?? 1),
+					0
+				);
+				return sum + (priceShipment(s.box, weight)?.total ?? Infinity);
+			}, 0);
+			expect(byCost.unfitItems.length).toBe(0);
+			expect(byCost.totalPrice!).toBeLessThanOrEqual(volumeTotal);
+		});
+
+		it("should leave prices off the default volume strategy", async () => {
+			const result = await packItemsIntoMultipleBoxes([heavyItem]);
+			expect(result.strategy).toBe("volume");
+			expect(result.totalPrice).toBeUndefined();
+			expect(result.shipments[0].price).toBeUndefined();
+		});
+	});
+
+	describe("shipment weights", () => {
+		const taredCube: ShippingBox = {
+			_id: "tared",
+			name: "Tared Cube",
+			length: 100,
+			width: 100,
+			height: 100,
+			maxWeight: 25000,
+			tareWeight: 200,
+		};
+		const halfBlock: PackingItem = {
+			_id: "half",
+			sku: "HALF",
+			name: "Half Block",
+			length: 100,
+			width: 100,
+			height: 50,
+			weight: 500,
+		};
+
+		it("should report actual, cubic and chargeable weight and fill ratio", async () => {
+			const result = await packItemsIntoMultipleBoxes(
+				[{ ...halfBlock, quantity: 2 }],
+				{ boxes: [taredCube] }
+			);
+			expect(result.shipments[0].weights).toEqual({
+				actualWeightKg: 1.2, // 2 x 500g + 200g tare
+				cubicWeightKg: 0.25, // 0.001 m3 x 250
+				chargeableWeightKg: 1.2,
+				fillRatio: 1,
+			});
+		});
+
+		it("should bill on cubic weight with a higher cubic factor", async () => {
+			const result = await packItemsIntoMultipleBoxes([halfBlock], {
+				boxes: [taredCube],
+				cubicFactor: 2000,
+			});
+			expect(result.shipments[0].weights.cubicWeightKg).toBe(2);
+			expect(result.shipments[0].weights.chargeableWeightKg).toBe(2);
+			expect(result.shipments[0].weights.fillRatio).toBe(0.5);
+			expect(result.totals.cubicFactor).toBe(2000);
+		});
+
+		it("should roll the figures up into consignment totals", async () => {
+			const result = await packItemsIntoMultipleBoxes(
+				[{ ...halfBlock, quantity: 3 }],
+				{ boxes: [taredCube] }
+			);
+			expect(result.totals).toEqual({
+				actualWeightKg: 1.9, // 3 x 500g + 2 x 200g tare
+				cubicWeightKg: 0.5,
+				chargeableWeightKg: 1.9,
+				fillRatio: 0.75,
+				cubicFactor: 250,
+				shipmentCount: 2,
+			});
+		});
+	});
+
+	describe("box tare, walls and padding", () => {
+		const cube: PackingItem = {
+			_id: "cube-item",
+			sku: "CUBE",
+			name: "Cube",
+			length: 100,
+			width: 100,
+			height: 100,
+			weight: 800,
+		};
+		const snugBox: ShippingBox = {
+			_id: "snug",
+			name: "Snug Box",
+			length: 100,
+			width: 100,
+			height: 100,
+			maxWeight: 25000,
+		};
+
+		it("should keep the padding clearance free", async () => {
+			const padded = { ...snugBox, padding: 5 };
+			const roomy = {
+				...snugBox,
+				_id: "roomy",
+				name: "Roomy Box",
+				length: 110,
+				width: 110,
+				height: 110,
+				padding: 5,
+			};
+			const tooTight = await findBestBox([cube], { boxes: [padded] });
+			expect(tooTight.success).toBe(false);
+			const result = await findBestBox([cube], { boxes: [padded, roomy] });
+			expect(result.box?.name).toBe("Roomy Box");
+			expect(result.weights?.fillRatio).toBe(1);
+		});
+
+		it("should count the tare weight against the box's weight limit", async () => {
+			const result = await packItemsIntoMultipleBoxes([cube], {
+				boxes: [{ ...snugBox, maxWeight: 1000, tareWeight: 300 }],
+			});
+			expect(result.success).toBe(false);
+			expect(result.unfitItems[0].sku).toBe("CUBE");
+		});
+
+		it("should report outer dimensions and cubic weight from the walls", async () => {
+			const result = await packItemsIntoMultipleBoxes([cube], {
+				boxes: [{ ...snugBox, wallThickness: 5, tareWeight: 200 }],
+			});
+			expect(result.shipments[0].outerDimensions).toEqual({
+				length: 110,
+				width: 110,
+				height: 110,
+			});
+			expect(result.shipments[0].weights.actualWeightKg).toBe(1);
+			expect(result.shipments[0].weights.cubicWeightKg).toBe(0.333); // 0.001331 m3 x 250
+		});
+
+		it("should prefer explicit outer dimensions over the wall thickness", async () => {
+			const result = await findBestBox([cube], {
+				boxes: [{ ...snugBox, wallThickness: 5, outerLength: 130 }],
+			});
+			expect(result.outerDimensions).toEqual({
+				length: 130,
+				width: 110,
+				height: 110,
+			});
+		});
+	});
+
+	describe("packaging types", () => {
+		const flatPanel: PackingItem = {
+			_id: "panel",
+			sku: "PANEL",
+			name: "Flat Panel",
+			length: 300,
+			width: 100,
+			height: 10,
+			weight: 200,
+		};
+		const tube: ShippingBox = {
+			_id: "tube",
+			name: "Poster Tube",
+			length: 600,
+			width: 100,
+			height: 100,
+			maxWeight: 5000,
+			type: "tube",
+		};
+		const longBox: ShippingBox = {
+			_id: "long",
+			name: "Long Box",
+			length: 700,
+			width: 150,
+			height: 150,
+			maxWeight: 25000,
+		};
+		const rod = (side: number): PackingItem => ({
+			_id: `rod-${side}`,
+			sku: `ROD-${side}`,
+			name: "Rod",
+			length: 500,
+			width: side,
+			height: side,
+			weight: 500,
+		});
+
+		it("should fit a thin item longer than the satchel's rigid length", async () => {
+			const result = await findBestBox([flatPanel]);
+			expect(result.box?.name).toBe("Small Satchel");
+			expect(result.selection?.summary).toContain(
+				"satchels are tried before boxes"
+			);
+		});
+
+		it("should not stretch a satchel around contents that are too thick", async () => {
+			const result = await findBestBox([{ ...flatPanel, height: 60 }]);
+			expect(result.success).toBe(true);
+			expect(result.box?.name).not.toBe("Small Satchel");
+		});
+
+		it("should prefer a satchel to a smaller box when the contents fit", async () => {
+			const result = await findBestBox([
+				{ ...flatPanel, length: 180, width: 140, height: 90 },
+			]);
+			expect(result.box?.name).toBe("Small Satchel");
+			const multi = await packItemsIntoMultipleBoxes([
+				{ ...flatPanel, length: 180, width: 140, height: 90 },
+			]);
+			expect(multi.shipments[0].box.name).toBe("Small Box");
+		});
+
+		it("should only put contents in a tube if their cross-section fits the bore", async () => {
+			const boxes = [tube, longBox];
+			const thin = await findBestBox([rod(60)], { boxes });
+			expect(thin.box?.name).toBe("Poster Tube");
+			// 80 x 80 mm has a 113 mm diagonal, too wide for the 100 mm bore
+			const thick = await findBestBox([rod(80)], { boxes });
+			expect(thick.box?.name).toBe("Long Box");
+
+			const unfit = await packItemsIntoMultipleBoxes([rod(80)], {
+				boxes: [tube],
+			});
+			expect(unfit.unfitItems[0].reason.code).toBe("NO_ORIENTATION_FITS");
+		});
+	});
+
+	describe("packing algorithms", () => {
+		const mixedOrder: PackingItem[] = [
+			{ ...itemMedium, quantity: 6 },
+			{ ...itemSmall, quantity: 20 },
+			{
+				_id: "plank",
+				sku: "PLANK",
+				name: "Plank",
+				length: 180,
+				width: 60,
+				height: 20,
+				weight: 400,
+				quantity: 3,
+			},
+		];
+
+		// Every placement must sit inside the box and clear every other placement
+		const expectValidPlacements = (result: MultiBoxPackingResult) => {
+			for (const shipment of result.shipments) {
+				const placements = shipment.placements!;
+				for (const p of placements) {
+					expect(p.position.x + p.dimensions.width).toBeLessThanOrEqual(
+						shipment.box.width
+					);
+					expect(p.position.y + p.dimensions.height).toBeLessThanOrEqual(
+						shipment.box.height
+					);
+					expect(p.position.z + p.dimensions.depth).toBeLessThanOrEqual(
+						shipment.box.length
+					);
+				}
+				for (let i = 0; i < placements.length; i++) {
+					for (let j = i + 1; j < placements.length; j++) {
+						const a = placements[i];
+						const b = placements[j];
+						const overlaps =
+							a.position.x < b.position.x + b.dimensions.width &&
+							b.position.x < a.position.x + a.dimensions.width &&
+							a.position.y < b.position.y + b.dimensions.height &&
+							b.position.y < a.position.y + a.dimensions.height &&
+							a.position.z < b.position.z + b.dimensions.depth &&
+							b.position.z < a.position.z + a.dimensions.depth;
+						expect(overlaps).toBe(false);
+					}
+				}
+			}
+		};
+
+		it.each(["extreme-point", "layer", "best-fit-decreasing"] as const)(
+			"should pack every unit without overlaps using %s",
+			async (algorithm) => {
+				const result = await packItemsIntoMultipleBoxes(mixedOrder, {
+					algorithm,
+					includePlacements: true,
+				});
+				expect(result.success).toBe(true);
+				expect(result.algorithm).toBe(algorithm);
+				expect(countUnits(result.shipments.flatMap((s) => s.packedItems))).toBe(
+					29
+				);
+				expectValidPlacements(result);
+			}
+		);
+
+		it("should fill layers across the box before starting a new wall", async () => {
+			const result = await packItemsIntoMultipleBoxes(
+				[{ ...itemSmall, quantity: 4 }],
+				{
+					algorithm: "layer",
+					includePlacements: true,
+					boxes: [
+						{
+							_id: "wall",
+							name: "Wall Box",
+							length: 20,
+							width: 20,
+							height: 10,
+							maxWeight: 25000,
+						},
+					],
+				}
+			);
+			expect(
+				result.shipments[0].placements!.map((p) => [
+					p.position.x,
+					p.position.y,
+					p.position.z,
+				])
+			).toEqual([
+				[0, 0, 0],
+				[10, 0, 0],
+				[0, 0, 10],
+				[10, 0, 10],
+			]);
+		});
+
+		it("should run every algorithm in compare mode and keep the best", async () => {
+			const result = await packItemsIntoMultipleBoxes(mixedOrder, {
+				algorithm: "compare",
+			});
+			expect(result.compareBy).toBe("boxes");
+			expect(result.comparison!.map((c) => c.algorithm)).toEqual([
+				"extreme-point",
+				"layer",
+				"best-fit-decreasing",
+			]);
+			const fewestBoxes = Math.min(
+				...result.comparison!.map((c) => c.boxCount)
+			);
+			expect(result.shipments.length).toBe(fewestBoxes);
+		});
+
+		it("should rank compare results by fill ratio when asked", async () => {
+			const result = await packItemsIntoMultipleBoxes(mixedOrder, {
+				algorithm: "compare",
+				compareBy: "fill",
+			});
+			const bestFill = Math.max(...result.comparison!.map((c) => c.fillRatio));
+			expect(result.totals.fillRatio).toBe(bestFill);
+		});
+	});
+
+	describe("extrusion bundling", () => {
+		const extrusion: PackingItem = {
+			_id: "vslot",
+			sku: "LR-2020-S-1500",
+			name: "V-Slot 2020 - 1.5m",
+			length: 1500,
+			width: 20,
+			height: 20,
+			weight: 500,
+			quantity: 10,
+		};
+
+		it("should strap identical long items into one bundle", async () => {
+			const result = await packItemsIntoMultipleBoxes([extrusion]);
+			expect(result.success).toBe(true);
+			expect(result.shipments.length).toBe(1);
+			expect(result.shipments[0].bundles).toEqual([
+				{
+					bundleId: "LR-2020-S-1500-BUNDLE-1",
+					sku: "LR-2020-S-1500",
+					name: "V-Slot 2020 - 1.5m",
+					quantity: 10,
+					length: 1500,
+					width: 80, // 4 columns of 20mm
+					height: 60, // 3 rows of 20mm
+					weight: 5000,
+				},
+			]);
+			expect(result.shipments[0].packedItems[0].quantity).toBe(10);
+			expect(result.itemSummary[0].packed).toBe(10);
+		});
+
+		it("should respect the bundle size and weight limits", async () => {
+			const bySize = await packItemsIntoMultipleBoxes([extrusion], {
+				bundling: { maxItemsPerBundle: 4 },
+			});
+			expect(
+				bySize.shipments.flatMap((s) => s.bundles!).map((b) => b.quantity)
+			).toEqual([4, 4, 2]);
+
+			const byWeight = await packItemsIntoMultipleBoxes([extrusion], {
+				bundling: { maxBundleWeight: 1200 },
+			});
+			expect(
+				byWeight.shipments.flatMap((s) => s.bundles!).map((b) => b.quantity)
+			).toEqual([2, 2, 2, 2, 2]);
+		});
+
+		it("should pack units separately when bundling is off or items are short", async () => {
+			const unbundled = await packItemsIntoMultipleBoxes([extrusion], {
+				bundling: false,
+			});
+			expect(unbundled.shipments.every((s) => !s.bundles)).toBe(true);
+
+			const short = await packItemsIntoMultipleBoxes([
+				{ ...extrusion, length: 500 },
+			]);
+			expect(short.shipments.every((s) => !s.bundles)).toBe(true);
+		});
+
+		it("should place the bundle as a single unit", async () => {
+			const result = await packItemsIntoMultipleBoxes([extrusion], {
+				includePlacements: true,
+			});
+			expect(result.shipments[0].placements!.length).toBe(1);
+			expect(result.shipments[0].placements![0].item.name).toBe(
+				"V-Slot 2020 - 1.5m (bundle of 10)"
+			);
+		});
+	});
+
+	describe("freight fallback", () => {
+		it("should leave oversize items unfit unless freight is enabled", async () => {
+			const result = await packItemsIntoMultipleBoxes([itemLargeTooHeavy]);
+			expect(result.success).toBe(false);
+			expect(result.freight).toBeUndefined();
+		});
+
+		it("should load items no box can take onto a pallet", async () => {
+			const result = await packItemsIntoMultipleBoxes(
+				[itemSmall, itemLargeTooHeavy],
+				{ freight: true }
+			);
+			expect(result.success).toBe(true);
+			expect(result.unfitItems).toEqual([]);
+			expect(result.shipments.length).toBe(1);
+			expect(result.freight).toEqual(
+				expect.objectContaining({
+					palletCount: 1,
+					grossWeight: 60000, // 30kg item + 30kg pallet
+				})
+			);
+			const pallet = result.freight!.shipments[0];
+			expect(pallet.pallet.name).toBe("Australian Standard Pallet");
+			expect(pallet.stackedHeight).toBe(250); // 150mm deck + 100mm item
+			expect(result.itemSummary.find((s) => s.sku === "SKU003")!.packed).toBe(
+				1
+			);
+		});
+
+		it("should use a skid for lengths beyond the longest pallet deck", async () => {
+			const result = await packItemsIntoMultipleBoxes(
+				[
+					{
+						_id: "beam",
+						sku: "BEAM-3500",
+						name: "Beam 3.5m",
+						length: 3500,
+						width: 40,
+						height: 40,
+						weight: 3000,
+						quantity: 2,
+					},
+				],
+				{ freight: true }
+			);
+			expect(result.freight!.shipments[0].pallet.name).toBe(
+				"Long Extrusion Skid"
+			);
+			expect(result.freight!.shipments[0].packedItems[0].quantity).toBe(2);
+		});
+
+		it("should respect the pallet height limit", async () => {
+			const result = await packItemsIntoMultipleBoxes(
+				// 950mm every way fits the deck but not under the 900mm load height
+				[{ ...itemLargeTooHeavy, length: 950, width: 950, height: 950 }],
+				{
+					freight: true,
+					pallets: [
+						{
+							name: "Low Skid",
+							length: 1200,
+							width: 1000,
+							deckHeight: 100,
+							maxStackHeight: 1000,
+							maxWeight: 500000,
+							tareWeight: 20000,
+						},
+					],
+				}
+			);
+			expect(result.freight).toBeUndefined();
+			expect(result.unfitItems.length).toBe(1);
+		});
+	});
+
+	describe("unfit reasons and box choice", () => {
+		it("should give a reason code and limit for each unfit item", async () => {
+			const result = await packItemsIntoMultipleBoxes([
+				itemLargeTooHeavy,
+				itemTooLargeForAnyBox,
+			]);
+			const reasons = Object.fromEntries(
+				result.unfitItems.map((item) => [item.sku, item.reason])
+			);
+			expect(reasons[itemLargeTooHeavy.sku]).toEqual(
+				expect.objectContaining({
+					code: "EXCEEDS_MAX_WEIGHT",
+					value: 30000,
+					limit: 25000,
+				})
+			);
+			expect(reasons[itemTooLargeForAnyBox.sku]).toEqual(
+				expect.objectContaining({
+					code: "LONGEST_SIDE_TOO_LONG",
+					value: 4000,
+					limit: 3050,
+				})
+			);
+		});
+
+		it("should report when no allowed orientation fits", async () => {
+			const result = await packItemsIntoMultipleBoxes(
+				[
+					{
+						_id: "post",
+						sku: "POST",
+						name: "Upright Post",
+						length: 50,
+						width: 50,
+						height: 150,
+						weight: 500,
+						thisSideUp: true,
+					},
+				],
+				{
+					boxes: [
+						{
+							_id: "flat",
+							name: "Flat Box",
+							length: 200,
+							width: 100,
+							height: 60,
+							maxWeight: 25000,
+						},
+					],
+				}
+			);
+			expect(result.unfitItems[0].reason.code).toBe("NO_ORIENTATION_FITS");
+		});
+
+		it("should explain why each box was chosen", async () => {
+			const result = await packItemsIntoMultipleBoxes([itemMedium]);
+			const selection = result.shipments[0].selection!;
+			expect(selection.singleBoxShortcut).toBe(true);
+			expect(selection.runnersUp.length).toBeGreaterThan(0);
+			expect(selection.runnersUp.map((r) => r.name)).not.toContain(
+				result.shipments[0].box.name
+			);
+			// Runners-up never beat the chosen box's score
+			for (const runnerUp of selection.runnersUp) {
+				expect(runnerUp.preferenceScore).toBeGreaterThanOrEqual(
+					selection.preferenceScore
+				);
+			}
+			expect(selection.summary).toContain(result.shipments[0].box.name);
+		});
+
+		it("should not claim the shortcut when several boxes were needed", async () => {
+			const result = await packItemsIntoMultipleBoxes(
+				[{ ...itemMedium, quantity: 3 }],
+				{
+					boxes: [
+						{
+							_id: "one",
+							name: "One Cube Box",
+							length: 50,
+							width: 50,
+							height: 50,
+							maxWeight: 25000,
+						},
+					],
+				}
+			);
+			expect(result.shipments.length).toBe(3);
+			expect(
+				result.shipments.every((s) => s.selection!.singleBoxShortcut === false)
+			).toBe(true);
+		});
+	});
+
+	describe("segregation", () => {
+		const battery: PackingItem = {
+			...itemSmall,
+			_id: "battery",
+			sku: "BAT-18650",
+			name: "18650 Cell",
+			hazardClass: "lithium-battery",
+			quantity: 2,
+		};
+		const bleach: PackingItem = {
+			...itemSmall,
+			_id: "bleach",
+			sku: "OXY-1",
+			name: "Oxidiser",
+			hazardClass: "oxidiser",
+		};
+		const acid: PackingItem = {
+			...itemSmall,
+			_id: "acid",
+			sku: "COR-1",
+			name: "Etchant",
+			hazardClass: "corrosive",
+		};
+
+		it("should pack lithium batteries in their own labelled box", async () => {
+			const result = await packItemsIntoMultipleBoxes([
+				{ ...itemSmall, quantity: 2 },
+				battery,
+			]);
+			expect(result.shipments.length).toBe(2);
+			const batteryBox = result.shipments.find((s) =>
+				s.packedItems.some((item) => item.sku === "BAT-18650")
+			)!;
+			expect(batteryBox.packedItems.map((item) => item.sku)).toEqual([
+				"BAT-18650",
+			]);
+			expect(batteryBox.labels).toEqual([
+				"Class 9 - Lithium batteries (UN3480/UN3481)",
+			]);
+			const otherBox = result.shipments.find((s) => s !== batteryBox)!;
+			expect(otherBox.labels).toBeUndefined();
+		});
+
+		it("should keep incompatible classes apart and label mixed boxes", async () => {
+			const result = await packItemsIntoMultipleBoxes([
+				bleach,
+				acid,
+				itemSmall,
+			]);
+			expect(result.shipments.length).toBe(2);
+			expect(result.shipments.map((s) => s.labels)).toEqual(
+				expect.arrayContaining([
+					["Class 5.1 - Oxidising substance"],
+					["Class 8 - Corrosive"],
+				])
+			);
+		});
+
+		it("should ship an item that is incompatible with its own tag one unit per box", async () => {
+			const result = await packItemsIntoMultipleBoxes([
+				{
+					...itemSmall,
+					segregationTags: ["ship-separately"],
+					incompatibleWith: ["ship-separately"],
+					quantity: 3,
+				},
+			]);
+			expect(result.shipments.length).toBe(3);
+			expect(result.shipments.every((s) => !s.labels)).toBe(true);
+		});
+
+		it("should not pick a single best box for items that must be kept apart", async () => {
+			const result = await findBestBox([battery, itemSmall]);
+			expect(result.success).toBe(false);
+			expect(result.box).toBeNull();
+		});
+	});
+
+	describe("dispatch waves", () => {
+		const options = { dispatchDate: "2026-10-20" };
+		const backorder = "2026-11-02";
+
+		it("should pack each dispatch wave separately and price the split", async () => {
+			const result = await packItemsIntoMultipleBoxes(
+				[itemMedium, { ...itemSmall, availableOn: backorder }],
+				options
+			);
+			expect(result.success).toBe(true);
+			expect(
+				result.shipments.map((s) => [s.dispatchDate, s.packedItems[0].sku])
+			).toEqual([
+				["2026-10-20", "SKU002"],
+				[backorder, "SKU001"],
+			]);
+			expect(result.totals.shipmentCount).toBe(2);
+
+			const dispatch = result.dispatch!;
+			expect(
+				dispatch.waves.map((w) => [w.dispatchDate, w.shipmentCount])
+			).toEqual([
+				["2026-10-20", 1],
+				[backorder, 1],
+			]);
+			expect(dispatch.together).toMatchObject({
+				dispatchDate: backorder,
+				shipmentCount: 1,
+			});
+			expect(dispatch.splitPrice).toBeCloseTo(
+				dispatch.waves[0].price + dispatch.waves[1].price,
+				2
+			);
+			expect(dispatch.extraCost).toBeCloseTo(
+				dispatch.splitPrice - dispatch.together!.price,
+				2
+			);
+			expect(dispatch.extraCost).toBeGreaterThan(0);
+			expect(dispatch.currency).toBe("AUD");
+		});
+
+		it("should report a SKU split across waves once per wave", async () => {
+			const result = await packItemsIntoMultipleBoxes(
+				[
+					{ ...itemSmall, quantity: 2 },
+					{ ...itemSmall, quantity: 3, availableOn: backorder },
+				],
+				options
+			);
+			expect(
+				result.shipments.map((s) => [s.dispatchDate, countUnits(s.packedItems)])
+			).toEqual([
+				["2026-10-20", 2],
+				[backorder, 3],
+			]);
+			expect(result.itemSummary).toEqual([
+				expect.objectContaining({ sku: "SKU001", requested: 5, packed: 5 }),
+			]);
+		});
+
+		it("should ship lines available by the dispatch date in one consignment", async () => {
+			const result = await packItemsIntoMultipleBoxes(
+				[itemMedium, { ...itemSmall, availableOn: "2026-10-01" }],
+				options
+			);
+			expect(result.dispatch).toBeUndefined();
+			expect(result.shipments.length).toBe(1);
+			expect(result.shipments[0].dispatchDate).toBeUndefined();
+		});
+	});
+
+	describe("box stock", () => {
+		const outOfStockSatchel: ShippingBox = {
+			...standardBoxes[0],
+			stockOnHand: 0,
+		};
+		const stockedBoxes = [outOfStockSatchel, ...standardBoxes.slice(1)];
+		const bigBox: ShippingBox = {
+			_id: "big",
+			name: "Big Box",
+			length: 100,
+			width: 100,
+			height: 100,
+			maxWeight: 25000,
+			stockOnHand: 0,
+		};
+		const tinyBox: ShippingBox = {
+			_id: "tiny",
+			name: "Tiny Box",
+			length: 20,
+			width: 20,
+			height: 20,
+			maxWeight: 25000,
+			stockOnHand: 5,
+		};
+
+		it("should pick a box in stock over a better-fitting box with none", async () => {
+			const inStock = await findBestBox([itemSmall], {
+				boxes: standardBoxes.slice(1),
+			});
+			const best = await findBestBox([itemSmall], { boxes: stockedBoxes });
+			expect(best.box?.name).not.toBe("Padded Satchel");
+			expect(best.box?.name).toBe(inStock.box?.name);
+			const multiInStock = await packItemsIntoMultipleBoxes([itemSmall], {
+				boxes: standardBoxes.slice(1),
+			});
+			const multi = await packItemsIntoMultipleBoxes([itemSmall], {
+				boxes: stockedBoxes,
+			});
+			expect(multi.shipments.map((s) => s.box.name)).toEqual(
+				multiInStock.shipments.map((s) => s.box.name)
+			);
+		});
+
+		it("should only use an out-of-stock box when nothing in stock fits", async () => {
+			const boxes = [bigBox, tinyBox];
+			const best = await findBestBox([itemMedium], { boxes });
+			expect(best.box?.name).toBe("Big Box");
+			const multi = await packItemsIntoMultipleBoxes([itemMedium], { boxes });
+			expect(multi.shipments.map((s) => s.box.name)).toEqual(["Big Box"]);
+		});
+
+		it("should leave items unfit when skipping out-of-stock boxes", async () => {
+			const options = { boxes: [bigBox, tinyBox], outOfStock: "skip" as const };
+			const best = await findBestBox([itemMedium], options);
+			expect(best.success).toBe(false);
+			const multi = await packItemsIntoMultipleBoxes([itemMedium], options);
+			expect(multi.shipments).toEqual([]);
+			expect(multi.unfitItems.length).toBe(1);
+		});
+	});
+
+	describe("packing cache", () => {
+		const items: PackingItem[] = [
+			{ ...itemSmall, quantity: 4 },
+			{ ...itemMedium, quantity: 2 },
+		];
+
+		afterEach(() => {
+			jest.useRealTimers();
+			configurePackingCache({
+				ttlMs: DEFAULT_PACKING_CACHE_TTL_MS,
+				maxEntries: DEFAULT_PACKING_CACHE_MAX_ENTRIES,
+			});
+		});
+
+		it("should reuse the result for the same items in any order", async () => {
+			(DataService.boxes.getAvailable as jest.Mock).mockClear();
+			const first = await packItemsIntoMultipleBoxes(items);
+			const second = await packItemsIntoMultipleBoxes([...items].reverse());
+			expect(second).toEqual(first);
+			expect(getPackingCacheStats()).toMatchObject({
+				hits: 1,
+				misses: 1,
+				hitRate: 0.5,
+				size: 1,
+			});
+			// The catalogue is still loaded so a changed catalogue is noticed
+			expect(DataService.boxes.getAvailable).toHaveBeenCalledTimes(2);
+		});
+
+		it("should return a copy that callers can change", async () => {
+			const first = await packItemsIntoMultipleBoxes(items);
+			first.shipments[0].packedItems = [];
+			const second = await packItemsIntoMultipleBoxes(items);
+			expect(second.shipments[0].packedItems.length).toBeGreaterThan(0);
+		});
+
+		it("should miss when an item, an option or the catalogue changes", () => {
+			const fingerprint = getPackingFingerprint(items, standardBoxes);
+			expect(
+				getPackingFingerprint(
+					[items[0], { ...items[1], quantity: 3 }],
+					standardBoxes
+				)
+			).not.toBe(fingerprint);
+			expect(
+				getPackingFingerprint(
+					[items[0], { ...items[1], thisSideUp: true }],
+					standardBoxes
+				)
+			).not.toBe(fingerprint);
+			expect(
+				getPackingFingerprint(items, standardBoxes, { strategy: "cost" })
+			).not.toBe(fingerprint);
+			expect(
+				getPackingFingerprint(items, [
+					{ ...standardBoxes[0], maxWeight: standardBoxes[0].maxWeight + 1 },
+					...standardBoxes.slice(1),
+				])
+			).not.toBe(fingerprint);
+			expect(
+				getPackingFingerprint(items, [...standardBoxes].reverse(), {
+					boxes: standardBoxes,
+				})
+			).toBe(fingerprint);
+			// Stock counts only matter once a box runs out
+			expect(
+				getPackingFingerprint(
+					items,
+					standardBoxes.map((box) => ({ ...box, stockOnHand: 50 }))
+				)
+			).toBe(fingerprint);
+			expect(
+				getPackingFingerprint(items, [
+					{ ...standardBoxes[0], stockOnHand: 0 },
+					...standardBoxes.slice(1),
+				])
+			).not.toBe(fingerprint);
+		});
+
+		it("should expire results after the TTL and drop the least recently used", async () => {
+			jest.useFakeTimers({ now: new Date("2026-10-19T00:00:00Z") });
+			configurePackingCache({ ttlMs: 1000, maxEntries: 2 });
+			await packItemsIntoMultipleBoxes([items[0]]);
+			await packItemsIntoMultipleBoxes([items[1]]);
+			await packItemsIntoMultipleBoxes([items[0]]); // Hit, now most recently used
+			await packItemsIntoMultipleBoxes(items); // Evicts items[1]
+			expect(getPackingCacheStats()).toMatchObject({ hits: 1, size: 2 });
+			await packItemsIntoMultipleBoxes([items[1]]);
+			expect(getPackingCacheStats()).toMatchObject({ hits: 1, misses: 4 });
+
+			jest.advanceTimersByTime(1000);
+			await packItemsIntoMultipleBoxes([items[1]]);
+			expect(getPackingCacheStats()).toMatchObject({
+				hits: 1,
+				misses: 5,
+				size: 1,
+			});
+		});
+	});
+
+	describe("time budget", () => {
+		it("should return what it packed in time and mark the rest as skipped", async () => {
+			const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+			const result = await packItemsIntoMultipleBoxes(
+				[{ ...itemSmall, quantity: 3 }, itemTooLargeForAnyBox],
+				{ timeBudgetMs: 0 }
+			);
+			warn.mockRestore();
+
+			expect(result.timedOut).toBe(true);
+			expect(result.success).toBe(false);
+			const reasons = Object.fromEntries(
+				result.unfitItems.map((item) => [item.sku, item.reason.code])
+			);
+			expect(reasons).toEqual({
+				[itemSmall.sku]: "TIME_BUDGET_EXCEEDED",
+				[itemTooLargeForAnyBox.sku]: "LONGEST_SIDE_TOO_LONG",
+			});
+			// A partial result is never reused
+			expect(getPackingCacheStats().size).toBe(0);
+		});
+
+		it("should compare only the algorithms that ran before the budget ran out", async () => {
+			const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+			const result = await packItemsIntoMultipleBoxes([itemSmall], {
+				algorithm: "compare",
+				timeBudgetMs: 0,
+			});
+			warn.mockRestore();
+			expect(result.timedOut).toBe(true);
+			expect(result.comparison?.map((entry) => entry.algorithm)).toEqual([
+				"extreme-point",
+			]);
+		});
+
+		it("should not mark results that finish within the budget", async () => {
+			const result = await packItemsIntoMultipleBoxes(
+				[{ ...itemSmall, quantity: 3 }],
+				{ timeBudgetMs: 60000 }
+			);
+			expect(result.success).toBe(true);
+			expect(result.timedOut).toBeUndefined();
+			expect(getPackingCacheStats().size).toBe(1);
+		});
+	});
+
+	describe("Development post-condition", () => {
+		const originalEnv = process.env.NODE_ENV;
+		afterEach(() => {
+			process.env.NODE_ENV = originalEnv;
+		});
+
+		it("should verify every algorithm's layouts in development mode", async () => {
+			process.env.NODE_ENV = "development";
+			const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+			const items: PackingItem[] = [
+				{ ...itemSmall, quantity: 6 },
+				{ ...itemMedium, quantity: 3 },
+			];
+			for (const algorithm of [
+				"extreme-point",
+				"layer",
+				"best-fit-decreasing",
+			] as const) {
+				await expect(
+					packItemsIntoMultipleBoxes(items, { algorithm })
+				).resolves.toMatchObject({ success: true });
+			}
+			warn.mockRestore();
+		});
 	});
 });
@@ -0,0 +1,228 @@
+/**
+ * Tests for the Box Recommendation Report
+ * Updated: 19/10/2026
+ * Author: Deej Potter
+ * Description: Replays mocked packing sessions against a small catalogue and checks the usage
+ * figures, the proposed box sizes and the admin-only report route.
+ */
+
+// Mock the DataService so sessions and boxes never touch MongoDB during tests
+jest.mock("../data/DataService", () => ({
+	DataService: {
+		boxes: {
+			getAvailable: jest.fn(),
+			seedDefaults: jest.fn(),
+		},
+		userData: {
+			getFiltered: jest.fn(),
+		},
+	},
+}));
+
+import express from "express";
+import request from "supertest";
+import reportRoutes from "../routes/reports";
+import { DataService } from "../data/DataService";
+import { buildBoxRecommendationReport } from "../services/box-recommendations";
+import { configurePackingPool } from "../services/packing-pool";
+import { clearPackingCache } from "../services/packing-cache";
+import ShippingBox from "../types/ShippingBox";
+import { PackingItem } from "../types/box-shipping-types";
+
+const catalogue: ShippingBox[] = [
+	{
+		_id: "cube",
+		name: "Cube Box",
+		length: 300,
+		width: 300,
+		height: 300,
+		maxWeight: 25000,
+		stockOnHand: 0,
+	},
+	{
+		_id: "long",
+		name: "Long Box",
+		length: 600,
+		width: 60,
+		height: 60,
+		maxWeight: 25000,
+	},
+];
+
+const block: PackingItem = {
+	sku: "BLOCK",
+	name: "Block",
+	length: 100,
+	width: 100,
+	height: 45,
+	weight: 400,
+	quantity: 2,
+};
+
+const rail: PackingItem = {
+	sku: "RAIL",
+	name: "Rail",
+	length: 500,
+	width: 20,
+	height: 20,
+	weight: 250,
+};
+
+const sessions = [
+	{
+		_id: "s1",
+		kind: "multi-box",
+		items: [block],
+		options: {},
+		createdAt: new Date("2026-10-01"),
+	},
+	{
+		_id: "s2",
+		kind: "best-box",
+		items: [block],
+		options: {},
+		createdAt: new Date("2026-10-02"),
+	},
+	{
+		_id: "s3",
+		kind: "batch",
+		orders: { "A-1": [block], "A-2": [rail] },
+		options: {},
+		createdAt: new Date("2026-10-03"),
+	},
+];
+
+describe("Box recommendation report", () => {
+	beforeAll(() => {
+		configurePackingPool({ concurrency: 0 });
+	});
+
+	beforeEach(() => {
+		clearPackingCache();
+		(DataService.boxes.getAvailable as jest.Mock).mockResolvedValue({
+			success: true,
+			data: catalogue,
+		});
+		(DataService.userData.getFiltered as jest.Mock).mockReset();
+		(DataService.userData.getFiltered as jest.Mock).mockImplementation(
+			async (_collection, userId) => ({
+				success: true,
+				data: userId === "anonymous" ? sessions : [],
+			})
+		);
+		jest.spyOn(console, "log").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	it("should replay every order and total box usage and waste", async () => {
+		const report = await buildBoxRecommendationReport({
+			userIds: ["anonymous"],
+		});
+		expect(report).toMatchObject({
+			objective: "volume",
+			sessionCount: 3,
+			orderCount: 4,
+			shipmentCount: 4,
+			unfitUnits: 0,
+		});
+		// Stock is ignored, so the out-of-stock cube box is still used
+		expect(report.boxUsage.map((usage) => [usage.name, usage.count])).toEqual([
+			["Cube Box", 3],
+			["Long Box", 1],
+		]);
+		expect(report.boxUsage[0].share).toBe(0.75);
+		expect(report.largestWaste[0]).toMatchObject({ boxId: "cube" });
+		expect(report.largestWaste.map((entry) => entry.orderId)).toContain("A-1");
+		expect(
+			report.fillRatios.buckets.reduce((sum, bucket) => sum + bucket.count, 0)
+		).toBe(4);
+	});
+
+	it("should propose a box sized to the wasteful layouts", async () => {
+		const report = await buildBoxRecommendationReport({
+			userIds: ["anonymous"],
+			proposals: 2,
+		});
+		const [proposal] = report.proposals;
+		expect(proposal.shipmentsMoved).toBe(3);
+		expect(proposal.replaces).toEqual([
+			{ boxId: "cube", name: "Cube Box", count: 3 },
+		]);
+		// Two 100 x 100 x 45 blocks, rounded up to the next 10 mm
+		const volume = (proposal.length * proposal.width * proposal.height) / 1e6;
+		expect(volume).toBeLessThanOrEqual(1);
+		expect(proposal.volumeSavedLitres).toBeCloseTo(3 * (27 - volume), 3);
+		expect(proposal.maxWeight).toBe(25000);
+	});
+
+	it("should report cost savings under the cost objective", async () => {
+		const report = await buildBoxRecommendationReport({
+			userIds: ["anonymous"],
+			objective: "cost",
+		});
+		expect(report.currency).toBe("AUD");
+		expect(report.proposals.length).toBeGreaterThan(0);
+		for (const proposal of report.proposals) {
+			expect(proposal.costSaved).toBeGreaterThan(0);
+		}
+	});
+
+	it("should propose nothing when asked for no proposals", async () => {
+		const report = await buildBoxRecommendationReport({
+			userIds: ["anonymous"],
+			proposals: 0,
+		});
+		expect(report.proposals).toEqual([]);
+	});
+
+	describe("GET /api/reports/box-recommendations", () => {
+		const asUser =
+			(isMaster: boolean): express.RequestHandler =>
+			(req, res, next) => {
+				req.auth = {
+					userId: "admin",
+					sessionClaims: { publicMetadata: { isMaster } },
+				} as any;
+				next();
+			};
+		const appFor = (isMaster: boolean) => {
+			const app = express();
+			app.use("/api/reports", asUser(isMaster), reportRoutes);
+			return app;
+		};
+
+		it("should only serve the report to the master admin", async () => {
+			const forbidden = await request(appFor(false)).get(
+				"/api/reports/box-recommendations"
+			);
+			expect(forbidden.status).toBe(403);
+
+			const response = await request(appFor(true)).get(
+				"/api/reports/box-recommendations?proposals=1"
+			);
+			expect(response.status).toBe(200);
+			expect(response.body.data.userIds).toEqual(["anonymous", "admin"]);
+			expect(response.body.data.proposals.length).toBe(1);
+		});
+
+		it("should reject an invalid objective, proposal count or session limit", async () => {
+			const app = appFor(true);
+			const objective = await request(app).get(
+				"/api/reports/box-recommendations?objective=speed"
+			);
+			expect(objective.status).toBe(400);
+			const proposals = await request(app).get(
+				"/api/reports/box-recommendations?proposals=11"
+			);
+			expect(proposals.status).toBe(400);
+			const limit = await request(app).get(
+				"/api/reports/box-recommendations?limit=2001"
+			);
+			expect(limit.status).toBe(400);
+			expect(limit.body.message).toContain("2000");
+		});
+	});
+});
@@ -0,0 +1,157 @@
+/**
+ * Tests for Kit Expansion
+ * Updated: 19/10/2026
+ * Author: Deej Potter
+ * Description: Checks kit lines are replaced with their components or pre-packed carton,
+ * that nested kits multiply out, and that broken kit definitions are reported per line.
+ */
+
+// Mock the DataService so the item catalogue never touches MongoDB during tests
+jest.mock("../data/DataService", () => ({
+	DataService: {
+		shippingItems: {
+			getAvailable: jest.fn(),
+		},
+	},
+}));
+
+import { DataService } from "../data/DataService";
+import { expandKits } from "../services/kit-expansion";
+import KitDefinition from "../types/KitDefinition";
+import ShippingItem from "../types/ShippingItem";
+
+const catalogue: ShippingItem[] = [
+	{
+		_id: "rail",
+		sku: "LR-2020-S-500",
+		name: "V-Slot 2020 - 500mm",
+		length: 500,
+		width: 20,
+		height: 20,
+		weight: 250,
+	},
+	{
+		_id: "plate",
+		sku: "PLATE-GANTRY",
+		name: "Gantry Plate",
+		length: 127,
+		width: 88,
+		height: 3,
+		weight: 90,
+		fragile: true,
+	},
+];
+
+const kits: KitDefinition[] = [
+	{
+		sku: "KIT-GANTRY",
+		name: "Gantry Kit",
+		components: [{ sku: "plate-gantry", quantity: 2 }],
+	},
+	{
+		sku: "KIT-FRAME",
+		name: "Frame Kit",
+		components: [
+			{ sku: "LR-2020-S-500", quantity: 4 },
+			{ sku: "KIT-GANTRY", quantity: 2 },
+		],
+	},
+	{
+		sku: "KIT-BOXED",
+		name: "Boxed Frame Kit",
+		components: [{ sku: "KIT-FRAME", quantity: 1 }],
+		carton: { length: 520, width: 150, height: 80, weight: 1500 },
+	},
+];
+
+describe("Kit expansion", () => {
+	beforeEach(() => {
+		(DataService.shippingItems.getAvailable as jest.Mock).mockReset();
+		(DataService.shippingItems.getAvailable as jest.Mock).mockResolvedValue({
+			success: true,
+			data: catalogue,
+		});
+		jest.spyOn(console, "log").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	it("should leave a request without kits untouched", async () => {
+		const items = [{ ...catalogue[0], quantity: 2 }];
+		const result = await expandKits(items, kits);
+		expect(result).toEqual({ items, kits: [], errors: [] });
+		expect(DataService.shippingItems.getAvailable).not.toHaveBeenCalled();
+	});
+
+	it("should multiply nested kits out into catalogue items", async () => {
+		const result = await expandKits(
+			[{ sku: "kit-frame", quantity: 3 } as any],
+			kits
+		);
+		expect(result.errors).toEqual([]);
+		expect(
+			result.items.map((item) => [item.sku, item.quantity, item.fragile])
+		).toEqual([
+			["LR-2020-S-500", 12, undefined],
+			["PLATE-GANTRY", 12, true],
+		]);
+		expect(result.kits).toEqual([
+			{
+				index: 0,
+				sku: "KIT-FRAME",
+				name: "Frame Kit",
+				quantity: 3,
+				shippedAs: "components",
+				components: [
+					{ sku: "LR-2020-S-500", quantity: 12 },
+					{ sku: "PLATE-GANTRY", quantity: 12 },
+				],
+			},
+		]);
+	});
+
+	it("should pack a kit with a carton as the carton", async () => {
+		const result = await expandKits(
+			[{ sku: "KIT-BOXED", quantity: 2 } as any],
+			kits
+		);
+		expect(result.items).toEqual([
+			{
+				sku: "KIT-BOXED",
+				name: "Boxed Frame Kit",
+				length: 520,
+				width: 150,
+				height: 80,
+				weight: 1500,
+				quantity: 2,
+			},
+		]);
+		expect(result.kits[0]).toMatchObject({
+			shippedAs: "carton",
+			components: [],
+		});
+		expect(DataService.shippingItems.getAvailable).not.toHaveBeenCalled();
+	});
+
+	it("should report a kit that contains itself", async () => {
+		const loop: KitDefinition[] = [
+			{ sku: "KIT-A", name: "A", components: [{ sku: "KIT-B", quantity: 1 }] },
+			{ sku: "KIT-B", name: "B", components: [{ sku: "KIT-A", quantity: 1 }] },
+		];
+		const result = await expandKits(
+			[catalogue[0], { sku: "KIT-A" } as any],
+			loop
+		);
+		expect(result.items).toEqual([catalogue[0]]);
+		expect(result.errors).toEqual([
+			{
+				index: 1,
+				sku: "KIT-A",
+				field: "sku",
+				message: "Kit KIT-A contains itself (KIT-A > KIT-B > KIT-A).",
+			},
+		]);
+	});
+});
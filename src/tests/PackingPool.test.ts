@@ -0,0 +1,188 @@
+/**
+ * Tests for the Packing Worker Pool
+ * Updated: 19/10/2026
+ * Author: Deej Potter
+ * Description: Packs through a real worker thread and checks the results match main-thread packing,
+ * that the main thread's cache is shared by every worker, and that time budgets reach the worker.
+ */
+
+// Mock the DataService so the main thread never touches MongoDB during tests
+jest.mock("../data/DataService", () => ({
+	DataService: {
+		boxes: {
+			getAvailable: jest.fn(),
+			seedDefaults: jest.fn(),
+		},
+	},
+}));
+
+import {
+	findBestBox,
+	packItemsIntoMultipleBoxes,
+	standardBoxes,
+} from "../services/box-shipping-calculations";
+import {
+	configurePackingPool,
+	findBestBoxOffThread,
+	getPackingPoolStats,
+	packItemsOffThread,
+	packOrderBatchOffThread,
+	shutdownPackingPool,
+} from "../services/packing-pool";
+import {
+	clearPackingCache,
+	getPackingCacheStats,
+} from "../services/packing-cache";
+import { PackingItem } from "../types/box-shipping-types";
+
+// Starting a worker compiles the packer with ts-node, which takes a few seconds
+jest.setTimeout(60000);
+
+const items: PackingItem[] = [
+	{
+		_id: "item1",
+		sku: "SKU001",
+		name: "Small Item",
+		length: 10,
+		width: 10,
+		height: 10,
+		weight: 100,
+		quantity: 4,
+	},
+	{
+		_id: "item2",
+		sku: "SKU002",
+		name: "Medium Item",
+		length: 150,
+		width: 100,
+		height: 80,
+		weight: 400,
+		quantity: 2,
+	},
+];
+
+describe("Packing worker pool", () => {
+	beforeAll(() => {
+		// Workers load the real DataService, which only needs a URI until it connects
+		process.env.MONGODB_URI ??= "mongodb://localhost:27017/packing-pool-test";
+		configurePackingPool({ concurrency: 1 });
+	});
+
+	beforeEach(() => {
+		clearPackingCache();
+		jest.spyOn(console, "log").mockImplementation(() => {});
+		jest.spyOn(console, "warn").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	afterAll(async () => {
+		await shutdownPackingPool();
+	});
+
+	it("should pack on a worker the same as on the main thread and share the cache", async () => {
+		const offThread = await packItemsOffThread(items, {
+			boxes: standardBoxes,
+		});
+		const onThread = await packItemsIntoMultipleBoxes(items, {
+			boxes: standardBoxes,
+			timeBudgetMs: 60000,
+		});
+		expect(offThread.timedOut).toBeUndefined();
+		expect(offThread.shipments.map((s) => s.box.name)).toEqual(
+			onThread.shipments.map((s) => s.box.name)
+		);
+		expect(offThread.itemSummary).toEqual(onThread.itemSummary);
+
+		// The main thread found the worker's result in the cache
+		expect(getPackingCacheStats()).toMatchObject({ hits: 1, misses: 1 });
+		expect(getPackingPoolStats()).toMatchObject({
+			concurrency: 1,
+			workers: 1,
+			busy: 0,
+			queued: 0,
+		});
+	});
+
+	it("should pass the time budget to the worker and not cache a partial result", async () => {
+		const result = await packItemsOffThread(items, {
+			boxes: standardBoxes,
+			timeBudgetMs: 0,
+		});
+		expect(result.timedOut).toBe(true);
+		expect(result.unfitItems.map((item) => item.reason.code)).toEqual([
+			"TIME_BUDGET_EXCEEDED",
+			"TIME_BUDGET_EXCEEDED",
+		]);
+		expect(getPackingCacheStats().size).toBe(0);
+	});
+
+	it("should find the best box on a worker, within the time budget", async () => {
+		const offThread = await findBestBoxOffThread(items, {
+			boxes: standardBoxes,
+		});
+		const onThread = await findBestBox(items, { boxes: standardBoxes });
+		expect(offThread.success).toBe(true);
+		expect(offThread.box?.name).toBe(onThread.box?.name);
+		expect(offThread.timedOut).toBeUndefined();
+
+		const timedOut = await findBestBoxOffThread(items, {
+			boxes: standardBoxes,
+			timeBudgetMs: 0,
+		});
+		expect(timedOut).toMatchObject({
+			success: false,
+			box: null,
+			timedOut: true,
+		});
+		expect(getPackingPoolStats()).toMatchObject({ busy: 0, queued: 0 });
+	});
+
+	it("should queue batch orders for the pool and flag a batch with a timed-out order", async () => {
+		const result = await packOrderBatchOffThread(
+			{ "ORDER-1": items, "ORDER-2": [items[0]] },
+			{ boxes: standardBoxes, timeBudgetMs: 0 }
+		);
+		expect(Object.keys(result.orders)).toEqual(["ORDER-1", "ORDER-2"]);
+		expect(result.timedOut).toBe(true);
+		expect(result.totals.incompleteOrderIds).toEqual(["ORDER-1", "ORDER-2"]);
+		expect(getPackingPoolStats()).toMatchObject({ busy: 0, queued: 0 });
+	});
+
+	it("should not reuse a dated result once the day has changed", async () => {
+		// Only fake the clock: the worker still needs real timers to answer
+		jest.useFakeTimers({
+			now: new Date("2026-10-19T23:59:00Z"),
+			doNotFake: [
+				"hrtime",
+				"nextTick",
+				"performance",
+				"queueMicrotask",
+				"setImmediate",
+				"clearImmediate",
+				"setInterval",
+				"clearInterval",
+				"setTimeout",
+				"clearTimeout",
+			],
+		});
+		try {
+			const datedItems = [items[0], { ...items[1], availableOn: "2026-10-20" }];
+			const beforeMidnight = await packItemsOffThread(datedItems, {
+				boxes: standardBoxes,
+			});
+			expect(beforeMidnight.dispatch?.waves).toHaveLength(2);
+
+			jest.setSystemTime(new Date("2026-10-20T00:01:00Z"));
+			const afterMidnight = await packItemsOffThread(datedItems, {
+				boxes: standardBoxes,
+			});
+			expect(afterMidnight.dispatch).toBeUndefined();
+			expect(getPackingCacheStats()).toMatchObject({ hits: 0, misses: 2 });
+		} finally {
+			jest.useRealTimers();
+		}
+	});
+});
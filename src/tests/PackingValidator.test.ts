@@ -0,0 +1,125 @@
+/**
+ * Tests for the Packing Layout Validator
+ * Updated: 19/10/2026
+ * Author: Deej Potter
+ * Description: Checks the validator against hand-built layouts, covering containment,
+ * overlaps, weight limits and support from below.
+ */
+
+import { verifyPackingLayouts } from "../services/packing-validator";
+import { LayoutPlacement, PackingLayout } from "../types/box-shipping-types";
+import ShippingBox from "../types/ShippingBox";
+
+const testBox: ShippingBox = {
+	_id: "box_test",
+	name: "Test Box",
+	length: 300,
+	width: 200,
+	height: 200,
+	maxWeight: 5000,
+};
+
+/**
+ * Build a placement of a 100mm cube at the given position.
+ */
+function cubeAt(
+	x: number,
+	y: number,
+	z: number,
+	weight = 500
+): LayoutPlacement {
+	return {
+		item: { sku: "CUBE", weight },
+		position: { x, y, z },
+		dimensions: { width: 100, height: 100, depth: 100 },
+	};
+}
+
+function layout(placements: LayoutPlacement[], box = testBox): PackingLayout {
+	return { box, placements };
+}
+
+describe("Packing Layout Validator", () => {
+	it("should accept a valid layout with a stacked unit", () => {
+		const result = verifyPackingLayouts([
+			layout([cubeAt(0, 0, 0), cubeAt(100, 0, 0), cubeAt(0, 100, 0)]),
+		]);
+		expect(result).toEqual({ valid: true, violations: [] });
+	});
+
+	it("should report units outside the usable space, including padding", () => {
+		const result = verifyPackingLayouts([
+			layout([cubeAt(150, 0, 0)]),
+			layout([cubeAt(0, 0, 0)], { ...testBox, padding: 60 }),
+		]);
+		expect(result.valid).toBe(false);
+		expect(result.violations.map((v) => [v.code, v.shipmentIndex])).toEqual([
+			["OUT_OF_BOUNDS", 0],
+			["OUT_OF_BOUNDS", 1],
+		]);
+	});
+
+	it("should check a satchel's contents against its girth", () => {
+		const satchel: ShippingBox = {
+			...testBox,
+			_id: "satchel_test",
+			name: "Test Satchel",
+			length: 200,
+			width: 100,
+			height: 100,
+			type: "satchel",
+		};
+		const result = verifyPackingLayouts([
+			layout([cubeAt(0, 0, 0), cubeAt(0, 0, 100)], satchel),
+			layout([cubeAt(0, 0, 0), cubeAt(0, 0, 100), cubeAt(0, 0, 200)], satchel),
+		]);
+		// The third cube stays inside the flat satchel, but 300 mm of 100 mm-thick contents is too long
+		expect(
+			result.violations.map((v) => [v.code, v.shipmentIndex, v.placementIndex])
+		).toEqual([["OUT_OF_BOUNDS", 1, null]]);
+	});
+
+	it("should report overlapping units but not units that only touch", () => {
+		const result = verifyPackingLayouts([
+			layout([cubeAt(0, 0, 0), cubeAt(50, 0, 50), cubeAt(100, 0, 150)]),
+		]);
+		expect(result.violations).toHaveLength(1);
+		expect(result.violations[0]).toMatchObject({
+			code: "OVERLAP",
+			placementIndex: 0,
+			otherPlacementIndex: 1,
+		});
+	});
+
+	it("should count the carton's tare weight against maxWeight", () => {
+		const result = verifyPackingLayouts([
+			layout([cubeAt(0, 0, 0, 2400), cubeAt(100, 0, 0, 2400)], {
+				...testBox,
+				tareWeight: 300,
+			}),
+		]);
+		expect(result.violations).toEqual([
+			expect.objectContaining({ code: "OVERWEIGHT", placementIndex: null }),
+		]);
+	});
+
+	it("should report units that float or overhang too far", () => {
+		const result = verifyPackingLayouts([
+			layout([cubeAt(0, 0, 0), cubeAt(0, 100, 100), cubeAt(100, 50, 0)]),
+		]);
+		expect(result.violations.map((v) => [v.code, v.placementIndex])).toEqual([
+			["UNSUPPORTED", 1],
+			["UNSUPPORTED", 2],
+		]);
+	});
+
+	it("should honour a custom minSupportRatio", () => {
+		// Half of the top unit's base rests on the one below
+		const placements = [cubeAt(0, 0, 0), cubeAt(0, 100, 50)];
+		expect(verifyPackingLayouts([layout(placements)]).valid).toBe(true);
+		expect(
+			verifyPackingLayouts([layout(placements)], { minSupportRatio: 0.75 })
+				.valid
+		).toBe(false);
+	});
+});
@@ -0,0 +1,91 @@
+/**
+ * Tests for the Shipping Rate Service
+ * Updated: 19/10/2026
+ * Author: Deej Potter
+ * Description: Checks shipment pricing against the default local rate table,
+ * covering satchel flat rates, cubic weight and service limits.
+ */
+
+import {
+	calculateCubicWeightKg,
+	priceShipment,
+} from "../services/shipping-rates";
+import { DEFAULT_RATE_TABLE } from "../services/shipping-rate-constants";
+import ShippingBox from "../types/ShippingBox";
+
+// Copies of the default catalogue boxes, kept local so the test never loads the DataService
+const testBoxes: ShippingBox[] = [
+	{
+		_id: "box_1",
+		name: "Small Satchel",
+		length: 240,
+		width: 150,
+		height: 100,
+		maxWeight: 5000,
+	},
+	{
+		_id: "box_2",
+		name: "Medium Box",
+		length: 290,
+		width: 290,
+		height: 190,
+		maxWeight: 25000,
+	},
+	{
+		_id: "box_3",
+		name: "Bigger Box",
+		length: 440,
+		width: 340,
+		height: 240,
+		maxWeight: 25000,
+	},
+	{
+		_id: "box_4",
+		name: "3m Box",
+		length: 3050,
+		width: 150,
+		height: 150,
+		maxWeight: 25000,
+	},
+];
+
+const getBox = (name: string): ShippingBox =>
+	testBoxes.find((box) => box.name === name)!;
+
+describe("Shipping Rates", () => {
+	it("should calculate cubic weight from the box volume", () => {
+		// 0.44 x 0.34 x 0.24 m = 0.035904 m3 at 250 kg/m3
+		expect(calculateCubicWeightKg(getBox("Bigger Box"), 250)).toBeCloseTo(
+			8.976,
+			3
+		);
+	});
+
+	it("should use the satchel flat rate when it is cheapest", () => {
+		const price = priceShipment(
+			getBox("Small Satchel"),
+			1000,
+			DEFAULT_RATE_TABLE
+		);
+		expect(price?.satchelFlatRate).toBe(true);
+		expect(price?.total).toBeCloseTo(11.55, 2);
+	});
+
+	it("should charge on cubic weight when it exceeds dead weight", () => {
+		const price = priceShipment(getBox("Bigger Box"), 1000, DEFAULT_RATE_TABLE);
+		expect(price?.chargeableWeightKg).toBeCloseTo(8.976, 3);
+		expect(price?.carrier).toBe("StarTrack");
+		expect(price?.total).toBeCloseTo(23.3, 2);
+	});
+
+	it("should skip services whose length limit the box exceeds", () => {
+		const price = priceShipment(getBox("3m Box"), 2000, DEFAULT_RATE_TABLE);
+		expect(price?.carrier).toBe("StarTrack");
+	});
+
+	it("should return null when no service can carry the box", () => {
+		expect(
+			priceShipment(getBox("Medium Box"), 40000, DEFAULT_RATE_TABLE)
+		).toBeNull();
+	});
+});
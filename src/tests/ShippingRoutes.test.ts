@@ -0,0 +1,1111 @@
+/**
+ * Tests for Shipping API Routes
+ * Updated: 19/10/2026
+ * Author: Deej Potter
+ * Description: Exercises the box calculation endpoints through Express with supertest,
+ * focusing on request validation and response shapes. The DataService is mocked so no
+ * database connection is needed.
+ */
+
+// Mock the DataService so the routes never touch MongoDB during tests
+jest.mock("../data/DataService", () => ({
+	DataService: {
+		boxes: {
+			getAvailable: jest.fn(),
+			seedDefaults: jest.fn(),
+			update: jest.fn(),
+		},
+		kits: {
+			getAvailable: jest.fn(),
+			add: jest.fn(),
+		},
+		shippingItems: {
+			getAvailable: jest.fn(),
+		},
+		userData: {
+			add: jest.fn(),
+			getFiltered: jest.fn(),
+			update: jest.fn(),
+		},
+	},
+}));
+
+import express from "express";
+import request from "supertest";
+import pdf from "pdf-parse";
+import shippingRoutes from "../routes/shipping";
+import { standardBoxes } from "../services/box-shipping-calculations";
+import { configurePackingPool } from "../services/packing-pool";
+import { DataService } from "../data/DataService";
+
+const app = express();
+app.use(express.json());
+// Stand in for clerkMiddleware: sign the request in as the user named in the x-test-user header
+app.use((req, res, next) => {
+	const userId = req.header("x-test-user");
+	if (userId) {
+		req.auth = {
+			userId,
+			sessionClaims: {
+				publicMetadata: { isMaster: req.header("x-test-master") === "true" },
+			},
+		} as any;
+	}
+	next();
+});
+app.use("/api/shipping", shippingRoutes);
+
+const validItem = {
+	_id: "item1",
+	sku: "SKU001",
+	name: "Small Item",
+	length: 10,
+	width: 10,
+	height: 10,
+	weight: 100,
+};
+
+const sessionId = "6710a1b2c3d4e5f601234567";
+
+describe("Shipping Routes", () => {
+	beforeAll(() => {
+		// Pack on the main thread: worker threads would load the real DataService, not this mock
+		configurePackingPool({ concurrency: 0 });
+	});
+
+	beforeEach(() => {
+		(DataService.boxes.getAvailable as jest.Mock).mockResolvedValue({
+			success: true,
+			data: standardBoxes,
+		});
+		(DataService.kits.getAvailable as jest.Mock).mockResolvedValue({
+			success: true,
+			data: [],
+		});
+		// Echo stored sessions back with a fixed ID
+		(DataService.userData.add as jest.Mock).mockImplementation(
+			async (_collection, _userId, document) => ({
+				success: true,
+				data: { ...document, _id: sessionId },
+			})
+		);
+	});
+
+	describe("POST /api/shipping/calculate-box", () => {
+		it("should return the best box for valid items", async () => {
+			const response = await request(app)
+				.post("/api/shipping/calculate-box")
+				.send([validItem]);
+			expect(response.status).toBe(200);
+			expect(response.body.success).toBe(true);
+			expect(response.body.box.name).toBe("Padded Satchel");
+		});
+
+		it("should accept a time budget and reject a non-positive one", async () => {
+			const addSession = DataService.userData.add as jest.Mock;
+			addSession.mockClear();
+			const response = await request(app)
+				.post("/api/shipping/calculate-box?timeBudgetMs=5000")
+				.send([validItem]);
+			expect(response.status).toBe(200);
+			expect(response.body.timedOut).toBeUndefined();
+			expect(addSession).toHaveBeenCalledWith(
+				"PackingSessions",
+				"anonymous",
+				expect.objectContaining({
+					options: expect.objectContaining({ timeBudgetMs: 5000 }),
+				})
+			);
+			const invalid = await request(app)
+				.post("/api/shipping/calculate-box?timeBudgetMs=-1")
+				.send([validItem]);
+			expect(invalid.status).toBe(400);
+		});
+
+		it("should reject an empty body with a structured error", async () => {
+			const response = await request(app)
+				.post("/api/shipping/calculate-box")
+				.send([]);
+			expect(response.status).toBe(400);
+			expect(response.body.errors).toEqual([
+				expect.objectContaining({ index: -1, field: "items" }),
+			]);
+		});
+	});
+
+	describe("POST /api/shipping/pack-multiple", () => {
+		it("should pack valid items and include placements when requested", async () => {
+			const response = await request(app)
+				.post("/api/shipping/pack-multiple?includePlacements=true")
+				.send([{ ...validItem, quantity: 2 }]);
+			expect(response.status).toBe(200);
+			expect(response.body.success).toBe(true);
+			expect(response.body.shipments[0].placements.length).toBe(2);
+		});
+
+		it("should list every invalid item and field instead of returning a 500", async () => {
+			const response = await request(app)
+				.post("/api/shipping/pack-multiple")
+				.send([
+					validItem,
+					{ ...validItem, sku: "", length: -5 },
+					{ ...validItem, sku: "SKU003", weight: "heavy", quantity: 1.5 },
+					"not an item",
+				]);
+			expect(response.status).toBe(400);
+			expect(response.body.success).toBe(false);
+			expect(
+				response.body.errors.map((e: any) => `${e.index}:${e.field}`)
+			).toEqual(["1:sku", "1:length", "2:weight", "2:quantity", "3:item"]);
+			expect(response.body.errors[2].sku).toBe("SKU003");
+		});
+
+		it("should validate orientation and stacking constraints", async () => {
+			const response = await request(app)
+				.post("/api/shipping/pack-multiple")
+				.send([
+					{ ...validItem, thisSideUp: true, maxLoadOnTop: 500 },
+					{
+						...validItem,
+						allowedOrientations: ["sideways"],
+						fragile: "yes",
+						maxLoadOnTop: -1,
+					},
+				]);
+			expect(response.status).toBe(400);
+			expect(response.body.errors.map((e: any) => e.field)).toEqual([
+				"allowedOrientations",
+				"fragile",
+				"maxLoadOnTop",
+			]);
+		});
+
+		it("should reject thisSideUp with orientations that never keep the height vertical", async () => {
+			const response = await request(app)
+				.post("/api/shipping/pack-multiple")
+				.send([
+					{
+						...validItem,
+						thisSideUp: true,
+						allowedOrientations: ["height", "length"],
+					},
+					{
+						...validItem,
+						thisSideUp: true,
+						allowedOrientations: ["length", "width"],
+					},
+				]);
+			expect(response.status).toBe(400);
+			expect(response.body.errors).toEqual([
+				expect.objectContaining({
+					index: 1,
+					field: "allowedOrientations",
+					message: expect.stringContaining("thisSideUp"),
+				}),
+			]);
+		});
+
+		it("should validate hazard classes and segregation tags", async () => {
+			const response = await request(app)
+				.post("/api/shipping/pack-multiple")
+				.send([
+					{ ...validItem, hazardClass: "lithium-battery" },
+					{
+						...validItem,
+						hazardClass: "radioactive",
+						segregationTags: "food",
+						incompatibleWith: [""],
+					},
+				]);
+			expect(response.status).toBe(400);
+			expect(response.body.errors.map((e: any) => e.field)).toEqual([
+				"hazardClass",
+				"segregationTags",
+				"incompatibleWith",
+			]);
+		});
+
+		it("should split dispatch waves and validate availability dates", async () => {
+			const response = await request(app)
+				.post("/api/shipping/pack-multiple?dispatchDate=2026-10-20")
+				.send([
+					validItem,
+					{ ...validItem, sku: "SKU002", availableOn: "2026-11-02" },
+				]);
+			expect(response.status).toBe(200);
+			expect(response.body.dispatch.waves).toHaveLength(2);
+			expect(response.body.dispatch.together.shipmentCount).toBe(1);
+
+			const badLine = await request(app)
+				.post("/api/shipping/pack-multiple")
+				.send([{ ...validItem, availableOn: "2026-02-30" }]);
+			expect(badLine.status).toBe(400);
+			expect(badLine.body.errors[0].field).toBe("availableOn");
+			const badDate = await request(app)
+				.post("/api/shipping/pack-multiple?dispatchDate=soon")
+				.send([validItem]);
+			expect(badDate.status).toBe(400);
+			expect(badDate.body.error).toBe("Invalid dispatchDate");
+		});
+
+		it("should price shipments for strategy=cost", async () => {
+			const response = await request(app)
+				.post("/api/shipping/pack-multiple?strategy=cost")
+				.send([validItem]);
+			expect(response.status).toBe(200);
+			expect(response.body.strategy).toBe("cost");
+			expect(response.body.currency).toBe("AUD");
+			expect(response.body.shipments[0].price.total).toBe(
+				response.body.totalPrice
+			);
+		});
+
+		it("should reject an unknown strategy", async () => {
+			const response = await request(app)
+				.post("/api/shipping/pack-multiple?strategy=cheapest")
+				.send([validItem]);
+			expect(response.status).toBe(400);
+			expect(response.body.error).toBe("Invalid strategy");
+		});
+
+		it("should reject an unknown algorithm", async () => {
+			const response = await request(app)
+				.post("/api/shipping/pack-multiple?algorithm=random")
+				.send([validItem]);
+			expect(response.status).toBe(400);
+			expect(response.body.error).toBe("Invalid algorithm");
+		});
+
+		it("should return a comparison in compare mode", async () => {
+			const response = await request(app)
+				.post("/api/shipping/pack-multiple?algorithm=compare&compareBy=cost")
+				.send([validItem]);
+			expect(response.status).toBe(200);
+			expect(response.body.compareBy).toBe("cost");
+			expect(response.body.comparison).toHaveLength(3);
+		});
+
+		it("should reject an invalid bundle limit", async () => {
+			const response = await request(app)
+				.post("/api/shipping/pack-multiple?bundleMaxItems=none")
+				.send([validItem]);
+			expect(response.status).toBe(400);
+			expect(response.body.error).toBe("Invalid bundleMaxItems");
+		});
+
+		it("should reject a non-positive cubicFactor", async () => {
+			const response = await request(app)
+				.post("/api/shipping/pack-multiple?cubicFactor=0")
+				.send([validItem]);
+			expect(response.status).toBe(400);
+			expect(response.body.error).toBe("Invalid cubicFactor");
+		});
+
+		it("should accept a time budget and reject a non-positive one", async () => {
+			const response = await request(app)
+				.post("/api/shipping/pack-multiple?timeBudgetMs=30000")
+				.send([validItem]);
+			expect(response.status).toBe(200);
+			expect(response.body.success).toBe(true);
+			expect(response.body.timedOut).toBeUndefined();
+
+			const invalid = await request(app)
+				.post("/api/shipping/pack-multiple?timeBudgetMs=-5")
+				.send([validItem]);
+			expect(invalid.status).toBe(400);
+			expect(invalid.body.error).toBe("Invalid timeBudgetMs");
+		});
+	});
+
+	describe("POST /api/shipping/pack-batch", () => {
+		it("should pack each order and total the boxes by type", async () => {
+			(DataService.boxes.getAvailable as jest.Mock).mockClear();
+			const response = await request(app)
+				.post("/api/shipping/pack-batch")
+				.send({
+					orders: {
+						"ORD-1": [validItem],
+						"ORD-2": [{ ...validItem, quantity: 2 }],
+					},
+				});
+			expect(response.status).toBe(200);
+			expect(response.body.success).toBe(true);
+			expect(Object.keys(response.body.orders)).toEqual(["ORD-1", "ORD-2"]);
+			expect(response.body.orders["ORD-1"].shipments).toHaveLength(1);
+			expect(response.body.boxesByType).toEqual([
+				{
+					boxId: response.body.orders["ORD-1"].shipments[0].box._id,
+					name: response.body.orders["ORD-1"].shipments[0].box.name,
+					count: 2,
+				},
+			]);
+			expect(response.body.totals).toEqual({
+				orderCount: 2,
+				boxCount: 2,
+				palletCount: 0,
+				incompleteOrderIds: [],
+			});
+			// The catalogue is loaded once for the whole batch
+			expect(DataService.boxes.getAvailable).toHaveBeenCalledTimes(1);
+		});
+
+		it("should tag item errors with their order ID", async () => {
+			const response = await request(app)
+				.post("/api/shipping/pack-batch")
+				.send({
+					orders: {
+						"ORD-1": [validItem],
+						"ORD-2": [{ ...validItem, weight: 0 }],
+					},
+				});
+			expect(response.status).toBe(400);
+			expect(response.body.errors).toEqual([
+				expect.objectContaining({
+					orderId: "ORD-2",
+					index: 0,
+					field: "weight",
+				}),
+			]);
+		});
+
+		it("should reject a body without orders", async () => {
+			const response = await request(app)
+				.post("/api/shipping/pack-batch")
+				.send([validItem]);
+			expect(response.status).toBe(400);
+			expect(response.body.errors[0].field).toBe("orders");
+		});
+	});
+
+	describe("POST /api/shipping/verify-packing", () => {
+		it("should accept a layout returned by pack-multiple", async () => {
+			const packed = await request(app)
+				.post("/api/shipping/pack-multiple?includePlacements=true")
+				.send([{ ...validItem, quantity: 4 }]);
+			const response = await request(app)
+				.post("/api/shipping/verify-packing")
+				.send(packed.body);
+			expect(response.status).toBe(200);
+			expect(response.body).toEqual({ valid: true, violations: [] });
+		});
+
+		it("should report overlapping placements", async () => {
+			const placement = {
+				item: validItem,
+				position: { x: 0, y: 0, z: 0 },
+				dimensions: { width: 10, height: 10, depth: 10 },
+			};
+			const response = await request(app)
+				.post("/api/shipping/verify-packing")
+				.send({
+					shipments: [
+						{ box: standardBoxes[0], placements: [placement, placement] },
+					],
+				});
+			expect(response.status).toBe(200);
+			expect(response.body.valid).toBe(false);
+			expect(response.body.violations[0].code).toBe("OVERLAP");
+		});
+
+		it("should reject shipments without placements", async () => {
+			const response = await request(app)
+				.post("/api/shipping/verify-packing")
+				.send({ shipments: [{ box: standardBoxes[0] }] });
+			expect(response.status).toBe(400);
+			expect(response.body.error).toBe("Invalid layout");
+			expect(response.body.errors[0].field).toBe("placements");
+		});
+	});
+
+	describe("format=svg", () => {
+		it("should draw each box as layers and an isometric view", async () => {
+			const response = await request(app)
+				.post("/api/shipping/pack-multiple?format=svg")
+				.send([
+					{ ...validItem, quantity: 2 },
+					{ ...validItem, _id: "item2", sku: "A<B&C", weight: 50 },
+				]);
+			expect(response.status).toBe(200);
+			const shipment = response.body.shipments[0];
+			expect(shipment.placements).toHaveLength(3); // format=svg implies placements
+			const baseHeights = Array.from(
+				new Set(shipment.placements.map((p: any) => p.position.y))
+			);
+			expect(shipment.diagrams.layers).toHaveLength(baseHeights.length);
+			expect(shipment.diagrams.layers[0].baseHeight).toBe(0);
+			for (const svg of [
+				shipment.diagrams.isometric,
+				...shipment.diagrams.layers.map((layer: any) => layer.svg),
+			]) {
+				expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg"/);
+				expect(svg.trim().endsWith("</svg>")).toBe(true);
+			}
+			// Every unit is drawn and labelled, with SKUs escaped
+			expect(shipment.diagrams.isometric).toContain(">SKU001</text>");
+			expect(shipment.diagrams.isometric).toContain(">A&lt;B&amp;C</text>");
+			expect(shipment.diagrams.isometric).not.toContain("A<B");
+		});
+
+		it("should add diagrams to the best box and reject an unknown format", async () => {
+			const response = await request(app)
+				.post("/api/shipping/calculate-box?format=svg")
+				.send([validItem]);
+			expect(response.status).toBe(200);
+			expect(response.body.diagrams.layers).toHaveLength(1);
+			expect(response.body.diagrams.layers[0].svg).toContain(">SKU001</text>");
+
+			const json = await request(app)
+				.post("/api/shipping/calculate-box")
+				.send([validItem]);
+			expect(json.body.diagrams).toBeUndefined();
+
+			const invalid = await request(app)
+				.post("/api/shipping/pack-multiple?format=png")
+				.send([validItem]);
+			expect(invalid.status).toBe(400);
+			expect(invalid.body.error).toBe("Invalid format");
+		});
+	});
+
+	describe("POST /api/shipping/export", () => {
+		const packForExport = async () =>
+			(
+				await request(app)
+					.post("/api/shipping/pack-multiple?includePlacements=true")
+					.send([
+						{ ...validItem, quantity: 2 },
+						{
+							...validItem,
+							_id: "item2",
+							sku: "SKU002",
+							name: 'Boxed, "fragile" item',
+							weight: 50,
+						},
+						{
+							...validItem,
+							_id: "item3",
+							sku: "HUGE",
+							length: 5000,
+							weight: 100,
+						},
+					])
+			).body;
+
+		it("should render a CSV pick list with quantities, weights and load order", async () => {
+			const result = await packForExport();
+			const response = await request(app)
+				.post("/api/shipping/export?format=csv")
+				.send(result);
+			expect(response.status).toBe(200);
+			expect(response.headers["content-type"]).toContain("text/csv");
+			expect(response.headers["content-disposition"]).toContain(
+				"pick-list.csv"
+			);
+			const rows = response.text.trim().split("\r\n");
+			expect(rows[0]).toBe(
+				"box_number,box_name,sku,name,quantity,unit_weight_g,line_weight_g,box_gross_weight_kg,box_chargeable_weight_kg,load_order"
+			);
+			const boxName = result.shipments[0].box.name;
+			expect(rows[1]).toMatch(
+				new RegExp(
+					`^1,${boxName},SKU001,Small Item,2,100,200,[\\d.]+,[\\d.]+,1-2$`
+				)
+			);
+			expect(rows[2]).toContain(',SKU002,"Boxed, ""fragile"" item",1,50,50,');
+			expect(rows[2].endsWith(",3")).toBe(true);
+			expect(rows[3]).toBe("UNFIT,,HUGE,Small Item,1,100,100,,,");
+		});
+
+		it("should stop spreadsheets running text that looks like a formula", async () => {
+			const result = (
+				await request(app)
+					.post("/api/shipping/pack-multiple")
+					.send([
+						{ ...validItem, sku: "@SKU", name: '=HYPERLINK("http://x")' },
+						{ ...validItem, _id: "item2", sku: "+SKU", name: "-1" },
+						{ ...validItem, _id: "item3", sku: "SKU003", name: "\tTabbed" },
+					])
+			).body;
+			const response = await request(app)
+				.post("/api/shipping/export?format=csv")
+				.send(result);
+			expect(response.status).toBe(200);
+			expect(response.text).toContain(',\'@SKU,"\'=HYPERLINK(""http://x"")",');
+			expect(response.text).toContain(",'+SKU,'-1,");
+			expect(response.text).toContain(",SKU003,'\tTabbed,");
+			// Numbers are never prefixed
+			expect(response.text).not.toMatch(/,'\d/);
+		});
+
+		it("should render a PDF packing slip", async () => {
+			const result = await packForExport();
+			const response = await request(app)
+				.post("/api/shipping/export")
+				.buffer(true)
+				.parse((res, callback) => {
+					const chunks: Buffer[] = [];
+					res.on("data", (chunk: Buffer) => chunks.push(chunk));
+					res.on("end", () => callback(null, Buffer.concat(chunks)));
+				})
+				.send(result);
+			expect(response.status).toBe(200);
+			expect(response.headers["content-type"]).toContain("application/pdf");
+			// pdf.js copies a Buffer into Node's shared pool and then ignores its byte offset, so pass plain bytes
+			const parsed = await pdf(new Uint8Array(response.body) as Buffer);
+			expect(parsed.numpages).toBe(2); // One page per box plus the unpacked items
+			expect(parsed.text).toContain("PACKING SLIP");
+			expect(parsed.text).toContain(
+				`Box 1 of 1: ${result.shipments[0].box.name}`
+			);
+			expect(parsed.text).toContain("SKU001");
+			expect(parsed.text).toContain("NOT PACKED");
+			expect(parsed.text).toContain("HUGE");
+		});
+
+		it("should reject an unknown format and a body that is not a packing result", async () => {
+			const badFormat = await request(app)
+				.post("/api/shipping/export?format=xlsx")
+				.send({ shipments: [] });
+			expect(badFormat.status).toBe(400);
+			expect(badFormat.body.error).toBe("Invalid format");
+			const badBody = await request(app)
+				.post("/api/shipping/export")
+				.send([validItem]);
+			expect(badBody.status).toBe(400);
+			expect(badBody.body.error).toBe("Invalid packing result");
+		});
+	});
+
+	describe("Packing sessions", () => {
+		it("should store anonymous runs without returning a session ID", async () => {
+			const addSession = DataService.userData.add as jest.Mock;
+			addSession.mockClear();
+			const response = await request(app)
+				.post("/api/shipping/pack-multiple?strategy=cost")
+				.send([validItem]);
+			expect(response.status).toBe(200);
+			// Anonymous callers can't open sessions, so the ID is of no use to them
+			expect(response.body.sessionId).toBeUndefined();
+			expect(addSession).toHaveBeenCalledWith(
+				"PackingSessions",
+				"anonymous",
+				expect.objectContaining({
+					kind: "multi-box",
+					items: [validItem],
+					strategy: "cost",
+					summary: expect.objectContaining({ boxCount: 1, unfitUnits: 0 }),
+				})
+			);
+		});
+
+		it("should still answer when the session cannot be stored", async () => {
+			(DataService.userData.add as jest.Mock).mockResolvedValueOnce({
+				success: false,
+				error: "Database unavailable",
+			});
+			const response = await request(app)
+				.post("/api/shipping/calculate-box")
+				.send([validItem]);
+			expect(response.status).toBe(200);
+			expect(response.body.success).toBe(true);
+			expect(response.body.sessionId).toBeUndefined();
+		});
+
+		it("should list a page of sessions newest first without their results", async () => {
+			const getFiltered = DataService.userData.getFiltered as jest.Mock;
+			getFiltered.mockClear();
+			getFiltered.mockResolvedValueOnce({
+				success: true,
+				data: [
+					{
+						_id: "b",
+						kind: "multi-box",
+						createdAt: "2026-10-19T00:00:00.000Z",
+					},
+				],
+			});
+			const response = await request(app)
+				.get("/api/shipping/sessions?limit=1&before=2026-10-20T00:00:00.000Z")
+				.set("x-test-user", "user-a");
+			expect(response.status).toBe(200);
+			expect(response.body.data.map((s: any) => s._id)).toEqual(["b"]);
+			// Results are left out and the page is cut in the query, not in memory
+			expect(getFiltered).toHaveBeenCalledWith(
+				"PackingSessions",
+				"user-a",
+				{
+					deletedAt: null,
+					createdAt: { $lt: new Date("2026-10-20T00:00:00.000Z") },
+				},
+				{ projection: { result: 0 }, sort: { createdAt: -1 }, limit: 1 }
+			);
+
+			getFiltered.mockResolvedValueOnce({ success: true, data: [] });
+			await request(app)
+				.get("/api/shipping/sessions")
+				.set("x-test-user", "user-a");
+			expect(getFiltered).toHaveBeenLastCalledWith(
+				"PackingSessions",
+				"user-a",
+				{ deletedAt: null },
+				expect.objectContaining({ limit: 50 })
+			);
+		});
+
+		it("should reject an invalid page limit or before", async () => {
+			for (const query of [
+				"limit=0",
+				"limit=201",
+				"limit=2.5",
+				"before=soon",
+			]) {
+				const response = await request(app)
+					.get(`/api/shipping/sessions?${query}`)
+					.set("x-test-user", "user-a");
+				expect(response.status).toBe(400);
+			}
+		});
+
+		it("should re-run a session against the current catalogue and compare", async () => {
+			const stored = await request(app)
+				.post("/api/shipping/pack-multiple")
+				.set("x-test-user", "user-a")
+				.send([validItem]);
+			const session = (DataService.userData.add as jest.Mock).mock.results.at(
+				-1
+			)!;
+			(DataService.userData.getFiltered as jest.Mock).mockResolvedValueOnce({
+				success: true,
+				data: [(await session.value).data],
+			});
+			// The catalogue now only has a box that is too small
+			(DataService.boxes.getAvailable as jest.Mock).mockResolvedValueOnce({
+				success: true,
+				data: [
+					{
+						...standardBoxes[0],
+						_id: "tiny",
+						name: "Tiny Box",
+						length: 5,
+						width: 5,
+						height: 5,
+					},
+				],
+			});
+			const response = await request(app)
+				.get(`/api/shipping/sessions/${stored.body.sessionId}?rerun=true`)
+				.set("x-test-user", "user-a");
+			expect(response.status).toBe(200);
+			expect(response.body.data._id).toBe(sessionId);
+			expect(response.body.comparison).toEqual({
+				original: expect.objectContaining({ boxCount: 1, unfitUnits: 0 }),
+				rerun: expect.objectContaining({ boxCount: 0, unfitUnits: 1 }),
+				changed: true,
+			});
+		});
+
+		it("should re-run a session within its time budget and flag a timeout", async () => {
+			(DataService.userData.getFiltered as jest.Mock).mockResolvedValueOnce({
+				success: true,
+				data: [
+					{
+						_id: sessionId,
+						kind: "multi-box",
+						items: [validItem],
+						options: { timeBudgetMs: 0 },
+						summary: {
+							boxCount: 1,
+							boxNames: ["Padded Satchel"],
+							unfitUnits: 0,
+							success: true,
+						},
+					},
+				],
+			});
+			const response = await request(app)
+				.get(`/api/shipping/sessions/${sessionId}?rerun=true`)
+				.set("x-test-user", "user-a");
+			expect(response.status).toBe(200);
+			expect(response.body.rerun.timedOut).toBe(true);
+			expect(response.body.comparison).toMatchObject({
+				changed: true,
+				timedOut: true,
+			});
+		});
+
+		it("should reject an invalid session ID and 404 an unknown one", async () => {
+			const invalid = await request(app)
+				.get("/api/shipping/sessions/not-an-id")
+				.set("x-test-user", "user-a");
+			expect(invalid.status).toBe(400);
+			(DataService.userData.getFiltered as jest.Mock).mockResolvedValueOnce({
+				success: true,
+				data: [],
+			});
+			const missing = await request(app)
+				.get(`/api/shipping/sessions/${sessionId}`)
+				.set("x-test-user", "user-a");
+			expect(missing.status).toBe(404);
+		});
+
+		it("should store runs under the signed-in user and return the session ID", async () => {
+			const addSession = DataService.userData.add as jest.Mock;
+			addSession.mockClear();
+			const response = await request(app)
+				.post("/api/shipping/calculate-box")
+				.set("x-test-user", "user-a")
+				.send([validItem]);
+			expect(response.body.sessionId).toBe(sessionId);
+			expect(addSession).toHaveBeenCalledWith(
+				"PackingSessions",
+				"user-a",
+				expect.objectContaining({ kind: "best-box" })
+			);
+		});
+
+		it("should require sign-in to list or read sessions", async () => {
+			const list = await request(app).get("/api/shipping/sessions");
+			expect(list.status).toBe(401);
+			const read = await request(app).get(
+				`/api/shipping/sessions/${sessionId}`
+			);
+			expect(read.status).toBe(401);
+		});
+
+		it("should not let one user read another user's session", async () => {
+			const getFiltered = DataService.userData.getFiltered as jest.Mock;
+			getFiltered.mockClear();
+			// Only user-a owns the stored session
+			getFiltered.mockImplementation(async (_collection, userId) => ({
+				success: true,
+				data:
+					userId === "user-a"
+						? [{ _id: sessionId, kind: "best-box", result: {} }]
+						: [],
+			}));
+			const owner = await request(app)
+				.get(`/api/shipping/sessions/${sessionId}`)
+				.set("x-test-user", "user-a");
+			expect(owner.status).toBe(200);
+			const other = await request(app)
+				.get(`/api/shipping/sessions/${sessionId}`)
+				.set("x-test-user", "user-b");
+			expect(other.status).toBe(404);
+			expect(getFiltered).toHaveBeenLastCalledWith(
+				"PackingSessions",
+				"user-b",
+				expect.anything()
+			);
+			getFiltered.mockReset();
+		});
+	});
+
+	describe("Kits", () => {
+		const kits = [
+			{
+				_id: "kit1",
+				sku: "KIT-LEAD",
+				name: "Lead Screw Kit",
+				components: [
+					{ sku: "SKU001", quantity: 2 },
+					{ sku: "SKU002", quantity: 1 },
+				],
+			},
+			{
+				_id: "kit2",
+				sku: "KIT-BOXED",
+				name: "Boxed Kit",
+				components: [{ sku: "SKU001", quantity: 10 }],
+				carton: { length: 180, width: 140, height: 90, weight: 1500 },
+			},
+		];
+
+		beforeEach(() => {
+			(DataService.kits.getAvailable as jest.Mock).mockResolvedValue({
+				success: true,
+				data: kits,
+			});
+			(DataService.shippingItems.getAvailable as jest.Mock).mockResolvedValue({
+				success: true,
+				data: [validItem, { ...validItem, _id: "item2", sku: "SKU002" }],
+			});
+		});
+
+		it("should pack a kit line as its components and report the expansion", async () => {
+			const response = await request(app)
+				.post("/api/shipping/pack-multiple")
+				.send([{ sku: "kit-lead", quantity: 3 }, validItem]);
+			expect(response.status).toBe(200);
+			expect(response.body.success).toBe(true);
+			expect(response.body.itemSummary).toEqual(
+				expect.arrayContaining([
+					expect.objectContaining({ sku: "SKU001", requested: 7 }),
+					expect.objectContaining({ sku: "SKU002", requested: 3 }),
+				])
+			);
+			expect(response.body.kits).toEqual([
+				{
+					index: 0,
+					sku: "KIT-LEAD",
+					name: "Lead Screw Kit",
+					quantity: 3,
+					shippedAs: "components",
+					components: [
+						{ sku: "SKU001", quantity: 6 },
+						{ sku: "SKU002", quantity: 3 },
+					],
+				},
+			]);
+		});
+
+		it("should pack a kit with a carton as one pre-packed carton", async () => {
+			(DataService.shippingItems.getAvailable as jest.Mock).mockClear();
+			const response = await request(app)
+				.post("/api/shipping/calculate-box")
+				.send([{ sku: "KIT-BOXED" }]);
+			expect(response.status).toBe(200);
+			expect(response.body.box.name).toBe("Small Satchel");
+			expect(response.body.packedItems).toEqual([
+				expect.objectContaining({ sku: "KIT-BOXED", weight: 1500 }),
+			]);
+			expect(response.body.kits[0].shippedAs).toBe("carton");
+			// A carton needs nothing from the item catalogue
+			expect(DataService.shippingItems.getAvailable).not.toHaveBeenCalled();
+		});
+
+		it("should reject a kit with a component missing from the item catalogue", async () => {
+			(DataService.shippingItems.getAvailable as jest.Mock).mockResolvedValue({
+				success: true,
+				data: [validItem],
+			});
+			const response = await request(app)
+				.post("/api/shipping/pack-batch")
+				.send({ orders: { "ORD-1": [validItem, { sku: "KIT-LEAD" }] } });
+			expect(response.status).toBe(400);
+			expect(response.body.errors).toEqual([
+				{
+					orderId: "ORD-1",
+					index: 1,
+					sku: "KIT-LEAD",
+					field: "sku",
+					message:
+						"Kit KIT-LEAD component SKU002 is not in the item catalogue.",
+				},
+			]);
+		});
+
+		it("should reject an invalid or duplicate kit definition", async () => {
+			const invalid = await request(app)
+				.post("/api/shipping/kits")
+				.send({
+					sku: "KIT-NEW",
+					name: "New Kit",
+					components: [{ sku: "kit-new", quantity: 0 }],
+				});
+			expect(invalid.status).toBe(400);
+			expect(invalid.body.message).toBe(
+				"components[0] must not be the kit itself; components[0].quantity must be a positive whole number"
+			);
+
+			const duplicate = await request(app)
+				.post("/api/shipping/kits")
+				.send({ ...kits[0], _id: undefined, sku: " kit-lead " });
+			expect(duplicate.status).toBe(409);
+			expect(DataService.kits.add).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("Box stock", () => {
+		const admin = { "x-test-user": "admin", "x-test-master": "true" };
+
+		beforeEach(() => {
+			(DataService.boxes.update as jest.Mock).mockReset();
+			(DataService.boxes.update as jest.Mock).mockImplementation(
+				async (box) => ({ success: true, status: 200, data: box })
+			);
+		});
+
+		it("should record receipts, usage and stocktakes", async () => {
+			const receipt = await request(app)
+				.post("/api/shipping/boxes/small/stock")
+				.set(admin)
+				.send({ type: "receipt", quantity: 12 });
+			expect(receipt.status).toBe(200);
+			expect(receipt.body.data.stockOnHand).toBe(12);
+
+			// Usage never takes stock below zero
+			(DataService.boxes.getAvailable as jest.Mock).mockResolvedValueOnce({
+				success: true,
+				data: [{ ...standardBoxes[2], stockOnHand: 3 }],
+			});
+			const usage = await request(app)
+				.post("/api/shipping/boxes/small/stock")
+				.set(admin)
+				.send({ type: "usage", quantity: 5 });
+			expect(usage.body.data.stockOnHand).toBe(0);
+		});
+
+		it("should set the low-stock threshold along with a movement", async () => {
+			const response = await request(app)
+				.post("/api/shipping/boxes/small/stock")
+				.set(admin)
+				.send({ type: "count", quantity: 30, lowStockThreshold: 25 });
+			expect(response.status).toBe(200);
+			expect(response.body.data).toMatchObject({
+				stockOnHand: 30,
+				lowStockThreshold: 25,
+			});
+			const invalid = await request(app)
+				.post("/api/shipping/boxes/small/stock")
+				.set(admin)
+				.send({ type: "count", quantity: 30, lowStockThreshold: -1 });
+			expect(invalid.status).toBe(400);
+		});
+
+		it("should ignore stock fields sent to the box create and update routes", async () => {
+			await request(app).put("/api/shipping/boxes/small").send({
+				name: "Small Box",
+				length: 200,
+				width: 150,
+				height: 100,
+				maxWeight: 5000,
+				stockOnHand: 999,
+				lowStockThreshold: 0,
+			});
+			const update = (DataService.boxes.update as jest.Mock).mock.calls[0][0];
+			expect(update).not.toHaveProperty("stockOnHand");
+			expect(update).not.toHaveProperty("lowStockThreshold");
+		});
+
+		it("should reject an invalid movement and 404 an unknown box", async () => {
+			const badType = await request(app)
+				.post("/api/shipping/boxes/small/stock")
+				.set(admin)
+				.send({ type: "loss", quantity: 1 });
+			expect(badType.status).toBe(400);
+			const badQuantity = await request(app)
+				.post("/api/shipping/boxes/small/stock")
+				.set(admin)
+				.send({ type: "receipt", quantity: 1.5 });
+			expect(badQuantity.status).toBe(400);
+			const missing = await request(app)
+				.post("/api/shipping/boxes/nope/stock")
+				.set(admin)
+				.send({ type: "receipt", quantity: 1 });
+			expect(missing.status).toBe(404);
+			expect(DataService.boxes.update).not.toHaveBeenCalled();
+		});
+
+		it("should only let master admins record stock", async () => {
+			const signedOut = await request(app)
+				.post("/api/shipping/boxes/small/stock")
+				.send({ type: "receipt", quantity: 1 });
+			expect(signedOut.status).toBe(401);
+			const notAdmin = await request(app)
+				.post("/api/shipping/boxes/small/stock")
+				.set("x-test-user", "user-a")
+				.send({ type: "receipt", quantity: 1 });
+			expect(notAdmin.status).toBe(403);
+			expect(DataService.boxes.update).not.toHaveBeenCalled();
+		});
+
+		it("should list tracked boxes at or below their threshold, lowest first", async () => {
+			(DataService.boxes.getAvailable as jest.Mock).mockResolvedValueOnce({
+				success: true,
+				data: [
+					{ ...standardBoxes[0], stockOnHand: 8 },
+					{ ...standardBoxes[1], stockOnHand: 2 },
+					{ ...standardBoxes[2], stockOnHand: 40, lowStockThreshold: 50 },
+					{ ...standardBoxes[3], stockOnHand: 11 },
+					standardBoxes[4],
+				],
+			});
+			const response = await request(app).get("/api/shipping/boxes/low-stock");
+			expect(response.status).toBe(200);
+			expect(response.body.data.map((box: any) => box.name)).toEqual([
+				"Small Satchel",
+				"Padded Satchel",
+				"Small Box",
+			]);
+		});
+
+		it("should take the boxes a confirmed session used out of stock", async () => {
+			(DataService.boxes.getAvailable as jest.Mock).mockResolvedValue({
+				success: true,
+				data: [
+					{ ...standardBoxes[0], stockOnHand: 4 },
+					...standardBoxes.slice(1),
+				],
+			});
+			await request(app)
+				.post("/api/shipping/pack-multiple")
+				.set("x-test-user", "user-a")
+				.send([validItem]);
+			const session = await (
+				DataService.userData.add as jest.Mock
+			).mock.results.at(-1)!.value;
+			(DataService.userData.getFiltered as jest.Mock).mockResolvedValue({
+				success: true,
+				data: [session.data],
+			});
+			(DataService.userData.update as jest.Mock).mockImplementation(
+				async (_collection, _userId, _id, fields) => ({
+					success: true,
+					data: { ...session.data, ...fields },
+				})
+			);
+
+			// Confirming takes stock, so it needs a signed-in user
+			const signedOut = await request(app).post(
+				`/api/shipping/sessions/${sessionId}/confirm`
+			);
+			expect(signedOut.status).toBe(401);
+
+			const response = await request(app)
+				.post(`/api/shipping/sessions/${sessionId}/confirm`)
+				.set("x-test-user", "user-a");
+			expect(response.status).toBe(200);
+			expect(response.body.data.session.confirmedAt).toBeDefined();
+			expect(response.body.data.boxesUsed).toEqual([
+				{
+					boxId: "padded satchel",
+					name: "Padded Satchel",
+					count: 1,
+					stockOnHand: 3,
+				},
+			]);
+
+			// A session is only taken out of stock once
+			(DataService.userData.getFiltered as jest.Mock).mockResolvedValueOnce({
+				success: true,
+				data: [{ ...session.data, confirmedAt: new Date() }],
+			});
+			const again = await request(app)
+				.post(`/api/shipping/sessions/${sessionId}/confirm`)
+				.set("x-test-user", "user-a");
+			expect(again.status).toBe(409);
+			expect(DataService.boxes.update).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe("POST /api/shipping/boxes", () => {
+		it("should reject padding that leaves no room and outer dimensions smaller than the inside", async () => {
+			const response = await request(app).post("/api/shipping/boxes").send({
+				name: "Bad Box",
+				length: 100,
+				width: 100,
+				height: 40,
+				maxWeight: 1000,
+				outerWidth: 90,
+				padding: 20,
+			});
+			expect(response.status).toBe(400);
+			expect(response.body.message).toContain(
+				"outerWidth must not be smaller than width"
+			);
+			expect(response.body.message).toContain(
+				"padding must leave usable space inside the box"
+			);
+		});
+	});
+});
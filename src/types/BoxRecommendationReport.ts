@@ -0,0 +1,89 @@
+/**
+ * Box Recommendation Report Interface
+ * Updated: 19/10/2026
+ * Author: Deej Potter
+ * Description: The result of replaying stored packing sessions against the box catalogue:
+ * how full the boxes ran, which boxes were used, where space was wasted and which new
+ * box sizes would have saved the most volume or cost. Volumes are in litres.
+ */
+
+import { BoxDimensions, PackingStrategyName } from "./box-shipping-types";
+
+/**
+ * How full the replayed boxes were, as fractions of their usable inner volume.
+ */
+export interface FillRatioSummary {
+	average: number;
+	median: number;
+	/** Shipment counts in quarter bands: [0, 0.25), [0.25, 0.5), [0.5, 0.75) and [0.75, 1]. */
+	buckets: { min: number; max: number; count: number }[];
+}
+
+/**
+ * How often one catalogue box was used in the replay.
+ */
+export interface BoxUsageStats {
+	boxId: string;
+	name: string;
+	count: number;
+	/** Fraction of all replayed shipments that used this box. */
+	share: number;
+	averageFillRatio: number;
+	/** Empty usable space across every use of this box. */
+	wastedLitres: number;
+}
+
+/**
+ * One replayed shipment with a lot of empty space.
+ */
+export interface WastedSpaceEntry {
+	sessionId: string;
+	/** The order within a batch session. */
+	orderId?: string;
+	boxId: string;
+	name: string;
+	fillRatio: number;
+	wastedLitres: number;
+}
+
+/**
+ * A new box size that would have taken replayed shipments out of larger boxes.
+ */
+export interface BoxProposal extends BoxDimensions {
+	/** Gross weight limit in grams, taken from the boxes it replaces. */
+	maxWeight: number;
+	/** Replayed shipments that would have used this box instead. */
+	shipmentsMoved: number;
+	/** Box volume saved across those shipments. */
+	volumeSavedLitres: number;
+	/** Shipping cost saved across those shipments, only present for the "cost" objective. */
+	costSaved?: number;
+	/** The catalogue boxes those shipments would have come out of, most replaced first. */
+	replaces: { boxId: string; name: string; count: number }[];
+}
+
+/**
+ * Box usage and sizing figures from replaying stored packing sessions.
+ */
+export interface BoxRecommendationReport {
+	generatedAt: Date;
+	/** What the proposals try to reduce. Sessions are replayed with the matching packing strategy. */
+	objective: PackingStrategyName;
+	/** Users whose sessions were replayed. */
+	userIds: string[];
+	sessionCount: number;
+	/** Orders replayed; a batch session counts each of its orders. */
+	orderCount: number;
+	shipmentCount: number;
+	/** Units no box in the catalogue could take. */
+	unfitUnits: number;
+	fillRatios: FillRatioSummary;
+	/** Most used first. */
+	boxUsage: BoxUsageStats[];
+	/** The shipments with the most empty space, largest first. */
+	largestWaste: WastedSpaceEntry[];
+	/** Best saving first. */
+	proposals: BoxProposal[];
+	/** Currency of costSaved, only present for the "cost" objective. */
+	currency?: string;
+}
@@ -0,0 +1,45 @@
+/**
+ * Kit Definition Interface
+ * Updated: 19/10/2026
+ * Author: Deej Potter
+ * Description: A kit or bundle SKU (such as a machine kit or an enclosure kit) and the component items it stands for.
+ * Kits are stored in the "Kits" collection and expanded before packing, so the packer only ever sees real items.
+ */
+
+import { MongoDocument } from "./mongodb";
+
+/**
+ * One component line of a kit: an item SKU from the "Items" collection, or another kit.
+ */
+export interface KitComponent {
+	sku: string;
+	/** Units of this component in one kit. */
+	quantity: number;
+}
+
+/**
+ * Outside size and weight of a kit that leaves the warehouse already boxed.
+ * Lengths are in millimeters and the weight is in grams.
+ */
+export interface KitCarton {
+	length: number;
+	width: number;
+	height: number;
+	weight: number;
+}
+
+export default interface KitDefinition extends MongoDocument {
+	/**
+	 * The parent SKU that stands for the kit on orders and invoices.
+	 * @example "KIT-LEAD-1010"
+	 */
+	sku: string;
+	name: string;
+	/** The items in one kit. */
+	components: KitComponent[];
+	/**
+	 * Set when the kit ships as one pre-packed carton. The kit is then packed as a single
+	 * item of this size instead of as its components.
+	 */
+	carton?: KitCarton;
+}
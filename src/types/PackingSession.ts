@@ -0,0 +1,79 @@
+/**
+ * Packing Session Interface
+ * Updated: 19/10/2026
+ * Author: Deej Potter
+ * Description: A stored packing run: what was asked for, how it was packed and what came out.
+ * Sessions live in the user's "PackingSessions" collection through DataService.userData, so a
+ * shipment's intended contents can be checked later, re-run against the current catalogue and compared.
+ */
+
+import { MongoDocument } from "./mongodb";
+import {
+	BatchPackingResult,
+	BestBoxResult,
+	BoxStockUsage,
+	MultiBoxPackingResult,
+	PackingItem,
+	PackingOptions,
+	PackingStrategyName,
+} from "./box-shipping-types";
+
+/**
+ * Which endpoint produced the session.
+ * - best-box: POST /api/shipping/calculate-box
+ * - multi-box: POST /api/shipping/pack-multiple
+ * - batch: POST /api/shipping/pack-batch
+ */
+export type PackingSessionKind = "best-box" | "multi-box" | "batch";
+
+/**
+ * Headline figures of a packing result, used in session lists and comparisons.
+ */
+export interface PackingSessionSummary {
+	boxCount: number;
+	/** Box names in shipment order. */
+	boxNames: string[];
+	unfitUnits: number;
+	success: boolean;
+}
+
+/**
+ * A stored packing run. createdAt is the time of the run.
+ */
+export interface PackingSession extends MongoDocument {
+	kind: PackingSessionKind;
+	/** Items submitted for best-box and multi-box sessions. */
+	items?: PackingItem[];
+	/** Orders submitted for batch sessions, keyed by order ID. */
+	orders?: Record<string, PackingItem[]>;
+	/** Options the run used. Boxes and pallets are never stored; re-runs use the current catalogue. */
+	options: Omit<PackingOptions, "boxes" | "pallets">;
+	strategy: PackingStrategyName;
+	result: BestBoxResult | MultiBoxPackingResult | BatchPackingResult;
+	summary: PackingSessionSummary;
+	/** When the session was confirmed as shipped and its cartons taken out of stock. */
+	confirmedAt?: Date;
+}
+
+/**
+ * A stored session re-packed against the current catalogue.
+ */
+export interface PackingSessionRerun {
+	result: BestBoxResult | MultiBoxPackingResult | BatchPackingResult;
+	comparison: {
+		original: PackingSessionSummary;
+		rerun: PackingSessionSummary;
+		/** True if the re-run picked different boxes or left a different number of units unfit. */
+		changed: boolean;
+		/** True when the re-run's time budget ran out, so its figures are only the best found in time. */
+		timedOut?: boolean;
+	};
+}
+
+/**
+ * A confirmed session and the cartons taken out of stock for it.
+ */
+export interface PackingSessionConfirmation {
+	session: PackingSession;
+	boxesUsed: BoxStockUsage[];
+}
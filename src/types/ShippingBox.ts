@@ -1,15 +1,43 @@
 /**
  * Shipping Box Interface
- * Updated: 08/06/2025
+ * Updated: 19/10/2026
  * Author: Deej Potter
  * Description: This file defines the TypeScript interface for a ShippingBox, including its dimensions and properties.
+ * Boxes are stored in the "Boxes" collection so the catalogue can change without a code deploy.
+ * length, width and height are internal dimensions in millimeters; weights are in grams.
  */
 
-export default interface ShippingBox {
+import { MongoDocument } from "./mongodb";
+
+/**
+ * How a box holds its contents. A rigid box takes anything inside its walls. A satchel flexes,
+ * so its length, width and height are the largest rigid block it holds and thinner contents may
+ * run further along its length or width. A tube takes contents whose cross-section fits its bore.
+ */
+export type PackagingType = "box" | "satchel" | "tube";
+
+export default interface ShippingBox extends MongoDocument {
 	_id: string;
 	name: string;
 	length: number;
 	width: number;
 	height: number;
+	/** Gross weight limit in grams, including the carton itself. */
 	maxWeight: number;
+	/** Kind of packaging, which decides how contents are fitted. Defaults to "box". */
+	type?: PackagingType;
+	/** Weight of the empty carton in grams. Counted against maxWeight and in reported weights. Defaults to 0. */
+	tareWeight?: number;
+	/** Outer dimensions in millimeters. When omitted they are derived from wallThickness. */
+	outerLength?: number;
+	outerWidth?: number;
+	outerHeight?: number;
+	/** Wall thickness in millimeters, used to derive missing outer dimensions. Defaults to 0. */
+	wallThickness?: number;
+	/** Padding or void-fill clearance to keep free on every inner side, in millimeters. Defaults to 0. */
+	padding?: number;
+	/** Cartons of this size on hand. Stock is not tracked when omitted. */
+	stockOnHand?: number;
+	/** A tracked box is listed as low on stock at or below this level. Defaults to DEFAULT_LOW_STOCK_THRESHOLD (10). */
+	lowStockThreshold?: number;
 }
@@ -1,12 +1,27 @@
 /**
  * Shipping Item Interface
- * Updated: 08/06/2025
+ * Updated: 19/10/2026
  * Author: Deej Potter
  * Description: This file defines the TypeScript interface for a ShippingItem, detailing its properties and dimensions for packing.
  */
 
 import { MongoDocument } from "./mongodb";
 
+/**
+ * One of an item's own axes, used to describe which way up it may be packed.
+ */
+export type ItemAxis = "length" | "width" | "height";
+
+/**
+ * Dangerous-goods class of an item. The packing and labelling rules for each class are in HAZARD_CLASS_RULES.
+ */
+export type HazardClass =
+	| "lithium-battery"
+	| "flammable-liquid"
+	| "flammable-gas"
+	| "oxidiser"
+	| "corrosive";
+
 /**
  * @description Represents a shipping item in the Maker Store.
  * @extends MongoDocument
@@ -16,6 +31,13 @@ import { MongoDocument } from "./mongodb";
  * @property {number} width - The width of the item in millimeters.
  * @property {number} height - The height of the item in millimeters.
  * @property {number} weight - The weight of the item in grams.
+ * @property {ItemAxis[]} [allowedOrientations] - Which of the item's axes may point up when packed.
+ * @property {boolean} [thisSideUp] - The item's height must stay vertical.
+ * @property {boolean} [fragile] - Nothing may be packed on top of the item.
+ * @property {number} [maxLoadOnTop] - Maximum weight in grams that may rest on top of the item.
+ * @property {HazardClass} [hazardClass] - Dangerous-goods class, which decides the carton labels and who it may share a box with.
+ * @property {string[]} [segregationTags] - Tags other items can refer to in incompatibleWith.
+ * @property {string[]} [incompatibleWith] - Tags or hazard classes this item may not share a box with.
  * @example
  * const shippingItem: ShippingItem = {
  * 	_id: "60c72b2f9b1e8b001c8e4d3a",
@@ -62,4 +84,47 @@ export default interface ShippingItem extends MongoDocument {
 	 * @example 1500
 	 */
 	weight: number;
+
+	/**
+	 * Which of the item's own axes may point up when packed.
+	 * Omit to allow all six rotations.
+	 * @example ["height"]
+	 */
+	allowedOrientations?: ItemAxis[];
+
+	/**
+	 * The item must stay upright, i.e. its height must stay vertical.
+	 * Used for spindles and other parts that must not be laid on their side.
+	 */
+	thisSideUp?: boolean;
+
+	/**
+	 * Nothing may be packed on top of the item (e.g. glass-fronted controllers).
+	 */
+	fragile?: boolean;
+
+	/**
+	 * Maximum weight in grams that may rest on top of the item.
+	 * @example 2000
+	 */
+	maxLoadOnTop?: number;
+
+	/**
+	 * Dangerous-goods class. Lithium batteries and flammable liquids travel in their own cartons,
+	 * and every class adds its label to the carton it is packed in.
+	 * @example "lithium-battery"
+	 */
+	hazardClass?: HazardClass;
+
+	/**
+	 * Tags describing the item for segregation, matched against other items' incompatibleWith.
+	 * @example ["magnet"]
+	 */
+	segregationTags?: string[];
+
+	/**
+	 * Tags or hazard classes this item may not share a box with.
+	 * @example ["magnet", "corrosive"]
+	 */
+	incompatibleWith?: string[];
 }
@@ -1,6 +1,6 @@
 /**
  * Box Shipping Types
- * Updated: 08/07/2025
+ * Updated: 19/10/2026
  * Author: Deej Potter / GitHub Copilot
  * Description: This file defines TypeScript interfaces and types related to box shipping calculations and entities.
  * Migrated from sample code/types/box-shipping-calculator/box-shipping-types.ts and services/box-shipping-calculations.ts
@@ -8,6 +8,33 @@
 
 import ShippingBox from "./ShippingBox";
 import ShippingItem from "./ShippingItem";
+import { KitComponent } from "./KitDefinition";
+
+/**
+ * A shipping item as submitted for packing.
+ * `quantity` only exists on packing requests and results. The stored ShippingItem
+ * model deliberately has no quantity (see codingconventions.md).
+ */
+export interface PackingItem extends ShippingItem {
+	/** Number of units of this item. Defaults to 1 when omitted. */
+	quantity?: number;
+	/** Date the line is available to ship (YYYY-MM-DD), e.g. when a backorder arrives. Available now when omitted. */
+	availableOn?: string;
+}
+
+/**
+ * Packed and unfit unit counts for a single SKU across a packing result.
+ */
+export interface SkuPackingSummary {
+	sku: string;
+	name: string;
+	/** Total units requested across all input lines with this SKU. */
+	requested: number;
+	/** Units that were packed into a box. */
+	packed: number;
+	/** Units that could not be packed. */
+	unfit: number;
+}
 
 /**
  * Represents a 3D point in space, used for positioning items within a box.
@@ -36,20 +63,439 @@ export interface PackedItem {
 	};
 }
 
+/**
+ * A packed unit with its place in the loading sequence.
+ * Returned when packing is called with `includePlacements` so a front end can draw
+ * a 3D packing diagram and packers can follow the loading order.
+ */
+export interface ItemPlacement extends PackedItem {
+	/** Position in the loading sequence, starting at 1. */
+	loadOrder: number;
+}
+
+/**
+ * Length, width and height of a box in millimeters.
+ */
+export interface BoxDimensions {
+	length: number;
+	width: number;
+	height: number;
+}
+
 /**
  * Represents a shipping box during the packing process, including its contents and available space.
  */
 export interface PackingBox {
 	/** The shipping box being used. */
 	box: ShippingBox;
+	/** The inner space left after padding. Item positions are measured from its corner. */
+	usableSpace: BoxDimensions;
 	/** An array of items packed into the box, with their positions and orientations. */
 	packedItems: PackedItem[];
 	/** An array of possible positions (extreme points) where new items could be placed. */
 	extremePoints: Point3D[];
-	/** The remaining weight capacity of the box in grams. */
+	/** The remaining weight capacity of the box in grams, after the box's tare weight. */
 	remainingWeight: number;
 }
 
+/**
+ * Defines the structure for the result of a single-box packing attempt.
+ */
+export interface BestBoxResult {
+	/** Indicates whether all items fit into a single box. */
+	success: boolean;
+	/** The chosen box, or null if no single box fits everything. */
+	box: ShippingBox | null;
+	/** Packed items grouped per SKU, with quantity set to the packed count. */
+	packedItems: PackingItem[];
+	/** Unfit items grouped per SKU, with quantity set to the unfit count. */
+	unfitItems: PackingItem[];
+	/** Placement of every packed unit, only present when `includePlacements` is set. */
+	placements?: ItemPlacement[];
+	/** Bundles packed into the box, only present when it holds any. */
+	bundles?: PackingBundle[];
+	/** Why the box was chosen, only present when a box was found. */
+	selection?: BoxSelection;
+	/** Outside measurements of the box, only present when a box was found. */
+	outerDimensions?: BoxDimensions;
+	/** Actual, cubic and chargeable weight and fill ratio, only present when a box was found. */
+	weights?: ShipmentWeights;
+	/** Layer and isometric drawings, only present for format=svg when a box was found. */
+	diagrams?: PackingDiagrams;
+	/** Kits expanded before packing, only present when the request held any. */
+	kits?: KitExpansion[];
+	/** Dangerous-goods labels the box needs, only present when it holds dangerous goods. */
+	labels?: string[];
+	/** True when the time budget ran out before a box holding everything was found. */
+	timedOut?: boolean;
+}
+
+/**
+ * SVG drawings of a packed box, returned when a packing endpoint is called with format=svg.
+ */
+export interface PackingDiagrams {
+	/** Top view of each layer, lowest first. A layer is every unit whose base sits at baseHeight (mm). */
+	layers: { baseHeight: number; svg: string }[];
+	/** Isometric view of the whole box. */
+	isometric: string;
+}
+
+/**
+ * Describes how orientation and stacking constraints affected a packing result,
+ * compared with packing the same items with the constraints ignored.
+ */
+export interface ConstraintImpact {
+	/** Extra boxes the constraints forced. */
+	extraBoxes: number;
+	/** Extra units left unfit because of the constraints. */
+	extraUnfitUnits: number;
+	/** SKUs that carry orientation or stacking constraints. */
+	constrainedSkus: string[];
+	/** Human-readable summary for staff. */
+	message: string;
+}
+
+/**
+ * The cheapest carrier price for a single shipment, from the local rate table.
+ */
+export interface ShipmentPrice {
+	carrier: string;
+	service: string;
+	/** Weight of the contents plus the box's tare weight in kilograms. */
+	deadWeightKg: number;
+	/** Volumetric weight of the box in kilograms (0 for satchel flat rates). */
+	cubicWeightKg: number;
+	/** The weight the carrier bills on, in kilograms. */
+	chargeableWeightKg: number;
+	/** True if a prepaid satchel flat rate was used instead of weight breaks. */
+	satchelFlatRate: boolean;
+	/** Carrier charge. */
+	freight: number;
+	/** Cost of the carton itself. */
+	packaging: number;
+	/** freight + packaging. */
+	total: number;
+	currency: string;
+}
+
+/**
+ * Weight and space figures for a single shipment.
+ * Carriers bill on the greater of dead weight and cubic weight.
+ */
+export interface ShipmentWeights {
+	/** Items plus box tare, in kilograms. */
+	actualWeightKg: number;
+	/** Volumetric weight of the box's outer dimensions at the cubic factor used, in kilograms. */
+	cubicWeightKg: number;
+	/** The greater of actual and cubic weight, in kilograms. */
+	chargeableWeightKg: number;
+	/** Packed item volume as a fraction of the usable inner volume (0 to 1). */
+	fillRatio: number;
+}
+
+/**
+ * Weight and space figures rolled up for the whole consignment.
+ */
+export interface ConsignmentTotals extends ShipmentWeights {
+	/** Cubic conversion factor used, in kg per cubic metre. */
+	cubicFactor: number;
+	/** Number of shipments (boxes) in the consignment. */
+	shipmentCount: number;
+}
+
+/**
+ * The raw output of a packing algorithm, before units are grouped back into items.
+ */
+export interface PackingRun {
+	packingBoxes: PackingBox[];
+	/** Individual units that did not fit in any box. */
+	unfitUnits: ShippingItem[];
+	/** True when every unit went into one box via the single-box shortcut. */
+	singleBoxShortcut?: boolean;
+	/** True when the time budget ran out and the remaining units were left unfit. */
+	timedOut?: boolean;
+}
+
+/**
+ * Names of the available packing algorithms.
+ * - "extreme-point": places units at extreme points, first-fit across boxes (default).
+ * - "layer": builds rows and walls across each box, first-fit across boxes.
+ * - "best-fit-decreasing": places each unit in the open box it fills most tightly.
+ */
+export type PackingAlgorithmName =
+	| "extreme-point"
+	| "layer"
+	| "best-fit-decreasing";
+
+/**
+ * A packing algorithm. Implementations take individual units (quantity already
+ * expanded) and must only place units that fit the box's usable space and weight.
+ */
+export interface PackingStrategy {
+	name: PackingAlgorithmName;
+	description: string;
+	/**
+	 * Pack units into as few boxes as the algorithm can manage.
+	 * When enforceConstraints is false, orientation and stacking rules are ignored.
+	 * When the deadline (epoch milliseconds) passes, the units not yet placed are left
+	 * unfit and the run is marked timedOut.
+	 */
+	pack(
+		units: ShippingItem[],
+		boxes: ShippingBox[],
+		enforceConstraints: boolean,
+		deadline?: number
+	): PackingRun;
+}
+
+/**
+ * How a compare run ranks the algorithms' results. Fewer unfit units always wins first.
+ * - "boxes": fewest boxes, then highest fill ratio.
+ * - "cost": lowest total price from the rate table, then fewest boxes.
+ * - "fill": highest fill ratio, then fewest boxes.
+ */
+export type PackingCompareMetric = "boxes" | "cost" | "fill";
+
+/**
+ * One algorithm's result in a compare run.
+ */
+export interface AlgorithmComparison {
+	algorithm: PackingAlgorithmName;
+	boxCount: number;
+	unfitUnits: number;
+	/** Total price from the rate table, or null if a box could not be priced. */
+	totalPrice: number | null;
+	/** Packed item volume over usable box volume across all boxes. */
+	fillRatio: number;
+}
+
+/**
+ * Packing strategies accepted by packItemsIntoMultipleBoxes.
+ * - "volume": rank boxes by volume with length penalties (default).
+ * - "cost": choose the cheapest set of shipments using the local rate table.
+ */
+export type PackingStrategyName = "volume" | "cost";
+
+/**
+ * Limits for bundling identical long items before packing.
+ * Lengths are in millimeters and weights in grams.
+ */
+export interface BundlingOptions {
+	/** Only items whose longest side is at least this long are bundled. */
+	minLength?: number;
+	/** Most units strapped into one bundle. */
+	maxItemsPerBundle?: number;
+	/** Heaviest bundle allowed, in grams. */
+	maxBundleWeight?: number;
+}
+
+/**
+ * A strapped bundle of identical long units, packed as a single unit.
+ */
+export interface PackingBundle {
+	bundleId: string;
+	sku: string;
+	name: string;
+	/** Number of units in the bundle. */
+	quantity: number;
+	/** Bundle dimensions in millimeters. */
+	length: number;
+	width: number;
+	height: number;
+	/** Bundle weight in grams. */
+	weight: number;
+}
+
+/**
+ * A kit line from a packing request and what it was expanded into before packing.
+ */
+export interface KitExpansion {
+	/** Index of the kit line in the request array. */
+	index: number;
+	sku: string;
+	name: string;
+	/** Number of kits on the line. */
+	quantity: number;
+	/** "carton" when the kit was packed as its pre-packed carton, otherwise "components". */
+	shippedAs: "carton" | "components";
+	/** Component units for the whole line, nested kits included. Empty for a carton. */
+	components: KitComponent[];
+}
+
+/**
+ * A single box in a packing result and the items packed within it.
+ */
+export interface PackingShipment {
+	box: ShippingBox;
+	/** Items grouped per SKU, with quantity set to the number of units in this box. */
+	packedItems: PackingItem[];
+	/** Placement of every unit in this box, only present when `includePlacements` is set. */
+	placements?: ItemPlacement[];
+	/** Bundles packed into this box, only present when the box holds any. */
+	bundles?: PackingBundle[];
+	/** Why this box was chosen. */
+	selection?: BoxSelection;
+	/** Outside measurements of the box, as the carrier sees them. */
+	outerDimensions: BoxDimensions;
+	/** Actual, cubic and chargeable weight and fill ratio of this box. */
+	weights: ShipmentWeights;
+	/**
+	 * Price breakdown, only present for the "cost" strategy.
+	 * null if no configured carrier service can carry this box.
+	 */
+	price?: ShipmentPrice | null;
+	/** Layer and isometric drawings, only present for format=svg. */
+	diagrams?: PackingDiagrams;
+	/** Dangerous-goods labels the box needs, only present when it holds dangerous goods. */
+	labels?: string[];
+	/** Date the box ships, only present when the order is split into dispatch waves. */
+	dispatchDate?: string;
+}
+
+/**
+ * Why an item could not be packed.
+ * - EXCEEDS_MAX_WEIGHT: heavier than any box (or pallet) that is big enough can carry.
+ * - LONGEST_SIDE_TOO_LONG: its longest side is longer than any box's longest usable side.
+ * - NO_ORIENTATION_FITS: short enough, but no allowed rotation fits any box.
+ * - NO_PLACEMENT_FOUND: it fits an empty box on its own, but the packer found no room for it.
+ * - TIME_BUDGET_EXCEEDED: it fits an empty box on its own, but the time budget ran out before it was placed.
+ */
+export type UnfitReasonCode =
+	| "EXCEEDS_MAX_WEIGHT"
+	| "LONGEST_SIDE_TOO_LONG"
+	| "NO_ORIENTATION_FITS"
+	| "NO_PLACEMENT_FOUND"
+	| "TIME_BUDGET_EXCEEDED";
+
+/**
+ * The reason an item is unfit, with the limit it ran into.
+ */
+export interface UnfitReason {
+	code: UnfitReasonCode;
+	/** The item's value that broke the limit (grams or millimeters), or null if not a single value. */
+	value: number | null;
+	/** The limit it broke (grams or millimeters), or null if not a single value. */
+	limit: number | null;
+	message: string;
+}
+
+/**
+ * An unfit item, grouped per SKU, with the reason it could not be packed.
+ */
+export interface UnfitPackingItem extends PackingItem {
+	reason: UnfitReason;
+}
+
+/**
+ * A box that could also have held a shipment's contents.
+ */
+export interface BoxRunnerUp {
+	name: string;
+	preferenceScore: number;
+}
+
+/**
+ * Why a box was chosen for a shipment.
+ */
+export interface BoxSelection {
+	/** The box's preference score for this consignment (lower is better). */
+	preferenceScore: number;
+	/** Up to three other boxes that could hold the same contents, best first. */
+	runnersUp: BoxRunnerUp[];
+	/** True when every unit went into this one box via the single-box shortcut. */
+	singleBoxShortcut: boolean;
+	/** A one-line explanation for staff. */
+	summary: string;
+}
+
+/**
+ * A pallet or skid that freight can be loaded onto.
+ * Dimensions are in millimeters and weights in grams.
+ */
+export interface PalletDefinition {
+	name: string;
+	/** Deck length and width; loads may not overhang. */
+	length: number;
+	width: number;
+	/** Height of the empty pallet deck. */
+	deckHeight: number;
+	/** Highest the loaded pallet may stand, deck included. */
+	maxStackHeight: number;
+	/** Gross weight limit, pallet included. */
+	maxWeight: number;
+	/** Weight of the empty pallet. */
+	tareWeight: number;
+}
+
+/**
+ * A loaded pallet in the freight fallback.
+ */
+export interface FreightShipment {
+	type: "pallet";
+	pallet: PalletDefinition;
+	/** Items grouped per SKU, with quantity set to the number of units on this pallet. */
+	packedItems: PackingItem[];
+	/** Bundles loaded onto this pallet, only present when it holds any. */
+	bundles?: PackingBundle[];
+	/** Placement of every unit on the deck, only present when `includePlacements` is set. */
+	placements?: ItemPlacement[];
+	/** Height of the loaded pallet in millimeters, deck included. */
+	stackedHeight: number;
+	/** Weight of the loaded pallet in grams, pallet included. */
+	grossWeight: number;
+	/** Dangerous-goods labels the pallet needs, only present when it carries dangerous goods. */
+	labels?: string[];
+	/** Date the pallet ships, only present when the order is split into dispatch waves. */
+	dispatchDate?: string;
+}
+
+/**
+ * The boxes and pallets that ship on one date, and what the boxes cost to send.
+ */
+export interface DispatchWave {
+	/** Date the wave ships (YYYY-MM-DD). */
+	dispatchDate: string;
+	shipmentCount: number;
+	palletCount: number;
+	/** Price of the wave's boxes on the carrier rate table. Pallets are not priced. */
+	price: number;
+	/** The packing algorithm that produced the wave's boxes. */
+	algorithm?: PackingAlgorithmName;
+	/** Present only when orientation or stacking constraints forced extra boxes or unfit units in this wave. */
+	constraintImpact?: ConstraintImpact;
+}
+
+/**
+ * How an order with lines available on different dates is split into dispatch waves,
+ * and what splitting costs compared with waiting for the last line and shipping once.
+ */
+export interface DispatchPlan {
+	/** Each wave, earliest first. */
+	waves: DispatchWave[];
+	/** Total price of the boxes across every wave. */
+	splitPrice: number;
+	/**
+	 * Everything packed together and shipped on the last wave's date.
+	 * Only present when the time budget left room to pack it.
+	 */
+	together?: DispatchWave;
+	/** splitPrice less the together price. Only present with together. */
+	extraCost?: number;
+	currency: string;
+	/** Boxes no configured carrier service can carry, left out of the prices. */
+	unpricedShipments: number;
+}
+
+/**
+ * Items that no box could take, loaded onto pallets instead.
+ */
+export interface FreightConsignment {
+	palletCount: number;
+	/** Combined gross weight of all pallets in grams. */
+	grossWeight: number;
+	shipments: FreightShipment[];
+}
+
 /**
  * Defines the structure for the result of a multi-box packing attempt.
  */
@@ -57,10 +503,276 @@ export interface MultiBoxPackingResult {
 	/** Indicates whether all items were successfully packed. */
 	success: boolean;
 	/** An array of shipments, where each shipment consists of a box and the items packed within it. */
-	shipments: Array<{
-		box: ShippingBox;
-		packedItems: ShippingItem[];
-	}>;
-	/** An array of items that could not be fit into any box. */
-	unfitItems: ShippingItem[];
+	shipments: PackingShipment[];
+	/**
+	 * Pallets carrying the items no box could take.
+	 * Only present when the freight fallback is enabled and was needed.
+	 */
+	freight?: FreightConsignment;
+	/**
+	 * Items that could not be fit into any box or pallet, grouped per SKU with quantity
+	 * set to the unfit count and a reason code explaining why.
+	 */
+	unfitItems: UnfitPackingItem[];
+	/** Requested, packed and unfit unit counts per SKU. */
+	itemSummary: SkuPackingSummary[];
+	/** Weights and fill ratio rolled up across all shipments. */
+	totals: ConsignmentTotals;
+	/** Present only when orientation or stacking constraints forced extra boxes or unfit units. */
+	constraintImpact?: ConstraintImpact;
+	/** The strategy used to choose boxes. */
+	strategy?: PackingStrategyName;
+	/** The packing algorithm that produced the shipments. */
+	algorithm?: PackingAlgorithmName;
+	/** The metric used to pick the algorithm, only present in compare mode. */
+	compareBy?: PackingCompareMetric;
+	/** Every algorithm's result, only present in compare mode. */
+	comparison?: AlgorithmComparison[];
+	/** Sum of all shipment prices, only present for the "cost" strategy. */
+	totalPrice?: number;
+	/** Currency of the prices, only present for the "cost" strategy. */
+	currency?: string;
+	/**
+	 * True when the time budget ran out. The result is the best found so far: units the
+	 * packer had no time to place are unfit, and compare mode only lists the algorithms it ran.
+	 */
+	timedOut?: boolean;
+	/** Kits expanded before packing, only present when the request held any. */
+	kits?: KitExpansion[];
+	/**
+	 * Dispatch waves and the extra cost of splitting, only present when the lines become
+	 * available on more than one date. Compare mode then reports each wave's algorithm instead of a comparison.
+	 */
+	dispatch?: DispatchPlan;
+}
+
+/**
+ * How the packer treats boxes with no stock on hand.
+ * - penalise: use them only for units that no box in stock can take
+ * - skip: never use them
+ */
+export type OutOfStockPolicy = "penalise" | "skip";
+
+/**
+ * Options accepted by the packing functions.
+ */
+export interface PackingOptions {
+	/**
+	 * The box catalogue to pack into. When omitted, the active catalogue is
+	 * loaded from the database at call time.
+	 */
+	boxes?: ShippingBox[];
+	/**
+	 * Return the position, rotation, rotated dimensions and loading order of every
+	 * packed unit. Off by default to keep responses small.
+	 */
+	includePlacements?: boolean;
+	/** How boxes are chosen. Defaults to "volume". */
+	strategy?: PackingStrategyName;
+	/**
+	 * The packing algorithm to run, or "compare" to run them all and keep the best.
+	 * Defaults to "extreme-point".
+	 */
+	algorithm?: PackingAlgorithmName | "compare";
+	/** How compare mode ranks the results. Defaults to "boxes". */
+	compareBy?: PackingCompareMetric;
+	/**
+	 * Bundle limits for identical long items, or false to pack every unit separately.
+	 * Bundling is on by default with DEFAULT_BUNDLING_OPTIONS.
+	 */
+	bundling?: BundlingOptions | false;
+	/** Load items that no box can take onto pallets instead of leaving them unfit. Defaults to false. */
+	freight?: boolean;
+	/** Pallets for the freight fallback. Defaults to DEFAULT_PALLETS. */
+	pallets?: PalletDefinition[];
+	/**
+	 * Cubic conversion factor (kg per cubic metre) for the reported cubic weights.
+	 * Defaults to the rate table's cubicFactor, or DEFAULT_CUBIC_FACTOR.
+	 */
+	cubicFactor?: number;
+	/**
+	 * Milliseconds the packer may spend before returning the best result found so far
+	 * with timedOut set. No limit when omitted.
+	 */
+	timeBudgetMs?: number;
+	/** How boxes with no stock on hand are treated. Defaults to "penalise". */
+	outOfStock?: OutOfStockPolicy;
+	/**
+	 * Date the first dispatch wave ships (YYYY-MM-DD). Lines available by then ship in it,
+	 * later lines ship in a wave on their availableOn date. Defaults to today (UTC).
+	 */
+	dispatchDate?: string;
+}
+
+/**
+ * A single validation problem with an item in a packing request.
+ */
+export interface PackingItemValidationError {
+	/** Index of the item in the request array. */
+	index: number;
+	/** SKU of the item, if one was supplied. */
+	sku?: string;
+	/** Order the item belongs to, for batch requests. */
+	orderId?: string;
+	/** The field that failed validation. */
+	field: string;
+	/** Human-readable description of the problem. */
+	message: string;
+}
+
+/**
+ * One placed unit in a layout submitted for verification.
+ * Matches the placements returned with includePlacements=true.
+ */
+export interface LayoutPlacement {
+	item: { sku: string; weight: number; name?: string };
+	position: Point3D;
+	dimensions: { width: number; height: number; depth: number };
+}
+
+/**
+ * A packed box and the placements inside it, as submitted for verification.
+ */
+export interface PackingLayout {
+	box: ShippingBox;
+	placements: LayoutPlacement[];
+}
+
+/**
+ * Kinds of physical problem the layout validator reports.
+ * - OUT_OF_BOUNDS: a unit pokes outside the box's usable space.
+ * - OVERLAP: two units occupy the same space.
+ * - OVERWEIGHT: contents plus tare exceed the box's maxWeight.
+ * - UNSUPPORTED: too little of a unit's base rests on the floor or on units below.
+ */
+export type LayoutViolationCode =
+	| "OUT_OF_BOUNDS"
+	| "OVERLAP"
+	| "OVERWEIGHT"
+	| "UNSUPPORTED";
+
+/**
+ * A single problem found in a layout.
+ */
+export interface LayoutViolation {
+	code: LayoutViolationCode;
+	/** Index of the shipment (layout) with the problem. */
+	shipmentIndex: number;
+	/** Index of the offending placement, or null for box-level problems. */
+	placementIndex: number | null;
+	/** For OVERLAP, the index of the other placement. */
+	otherPlacementIndex?: number;
+	message: string;
+}
+
+/**
+ * The result of verifying one or more packing layouts.
+ */
+export interface LayoutVerificationResult {
+	valid: boolean;
+	violations: LayoutViolation[];
+}
+
+/**
+ * One line of a batch's carton pick list: how many of a box type the batch needs.
+ */
+export interface BoxPickListEntry {
+	boxId: string;
+	name: string;
+	count: number;
+}
+
+/**
+ * The result of packing many orders independently in one call.
+ */
+export interface BatchPackingResult {
+	/** True only if every order packed completely. */
+	success: boolean;
+	/** Each order's packing result, keyed by order ID. */
+	orders: Record<string, MultiBoxPackingResult>;
+	/** Boxes needed across all orders, by box type, most used first. */
+	boxesByType: BoxPickListEntry[];
+	/** True when any order's time budget ran out; see each order's timedOut. */
+	timedOut?: boolean;
+	totals: {
+		orderCount: number;
+		boxCount: number;
+		/** Pallets needed across all orders when freight is enabled. */
+		palletCount: number;
+		/** Orders with at least one unfit item. */
+		incompleteOrderIds: string[];
+	};
+}
+
+/**
+ * Hit and miss counts, size and limits of the packing result cache.
+ */
+export interface PackingCacheStats {
+	hits: number;
+	misses: number;
+	/** hits / (hits + misses), or 0 before the first lookup. */
+	hitRate: number;
+	/** Results currently cached. */
+	size: number;
+	maxEntries: number;
+	ttlMs: number;
+}
+
+/**
+ * A packing job sent to a packing worker thread.
+ */
+export interface PackingWorkerRequest {
+	id: number;
+	/** "best-box" runs findBestBox, "multi-box" runs packItemsIntoMultipleBoxes. */
+	kind: "best-box" | "multi-box";
+	items: PackingItem[];
+	/** Options with the box catalogue already loaded, since workers don't read the database. */
+	options: PackingOptions & { boxes: ShippingBox[] };
+}
+
+/**
+ * A packing worker's answer to a job: the result, or the error message if packing threw.
+ */
+export type PackingWorkerResponse =
+	| { id: number; result: BestBoxResult | MultiBoxPackingResult }
+	| { id: number; error: string };
+
+/**
+ * Size and load of the packing worker pool.
+ */
+export interface PackingPoolStats {
+	/** Most jobs packed at once; 0 means packing runs on the main thread. */
+	concurrency: number;
+	/** Default time budget in milliseconds; 0 means no limit. */
+	timeBudgetMs: number;
+	/** Workers started and not yet stopped. */
+	workers: number;
+	/** Jobs being packed right now. */
+	busy: number;
+	/** Jobs waiting for a free worker. */
+	queued: number;
+}
+
+/**
+ * A change to a box's stock.
+ * - receipt: cartons delivered, added to stock
+ * - usage: cartons used or written off, taken from stock
+ * - count: a stocktake, which sets stock to the quantity
+ */
+export interface BoxStockMovement {
+	type: "receipt" | "usage" | "count";
+	quantity: number;
+	/** New low-stock threshold for the box, set along with the movement. */
+	lowStockThreshold?: number;
+}
+
+/**
+ * Cartons of one box type used by a confirmed packing session.
+ */
+export interface BoxStockUsage {
+	boxId: string;
+	name: string;
+	count: number;
+	/** Stock left after the session was confirmed, only present when the box's stock is tracked. */
+	stockOnHand?: number;
 }
@@ -0,0 +1,109 @@
+/**
+ * Box Dimension Helpers
+ * Updated: 19/10/2026
+ * Author: Deej Potter
+ * Description: Works out the usable inner space, outer size and contents capacity of a ShippingBox.
+ * A box's length, width and height are its internal dimensions. The packer fills only the
+ * usable space left after the padding clearance, while carriers measure the outside of the carton.
+ * Satchels and tubes are fitted by their perimeter or bore rather than as rigid boxes.
+ */
+
+import ShippingBox, { PackagingType } from "../types/ShippingBox";
+import { BoxDimensions } from "../types/box-shipping-types";
+
+/**
+ * Packaging types accepted on boxes.
+ */
+export const PACKAGING_TYPES: PackagingType[] = ["box", "satchel", "tube"];
+
+/**
+ * Get a box's packaging type. Boxes without one are rigid.
+ */
+export function getPackagingType(box: ShippingBox): PackagingType {
+	return box.type ?? "box";
+}
+
+/**
+ * Get the space the packer may fill: the internal dimensions less the padding on each side.
+ */
+export function getUsableDimensions(box: ShippingBox): BoxDimensions {
+	const clearance = 2 * (box.padding || 0);
+	return {
+		length: Math.max(0, box.length - clearance),
+		width: Math.max(0, box.width - clearance),
+		height: Math.max(0, box.height - clearance),
+	};
+}
+
+/**
+ * Get the largest space the contents of a box may span.
+ * Laid flat, a satchel is its height longer and wider than the largest rigid block it holds,
+ * so its contents may reach that far when they are thin enough (see contentsFitPackaging).
+ * Boxes and tubes use their usable space.
+ */
+export function getPackingExtents(box: ShippingBox): BoxDimensions {
+	const usable = getUsableDimensions(box);
+	if (getPackagingType(box) !== "satchel") {
+		return usable;
+	}
+	return {
+		length: usable.length + usable.height,
+		width: usable.width + usable.height,
+		height: usable.height,
+	};
+}
+
+/**
+ * Check whether contents spanning the given extents fit a box's packaging.
+ * A satchel wraps around its contents, so their height is taken out of both flat sides:
+ * width plus height may not exceed the satchel's half-girth, and likewise along the length.
+ * A tube takes contents whose width-by-height cross-section fits inside its bore, the
+ * smaller of its width and height. A rigid box only needs the extents to fit its usable space.
+ */
+export function contentsFitPackaging(
+	box: ShippingBox,
+	extents: BoxDimensions
+): boolean {
+	const usable = getUsableDimensions(box);
+	switch (getPackagingType(box)) {
+		case "satchel":
+			return (
+				extents.height <= usable.height &&
+				extents.width + extents.height <= usable.width + usable.height &&
+				extents.length + extents.height <= usable.length + usable.height
+			);
+		case "tube":
+			return (
+				extents.length <= usable.length &&
+				Math.hypot(extents.width, extents.height) <=
+					Math.min(usable.width, usable.height)
+			);
+		default:
+			return (
+				extents.length <= usable.length &&
+				extents.width <= usable.width &&
+				extents.height <= usable.height
+			);
+	}
+}
+
+/**
+ * Get the outer dimensions of a box.
+ * Explicit outer dimensions win; otherwise the wall thickness is added on each side.
+ */
+export function getOuterDimensions(box: ShippingBox): BoxDimensions {
+	const walls = 2 * (box.wallThickness || 0);
+	return {
+		length: box.outerLength ?? box.length + walls,
+		width: box.outerWidth ?? box.width + walls,
+		height: box.outerHeight ?? box.height + walls,
+	};
+}
+
+/**
+ * Get how much the contents of a box may weigh in grams.
+ * maxWeight is the gross limit, so the carton's own tare weight is taken off.
+ */
+export function getContentsCapacity(box: ShippingBox): number {
+	return Math.max(0, box.maxWeight - (box.tareWeight || 0));
+}
@@ -0,0 +1,36 @@
+/**
+ * Box Stock Helpers
+ * Updated: 19/10/2026
+ * Author: Deej Potter
+ * Description: Reads the stock levels kept on ShippingBox. Stock is optional: a box without
+ * stockOnHand is not tracked and always counts as in stock.
+ */
+
+import ShippingBox from "../types/ShippingBox";
+
+/** Default level at or below which a tracked box is listed as low on stock. */
+export const DEFAULT_LOW_STOCK_THRESHOLD = 10;
+
+/**
+ * Check whether a box's stock is tracked.
+ */
+export function isStockTracked(box: ShippingBox): boolean {
+	return typeof box.stockOnHand === "number";
+}
+
+/**
+ * Check whether a box can be used: untracked, or with at least one carton on hand.
+ */
+export function isBoxInStock(box: ShippingBox): boolean {
+	return !isStockTracked(box) || box.stockOnHand! > 0;
+}
+
+/**
+ * Check whether a tracked box is at or below its low-stock threshold.
+ */
+export function isBoxLowOnStock(box: ShippingBox): boolean {
+	return (
+		isStockTracked(box) &&
+		box.stockOnHand! <= (box.lowStockThreshold ?? DEFAULT_LOW_STOCK_THRESHOLD)
+	);
+}
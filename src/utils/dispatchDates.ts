@@ -0,0 +1,59 @@
+/**
+ * Dispatch Date Helpers
+ * Updated: 19/10/2026
+ * Author: Deej Potter
+ * Description: Works out when each packing line can ship and groups lines into dispatch waves.
+ * Dates are calendar dates in YYYY-MM-DD form, so they compare correctly as strings.
+ */
+
+import { PackingItem } from "../types/box-shipping-types";
+
+const CALENDAR_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * The packing lines that ship together on one date.
+ */
+export interface DispatchWaveLines {
+	dispatchDate: string;
+	items: PackingItem[];
+}
+
+/**
+ * Check whether a value is a real calendar date in YYYY-MM-DD form.
+ */
+export function isCalendarDate(value: unknown): value is string {
+	if (typeof value !== "string" || !CALENDAR_DATE_PATTERN.test(value)) {
+		return false;
+	}
+	const date = new Date(`${value}T00:00:00Z`);
+	return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Get today's date (UTC) in YYYY-MM-DD form.
+ */
+export function getTodayDate(): string {
+	return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Group packing lines into dispatch waves, earliest first.
+ * A line ships on its availableOn date, or on dispatchDate if it has no date or is available by then.
+ */
+export function groupLinesIntoDispatchWaves(
+	items: PackingItem[],
+	dispatchDate: string
+): DispatchWaveLines[] {
+	const waves = new Map<string, PackingItem[]>();
+	for (const item of items) {
+		const date =
+			item.availableOn && item.availableOn > dispatchDate
+				? item.availableOn
+				: dispatchDate;
+		waves.set(date, [...(waves.get(date) ?? []), item]);
+	}
+	return Array.from(waves, ([date, lines]) => ({
+		dispatchDate: date,
+		items: lines,
+	})).sort((a, b) => a.dispatchDate.localeCompare(b.dispatchDate));
+}
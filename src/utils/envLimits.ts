@@ -0,0 +1,22 @@
+/**
+ * Environment Limit Helpers
+ * Updated: 19/10/2026
+ * Author: Deej Potter
+ * Description: Reads numeric limits such as cache sizes and time budgets from the environment.
+ */
+
+/**
+ * Read a non-negative whole number from the environment, or use the fallback
+ * when the variable is unset or not a non-negative whole number.
+ */
+export function readEnvLimit(name: string, fallback: number): number {
+	const value = Number(process.env[name]);
+	if (
+		process.env[name] === undefined ||
+		!Number.isInteger(value) ||
+		value < 0
+	) {
+		return fallback;
+	}
+	return value;
+}
@@ -0,0 +1,105 @@
+/**
+ * Segregation Helpers
+ * Updated: 19/10/2026
+ * Author: Deej Potter
+ * Description: Works out which units may share a box under the dangerous-goods and ship-separately
+ * rules, splits units into groups that are packed apart, and lists the labels a box needs.
+ */
+
+import ShippingItem, { HazardClass } from "../types/ShippingItem";
+import { HAZARD_CLASS_RULES } from "../services/hazard-constants";
+
+/**
+ * Check whether an item has a hazard class or any segregation tags.
+ */
+export function hasSegregationRules(item: ShippingItem): boolean {
+	return (
+		item.hazardClass !== undefined ||
+		(item.segregationTags?.length ?? 0) > 0 ||
+		(item.incompatibleWith?.length ?? 0) > 0
+	);
+}
+
+/**
+ * Tags other items' incompatibleWith can match: the hazard class and the segregation tags.
+ */
+function getTags(item: ShippingItem): string[] {
+	return [
+		...(item.hazardClass ? [item.hazardClass] : []),
+		...(item.segregationTags ?? []),
+	];
+}
+
+/**
+ * Check whether one item's rules stop it sharing a box with another. Only checks one direction.
+ */
+function excludes(item: ShippingItem, other: ShippingItem): boolean {
+	const rule = item.hazardClass && HAZARD_CLASS_RULES[item.hazardClass];
+	if (rule?.ownCarton && other.hazardClass !== item.hazardClass) {
+		return true;
+	}
+	const otherTags = getTags(other);
+	return [
+		...(rule?.incompatibleWith ?? []),
+		...(item.incompatibleWith ?? []),
+	].some((tag) => otherTags.includes(tag));
+}
+
+/**
+ * Check whether two items may be packed in the same box.
+ */
+export function canShareBox(a: ShippingItem, b: ShippingItem): boolean {
+	return !excludes(a, b) && !excludes(b, a);
+}
+
+/**
+ * Key that matches units with the same segregation rules.
+ */
+function getSegregationKey(item: ShippingItem): string {
+	return JSON.stringify([
+		item.hazardClass ?? null,
+		[...(item.segregationTags ?? [])].sort(),
+		[...(item.incompatibleWith ?? [])].sort(),
+	]);
+}
+
+/**
+ * Split units into groups that may each share boxes, keeping the units' order.
+ * Each unit joins the first group whose units it may share a box with.
+ * An item that is incompatible with its own tags gets a box of its own for every unit.
+ * Units without rules stay in one group, so ordinary orders pack exactly as before.
+ */
+export function groupUnitsForSegregation<T extends ShippingItem>(
+	units: T[]
+): T[][] {
+	if (!units.some(hasSegregationRules)) {
+		return [units];
+	}
+	// One unit per distinct rule set stands in for its group when checking a new unit
+	const groups: { members: Map<string, T>; units: T[] }[] = [];
+	for (const unit of units) {
+		const key = getSegregationKey(unit);
+		let group = groups.find((candidate) =>
+			Array.from(candidate.members.values()).every((member) =>
+				canShareBox(unit, member)
+			)
+		);
+		if (!group) {
+			group = { members: new Map(), units: [] };
+			groups.push(group);
+		}
+		group.members.set(key, unit);
+		group.units.push(unit);
+	}
+	return groups.map((group) => group.units);
+}
+
+/**
+ * List the dangerous-goods labels a box needs for its items, in rule order.
+ */
+export function getHazardLabels(items: ShippingItem[]): string[] {
+	const classes = new Set(items.map((item) => item.hazardClass));
+	return Object.entries(HAZARD_CLASS_RULES)
+		.filter(([hazardClass]) => classes.has(hazardClass as HazardClass))
+		.map(([, rule]) => rule.label);
+}
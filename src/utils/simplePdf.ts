@@ -0,0 +1,105 @@
+/**
+ * Simple PDF Writer
+ * Updated: 19/10/2026
+ * Author: Deej Potter
+ * Description: Writes plain-text PDF documents on A4 pages in a monospaced font.
+ * Packing slips are fixed-width tables, so this covers them without a PDF library dependency.
+ * Text is limited to printable Latin-1; anything else is replaced with "?".
+ */
+
+// A4 in points
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 40;
+
+/**
+ * Options for renderTextPdf.
+ */
+export interface TextPdfOptions {
+	/** Font size in points. Defaults to 9. */
+	fontSize?: number;
+	/** Document title stored in the PDF metadata. */
+	title?: string;
+}
+
+/**
+ * Escape a line for a PDF string literal, replacing characters Courier can't show.
+ */
+function escapePdfText(text: string): string {
+	return text
+		.replace(/[^\x20-\x7e\xa0-\xff]/g, "?")
+		.replace(/[\\()]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Render lines of text as a PDF document. Lines that don't fit on a page flow onto the next;
+ * a line containing only "\f" starts a new page.
+ */
+export function renderTextPdf(
+	lines: string[],
+	options: TextPdfOptions = {}
+): Buffer {
+	const fontSize = options.fontSize ?? 9;
+	const leading = Math.round(fontSize * 1.3 * 10) / 10;
+	const linesPerPage = Math.floor((PAGE_HEIGHT - MARGIN * 2) / leading);
+
+	// Split the lines into pages
+	const pages: string[][] = [[]];
+	for (const line of lines) {
+		const page = pages[pages.length - 1];
+		if (line === "\f") {
+			if (page.length > 0) pages.push([]);
+		} else if (page.length >= linesPerPage) {
+			pages.push([line]);
+		} else {
+			page.push(line);
+		}
+	}
+
+	// Objects 1-4 are the catalog, page tree, font and info; each page adds a page and a content stream
+	const objects: string[] = [];
+	const pageIds = pages.map((_, index) => 5 + index * 2);
+	objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+	objects[2] = `<< /Type /Pages /Kids [${pageIds
+		.map((id) => `${id} 0 R`)
+		.join(" ")}] /Count ${pages.length} >>`;
+	objects[3] =
+		"<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>";
+	objects[4] = `<< /Title (${escapePdfText(
+		options.title ?? ""
+	)}) /Producer (technical-ai) >>`;
+	pages.forEach((pageLines, index) => {
+		const content = [
+			"BT",
+			`/F1 ${fontSize} Tf`,
+			`${leading} TL`,
+			`${MARGIN} ${PAGE_HEIGHT - MARGIN - fontSize} Td`,
+			...pageLines.map((line) => `(${escapePdfText(line)}) Tj T*`),
+			"ET",
+		].join("\n");
+		objects[pageIds[index]] =
+			`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+			`/Resources << /Font << /F1 3 0 R >> >> /Contents ${
+				pageIds[index] + 1
+			} 0 R >>`;
+		objects[pageIds[index] + 1] = `<< /Length ${Buffer.byteLength(
+			content,
+			"latin1"
+		)} >>\nstream\n${content}\nendstream`;
+	});
+
+	// Write the objects and the cross-reference table with byte offsets
+	let pdf = "%PDF-1.4\n";
+	const offsets: number[] = [];
+	for (let id = 1; id < objects.length; id++) {
+		offsets[id] = Buffer.byteLength(pdf, "latin1");
+		pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+	}
+	const xrefOffset = Buffer.byteLength(pdf, "latin1");
+	pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+	for (let id = 1; id < objects.length; id++) {
+		pdf += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+	}
+	pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 4 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+	return Buffer.from(pdf, "latin1");
+}
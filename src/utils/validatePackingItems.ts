@@ -0,0 +1,232 @@
+/**
+ * Packing Request Validation
+ * Updated: 19/10/2026
+ * Author: Deej Potter
+ * Description: Validates the items submitted to the packing endpoints before they reach the packer.
+ * Returns a structured per-item error list so the frontend can highlight the offending rows
+ * instead of getting a 500 from deep inside the packing algorithm.
+ */
+
+import { PackingItemValidationError } from "../types/box-shipping-types";
+import { HazardClass, ItemAxis } from "../types/ShippingItem";
+import { HAZARD_CLASSES } from "../services/hazard-constants";
+import { isCalendarDate } from "./dispatchDates";
+
+// Fields that must be positive, finite numbers on every packing item
+const POSITIVE_NUMBER_FIELDS = ["length", "width", "height", "weight"] as const;
+
+// Valid values for allowedOrientations
+const ITEM_AXES: ItemAxis[] = ["length", "width", "height"];
+
+/**
+ * Validates a single packing item.
+ * @param item The raw item from the request body.
+ * @param index Index of the item in the request array, used in error messages.
+ * @param isKitSku Matches kit SKUs. Kit lines are expanded before packing, so they need no dimensions or weight.
+ * @returns A list of problems, empty if the item is valid.
+ */
+export function validatePackingItem(
+	item: any,
+	index: number,
+	isKitSku: (sku: string) => boolean = () => false
+): PackingItemValidationError[] {
+	if (typeof item !== "object" || item === null || Array.isArray(item)) {
+		return [{ index, field: "item", message: "Item must be an object." }];
+	}
+
+	const errors: PackingItemValidationError[] = [];
+	const sku = typeof item.sku === "string" ? item.sku : undefined;
+
+	if (!sku || !sku.trim()) {
+		errors.push({
+			index,
+			field: "sku",
+			message: "SKU must be a non-empty string.",
+		});
+	}
+
+	const isKit = !!sku && isKitSku(sku);
+	for (const field of isKit ? [] : POSITIVE_NUMBER_FIELDS) {
+		const value = item[field];
+		if (typeof value !== "number" || !isFinite(value) || value <= 0) {
+			errors.push({
+				index,
+				sku,
+				field,
+				message: `${field} must be a positive number.`,
+			});
+		}
+	}
+
+	// quantity is optional and defaults to 1, but must be a whole number of units if given
+	if (
+		item.quantity !== undefined &&
+		(typeof item.quantity !== "number" ||
+			!Number.isInteger(item.quantity) ||
+			item.quantity < 1)
+	) {
+		errors.push({
+			index,
+			sku,
+			field: "quantity",
+			message: "quantity must be a positive whole number.",
+		});
+	}
+
+	// Optional orientation and stacking constraints
+	if (
+		item.allowedOrientations !== undefined &&
+		(!Array.isArray(item.allowedOrientations) ||
+			item.allowedOrientations.some(
+				(axis: unknown) => !ITEM_AXES.includes(axis as ItemAxis)
+			))
+	) {
+		errors.push({
+			index,
+			sku,
+			field: "allowedOrientations",
+			message: `allowedOrientations must be an array of ${ITEM_AXES.join(
+				", "
+			)}.`,
+		});
+	} else if (
+		item.thisSideUp === true &&
+		item.allowedOrientations?.length > 0 &&
+		!item.allowedOrientations.includes("height")
+	) {
+		// thisSideUp keeps the height vertical, which these orientations never allow
+		errors.push({
+			index,
+			sku,
+			field: "allowedOrientations",
+			message:
+				"allowedOrientations must include height when thisSideUp is true.",
+		});
+	}
+	for (const field of ["thisSideUp", "fragile"]) {
+		if (item[field] !== undefined && typeof item[field] !== "boolean") {
+			errors.push({
+				index,
+				sku,
+				field,
+				message: `${field} must be a boolean.`,
+			});
+		}
+	}
+	if (
+		item.maxLoadOnTop !== undefined &&
+		(typeof item.maxLoadOnTop !== "number" ||
+			!isFinite(item.maxLoadOnTop) ||
+			item.maxLoadOnTop < 0)
+	) {
+		errors.push({
+			index,
+			sku,
+			field: "maxLoadOnTop",
+			message: "maxLoadOnTop must be a non-negative number.",
+		});
+	}
+
+	// Optional dangerous-goods and segregation rules
+	if (
+		item.hazardClass !== undefined &&
+		!HAZARD_CLASSES.includes(item.hazardClass as HazardClass)
+	) {
+		errors.push({
+			index,
+			sku,
+			field: "hazardClass",
+			message: `hazardClass must be one of ${HAZARD_CLASSES.join(", ")}.`,
+		});
+	}
+	for (const field of ["segregationTags", "incompatibleWith"]) {
+		if (
+			item[field] !== undefined &&
+			(!Array.isArray(item[field]) ||
+				item[field].some(
+					(tag: unknown) => typeof tag !== "string" || !tag.trim()
+				))
+		) {
+			errors.push({
+				index,
+				sku,
+				field,
+				message: `${field} must be an array of non-empty strings.`,
+			});
+		}
+	}
+
+	if (item.availableOn !== undefined && !isCalendarDate(item.availableOn)) {
+		errors.push({
+			index,
+			sku,
+			field: "availableOn",
+			message: "availableOn must be a date in YYYY-MM-DD form.",
+		});
+	}
+
+	return errors;
+}
+
+/**
+ * Validates every item in a packing request.
+ * @param items The raw request body.
+ * @param isKitSku Matches kit SKUs, whose lines need no dimensions or weight.
+ * @returns A list of problems across all items, empty if the request is valid.
+ */
+export function validatePackingItems(
+	items: unknown,
+	isKitSku?: (sku: string) => boolean
+): PackingItemValidationError[] {
+	if (!Array.isArray(items) || items.length === 0) {
+		return [
+			{
+				index: -1,
+				field: "items",
+				message: "Request body must be a non-empty array of items.",
+			},
+		];
+	}
+	const errors = items.flatMap((item, index) =>
+		validatePackingItem(item, index, isKitSku)
+	);
+	if (errors.length > 0) {
+		console.warn(
+			`[Shipping] Packing request rejected with ${errors.length} validation error(s).`
+		);
+	}
+	return errors;
+}
+
+/**
+ * Validates a batch packing request: an object of item arrays keyed by order ID.
+ * @param orders The raw orders object from the request body.
+ * @param isKitSku Matches kit SKUs, whose lines need no dimensions or weight.
+ * @returns A list of problems across all orders, each tagged with its orderId, empty if the batch is valid.
+ */
+export function validatePackingOrders(
+	orders: unknown,
+	isKitSku?: (sku: string) => boolean
+): PackingItemValidationError[] {
+	if (
+		typeof orders !== "object" ||
+		orders === null ||
+		Array.isArray(orders) ||
+		Object.keys(orders).length === 0
+	) {
+		return [
+			{
+				index: -1,
+				field: "orders",
+				message:
+					"orders must be a non-empty object of item arrays keyed by order ID.",
+			},
+		];
+	}
+	return Object.entries(orders).flatMap(([orderId, items]) =>
+		validatePackingItems(items, isKitSku).map((error) => ({
+			orderId,
+			...error,
+		}))
+	);
+}
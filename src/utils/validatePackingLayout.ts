@@ -0,0 +1,173 @@
+/**
+ * Packing Layout Request Validation
+ * Updated: 19/10/2026
+ * Author: Deej Potter
+ * Description: Validates the body submitted to POST /api/shipping/verify-packing before it reaches
+ * the layout validator. The body has the same shape as a pack-multiple result with placements,
+ * so a packing result can be posted back unchanged.
+ */
+
+import { PackingItemValidationError } from "../types/box-shipping-types";
+
+// Box fields that must be positive, finite numbers
+const BOX_NUMBER_FIELDS = ["length", "width", "height", "maxWeight"] as const;
+
+// Dimension fields on each placement
+const PLACEMENT_DIMENSION_FIELDS = ["width", "height", "depth"] as const;
+
+// Position fields on each placement
+const POSITION_FIELDS = ["x", "y", "z"] as const;
+
+/**
+ * Checks whether a value is a finite number.
+ */
+function isFiniteNumber(value: unknown): value is number {
+	return typeof value === "number" && isFinite(value);
+}
+
+/**
+ * Validates a single placement in a shipment.
+ */
+function validatePlacement(
+	placement: any,
+	index: number,
+	placementIndex: number
+): PackingItemValidationError[] {
+	const field = `placements[${placementIndex}]`;
+	if (typeof placement !== "object" || placement === null) {
+		return [{ index, field, message: "Placement must be an object." }];
+	}
+
+	const errors: PackingItemValidationError[] = [];
+	const item = placement.item;
+	const sku =
+		item && typeof item.sku === "string" && item.sku.trim()
+			? item.sku
+			: undefined;
+	if (!sku) {
+		errors.push({
+			index,
+			field: `${field}.item.sku`,
+			message: "item.sku must be a non-empty string.",
+		});
+	}
+	if (!item || !isFiniteNumber(item.weight) || item.weight < 0) {
+		errors.push({
+			index,
+			sku,
+			field: `${field}.item.weight`,
+			message: "item.weight must be a non-negative number.",
+		});
+	}
+	for (const axis of POSITION_FIELDS) {
+		if (!placement.position || !isFiniteNumber(placement.position[axis])) {
+			errors.push({
+				index,
+				sku,
+				field: `${field}.position.${axis}`,
+				message: `position.${axis} must be a number.`,
+			});
+		}
+	}
+	for (const dimension of PLACEMENT_DIMENSION_FIELDS) {
+		const value = placement.dimensions?.[dimension];
+		if (!isFiniteNumber(value) || value <= 0) {
+			errors.push({
+				index,
+				sku,
+				field: `${field}.dimensions.${dimension}`,
+				message: `dimensions.${dimension} must be a positive number.`,
+			});
+		}
+	}
+	return errors;
+}
+
+/**
+ * Validates a single shipment: its box and every placement in it.
+ */
+function validateShipment(
+	shipment: any,
+	index: number
+): PackingItemValidationError[] {
+	if (typeof shipment !== "object" || shipment === null) {
+		return [
+			{ index, field: "shipment", message: "Shipment must be an object." },
+		];
+	}
+
+	const errors: PackingItemValidationError[] = [];
+	const box = shipment.box;
+	if (typeof box !== "object" || box === null) {
+		errors.push({ index, field: "box", message: "box must be an object." });
+	} else {
+		for (const field of BOX_NUMBER_FIELDS) {
+			if (!isFiniteNumber(box[field]) || box[field] <= 0) {
+				errors.push({
+					index,
+					field: `box.${field}`,
+					message: `box.${field} must be a positive number.`,
+				});
+			}
+		}
+	}
+
+	if (!Array.isArray(shipment.placements)) {
+		errors.push({
+			index,
+			field: "placements",
+			message:
+				"placements must be an array. Request packing with includePlacements=true to get them.",
+		});
+		return errors;
+	}
+	shipment.placements.forEach((placement: unknown, placementIndex: number) =>
+		errors.push(...validatePlacement(placement, index, placementIndex))
+	);
+	return errors;
+}
+
+/**
+ * Validates a verify-packing request body.
+ * @param body The raw request body: { shipments, minSupportRatio? }.
+ * @returns A list of problems, empty if the body is valid. index is the shipment index, or -1 for the body itself.
+ */
+export function validatePackingLayoutRequest(
+	body: any
+): PackingItemValidationError[] {
+	if (
+		typeof body !== "object" ||
+		body === null ||
+		!Array.isArray(body.shipments) ||
+		body.shipments.length === 0
+	) {
+		return [
+			{
+				index: -1,
+				field: "shipments",
+				message: "Request body must have a non-empty shipments array.",
+			},
+		];
+	}
+	const errors = body.shipments.flatMap((shipment: unknown, index: number) =>
+		validateShipment(shipment, index)
+	);
+	if (
+		body.minSupportRatio !== undefined &&
+		(!isFiniteNumber(body.minSupportRatio) ||
+			body.minSupportRatio < 0 ||
+			body.minSupportRatio > 1)
+	) {
+		errors.push({
+			index: -1,
+			field: "minSupportRatio",
+			message: "minSupportRatio must be a number from 0 to 1.",
+		});
+	}
+	if (errors.length > 0) {
+		console.warn(
+			`[Shipping] Layout verification request rejected with ${errors.length} validation error(s).`
+		);
+	}
+	return errors;
+}